@@ -0,0 +1,133 @@
+// Relay for live collaboration (see src/collab.ts): a WebSocket server in
+// front of the shared session in relaySession.js.
+//
+// Uses only Node's built-in modules so it runs offline: npm run relay
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { createRelaySession } from './relaySession.js';
+
+const PORT = Number(process.env.RELAY_PORT ?? 4100);
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const relay = createRelaySession();
+
+// Frame a text message (server frames are never masked)
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, length])
+    : length < 65536
+      ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => {
+        const size = Buffer.alloc(8);
+        size.writeBigUInt64BE(BigInt(length));
+        return size;
+      })()]);
+  return Buffer.concat([header, payload]);
+};
+
+// Read as many complete frames as the buffer holds. Returns the frames and
+// whatever is left over for the next chunk.
+const decodeFrames = buffer => {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    const masked = (second & 0x80) !== 0;
+    let length = second & 0x7f;
+    let position = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < position + 2) break;
+      length = buffer.readUInt16BE(position);
+      position += 2;
+    } else if (length === 127) {
+      if (buffer.length < position + 8) break;
+      length = Number(buffer.readBigUInt64BE(position));
+      position += 8;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < position + maskLength + length) break;
+
+    const mask = masked ? buffer.subarray(position, position + 4) : null;
+    position += maskLength;
+    const payload = Buffer.from(buffer.subarray(position, position + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+    offset = position + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+const server = createServer((request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('This is the league collaboration relay. Connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  const connection = relay.connect(message => {
+    if (!socket.destroyed) socket.write(encodeFrame(JSON.stringify(message)));
+  });
+  let buffered = Buffer.alloc(0);
+  // Payloads of a fragmented message received so far
+  let fragments = [];
+
+  socket.on('data', chunk => {
+    const { frames, rest } = decodeFrames(Buffer.concat([buffered, chunk]));
+    buffered = Buffer.from(rest);
+
+    frames.forEach(frame => {
+      if (frame.opcode === 0x8) {
+        socket.end(encodeFrame('', 0x8));
+        connection.disconnect();
+        return;
+      }
+      if (frame.opcode === 0x9) {
+        socket.write(encodeFrame(frame.payload.toString(), 0xa));
+        return;
+      }
+      if (frame.opcode !== 0x1 && frame.opcode !== 0x0) return;
+
+      fragments.push(frame.payload);
+      if (!frame.fin) return;
+      const text = Buffer.concat(fragments).toString();
+      fragments = [];
+
+      try {
+        connection.receive(JSON.parse(text));
+      } catch (error) {
+        console.warn(`Ignored a message that could not be handled: ${error.message}`);
+      }
+    });
+  });
+  socket.on('close', connection.disconnect);
+  socket.on('error', connection.disconnect);
+});
+
+server.listen(PORT, () => {
+  console.log(`League collaboration relay listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,22 @@
+import { ClientMessage, CollabOperation, ServerMessage } from '../src/collab';
+import { LeagueItems } from '../src/types';
+
+export const SEEN_OPS_KEPT: number;
+
+export interface RelayState {
+  seq: number;
+  snapshot: LeagueItems | null;
+  snapshotSeq: number;
+  ops: CollabOperation[];
+  seenOpIds: Map<string, number>;
+}
+
+export interface RelayConnection {
+  receive(message: ClientMessage): void;
+  disconnect(): void;
+}
+
+export function createRelaySession(options?: { seenOpsKept?: number }): {
+  session: RelayState;
+  connect(send: (message: ServerMessage) => void): RelayConnection;
+};
@@ -0,0 +1,115 @@
+// The shared league of the collaboration relay and the clients connected to
+// it, without any networking (relay.js puts it behind a WebSocket server). It
+// numbers the operations it receives, keeps them since the last snapshot so
+// late joiners can catch up, and forwards them with everyone's presence to all
+// connected clients. It never applies operations itself, so it knows nothing
+// about the league.
+
+// How many operations back a resent operation is still recognized. Clients
+// resend the ones they didn't see confirmed when they reconnect, which is
+// never more than a few.
+export const SEEN_OPS_KEPT = 10000;
+
+export const createRelaySession = ({ seenOpsKept = SEEN_OPS_KEPT } = {}) => {
+  // The shared league: a snapshot, the numbered operations since, and the
+  // number given to each recent operation id so resent ones aren't applied twice
+  const session = {
+    seq: 0,
+    snapshot: null,
+    snapshotSeq: 0,
+    ops: [],
+    seenOpIds: new Map()
+  };
+
+  // Connected clients, each with its user and presence once it said hello
+  const clients = new Set();
+
+  const broadcast = message => {
+    clients.forEach(client => {
+      if (client.user) client.send(message);
+    });
+  };
+
+  const broadcastPresence = () => {
+    const peers = [...clients]
+      .filter(client => client.user)
+      .map(client => ({ ...client.user, ...client.presence }));
+    broadcast({ type: 'presence', peers });
+  };
+
+  const welcome = client => {
+    client.send({ type: 'welcome', seq: session.seq, snapshot: session.snapshot, ops: session.ops });
+  };
+
+  // Remember an operation id, forgetting those numbered too long ago. The map
+  // keeps the order ids were added in, which is the order of their numbers.
+  const rememberOp = (opId, seq) => {
+    session.seenOpIds.set(opId, seq);
+    for (const [seenId, seenSeq] of session.seenOpIds) {
+      if (seenSeq > seq - seenOpsKept) break;
+      session.seenOpIds.delete(seenId);
+    }
+  };
+
+  const handleMessage = (client, message) => {
+    switch (message.type) {
+      case 'hello':
+        client.user = message.user;
+        welcome(client);
+        broadcastPresence();
+        break;
+      case 'op': {
+        if (session.seenOpIds.has(message.op.opId)) {
+          client.send({ type: 'duplicate', opId: message.op.opId });
+          return;
+        }
+        session.seq += 1;
+        rememberOp(message.op.opId, session.seq);
+        const op = { ...message.op, seq: session.seq };
+        session.ops.push(op);
+        broadcast({ type: 'op', op });
+        break;
+      }
+      case 'snapshot':
+        if (message.seed) {
+          if (session.snapshot) {
+            // Another client seeded the league first, so catch this one up instead
+            welcome(client);
+            return;
+          }
+          session.snapshot = message.items;
+          session.snapshotSeq = session.seq;
+          // The seeding client's unconfirmed changes are part of its league,
+          // everyone else still has to send theirs
+          broadcast({ type: 'reset', seq: session.seq, items: message.items, clientId: client.user?.clientId });
+        } else if (session.snapshot && message.seq === session.seq) {
+          // Nothing happened since this snapshot was taken, so the log can start over
+          session.snapshot = message.items;
+          session.snapshotSeq = session.seq;
+          session.ops = [];
+        }
+        break;
+      case 'presence':
+        client.presence = { selectedItems: message.selectedItems ?? [], renamingItem: message.renamingItem };
+        broadcastPresence();
+        break;
+    }
+  };
+
+  return {
+    session,
+    // Add a client that is sent messages through `send`. Returns what the
+    // connection hands on: the client's messages and its disconnecting.
+    connect: send => {
+      const client = { send, user: null, presence: { selectedItems: [] } };
+      clients.add(client);
+      return {
+        receive: message => handleMessage(client, message),
+        disconnect: () => {
+          if (!clients.delete(client)) return;
+          if (client.user) broadcastPresence();
+        }
+      };
+    }
+  };
+};
@@ -1,114 +1,411 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { RefObject, useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import {
   UncontrolledTreeEnvironment,
   Tree,
-  StaticTreeDataProvider,
   TreeRef,
-  TreeItem,
-  TreeItemIndex,
-  DraggingPosition
+  TreeItemIndex
 } from 'react-complex-tree';
-import { Search, MoreVertical, ChevronRight, ChevronDown, X, FolderPlus, Plus, ToggleLeft, ToggleRight } from 'lucide-react';
+import { MoreVertical, ChevronRight, ChevronDown, X, FolderPlus, Plus, ToggleLeft, ToggleRight, Trash2, AlertTriangle, Download, Upload, Loader2, AlertCircle, Calendar, Columns2, LayoutTemplate, GitCompare, ScrollText, Share2, Eye, Command } from 'lucide-react';
 import { leagueStructure } from './data';
+import { ItemData, ItemFields, LeagueItem, LeagueItems } from './types';
+import { CommitListener, HISTORY_LIMIT, useTreeHistory } from './useTreeHistory';
+import HistoryMenu from './HistoryMenu';
+import { TrashEntry, createTrashEntry, loadTrash, restoreAction, saveTrash } from './trash';
+import { ItemStatus, LeagueDataProvider } from './LeagueDataProvider';
+import { LeagueApi, createRestLeagueApi } from './leagueApi';
+import { MockLeagueApi } from './mockLeagueApi';
+import { LeagueState, collectSubtree, createLeagueState, mergeLoadedItems, revertChanges, unloadedChildren } from './leagueStore';
+import { summarizeFields } from './itemSchema';
+import { findMatches, highlightRanges, parseSearchQuery, SearchQuery } from './searchQuery';
+import { VIRTUALIZE_THRESHOLD } from './virtualRows';
+import { useVirtualRows, VirtualRows } from './useVirtualRows';
+import VirtualItemsContainer from './VirtualItemsContainer';
+import { TreeSearch, useTreeSearch } from './useTreeSearch';
+import SearchBar from './SearchBar';
+import { CURRENT_SEASON, DRAFT_SEASON, SEASON_PANES, SeasonPane, createDraftRoot, isSeasonRoot, paneOf } from './seasons';
+import ConfirmDeleteModal from './ConfirmDeleteModal';
+import ConfirmTemplateModal from './ConfirmTemplateModal';
+import EditModal from './EditModal';
+import CreateGroupModal from './CreateGroupModal';
+import TrashPanel from './TrashPanel';
+import SchedulePanel from './SchedulePanel';
+import TemplatesPanel from './TemplatesPanel';
+import ChangesPanel from './ChangesPanel';
+import AuditLogPanel from './AuditLogPanel';
+import PublishPanel from './PublishPanel';
+import RolePicker from './RolePicker';
+import CommandPalette from './CommandPalette';
+import ContextMenu from './ContextMenu';
+import { SAVE_DELAY_MS, loadLeague, useAutoSave } from './persistence';
+import { ImportMode, NestedNode, applyImport, downloadFile, exportCsv, exportJson } from './importExport';
+import ImportModal from './ImportModal';
+import {
+  allowedChildTypes,
+  allowedTypesForItem,
+  defaultChildType,
+  dropParentId,
+  explainDrop,
+  explainPlacement,
+  parentKindOf
+} from './hierarchyRules';
+import { explainAddPlayer, explainCopyRoster, rosterWarnings } from './rosterRules';
+import { buildPastedItems, parseClipboard, placePaste, serializeClipboard } from './clipboard';
+import { CHANGE_LABELS, describeChange, diffLeagues } from './leagueDiff';
+import { AuditEntry, appendEntries, auditEntries, loadAuditLog, saveAuditLog } from './auditLog';
+import { CollabSession, CollabStatus, Presence, applyRequests, loadCollabUser } from './collab';
+import { SeasonTemplate, TeamHandling, applyTemplate, createTemplate, loadTemplates, saveTemplates } from './templates';
+import { Grant, Permission, VIEWER_GRANT, explainMove, explainPermission, loadGrant, saveGrant } from './permissions';
+import { readPublishedLeague } from './publish';
+import { KEYBOARD_BINDINGS, TREE_LIVE_DESCRIPTORS, itemActionFor } from './keyboardBindings';
+import { PaletteCommand, addRecentCommand, loadRecentCommands, saveRecentCommands } from './palette';
+import { useAnnouncer } from './useAnnouncer';
+import { describeDelete, describeDrop, describeDuplicate } from './announcements';
 import 'react-complex-tree/lib/style-modern.css';
 // Tree styles are now consolidated in index.css
 
-interface ItemData {
-  name: string;
-  type: 'Conference' | 'Division' | 'Team';
-}
+// A published link (see PublishPanel) opens its league read-only, on its
+// own: it isn't saved, shared live or loaded from the league service
+const published = readPublishedLeague(window.location.hash);
 
-interface LeagueItem extends TreeItem {
-  data: ItemData;
-}
+// VITE_LEAGUE_API picks where the league lives: unset keeps it in local
+// storage, "mock" uses the in-process fake service and anything else is taken
+// as the base URL of the league REST service
+const leagueApiSetting = import.meta.env.VITE_LEAGUE_API as string | undefined;
+const leagueApi: LeagueApi | null = !leagueApiSetting || published
+  ? null
+  : leagueApiSetting === 'mock'
+    ? new MockLeagueApi(leagueStructure)
+    : createRestLeagueApi(leagueApiSetting);
 
-// Define SelectionAction interface since it's not exported by react-complex-tree
-interface SelectionAction {
-  primary: boolean;
-  additional: boolean;
-}
+// The league and its trash are saved in local storage unless they come from
+// the league service or a published link
+const savesLocally = !leagueApi && !published;
+
+// VITE_COLLAB_URL connects to the collaboration relay (npm run relay) so
+// several people can edit the league live. It only applies to leagues kept
+// in local storage.
+const collabUrl = leagueApi || published ? undefined : (import.meta.env.VITE_COLLAB_URL as string | undefined);
 
-// Define EditModal props interface
-interface EditModalProps {
+interface RenamingItemProps {
   item: LeagueItem;
-  onSave: (name: string, type: ItemData['type']) => void;
-  onCancel: () => void;
+  tree: TreeRef | null | undefined;
+  onRename: (item: LeagueItem, name: string) => void;
+  // Called with the item while its name is being edited and with null after
+  onRenamingChange: (itemId: TreeItemIndex | null) => void;
 }
 
-// Define CreateGroupModal props interface
-interface CreateGroupModalProps {
-  onSave: (name: string, type: ItemData['type']) => void;
-  onCancel: () => void;
-  isFirstGroup?: boolean;
+// The inline rename input. It lives outside App so re-renders (such as live
+// edits from others) don't remount it and throw away what was typed.
+function RenamingItem({ item, tree, onRename, onRenamingChange }: RenamingItemProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // Focus and select all text when mounting the input
+    if (inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, []);
+
+  useEffect(() => {
+    onRenamingChange(item.index);
+    return () => onRenamingChange(null);
+  }, [item.index, onRenamingChange]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (inputRef.current) {
+        // Get the current value
+        const newName = inputRef.current.value;
+        // Update the item with the new name
+        onRename(item, newName);
+        // Return focus to the tree and stop renaming
+        setTimeout(() => {
+          tree?.abortRenamingItem();
+          tree?.focusTree();
+        }, 10);
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      tree?.abortRenamingItem();
+    }
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      className="rct-tree-item-renaming-input"
+      defaultValue={item.data.name}
+      onKeyDown={handleKeyDown}
+      onBlur={() => {
+        // When input loses focus, apply the edit if there's a value
+        if (inputRef.current && inputRef.current.value.trim()) {
+          onRename(item, inputRef.current.value);
+        }
+        tree?.abortRenamingItem();
+      }}
+    />
+  );
 }
 
+// Two letters for a presence avatar, e.g. "MJ" for "Maria Jones"
+const initialsOf = (name: string) =>
+  name.split(/\s+/).filter(Boolean).map(word => word[0]).join('').slice(0, 2).toUpperCase();
+
+// The panels that slide in from the side
+type SidePanel = 'trash' | 'schedule' | 'templates' | 'changes' | 'audit' | 'publish';
+
 function App() {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [items, setItems] = useState<Record<TreeItemIndex, LeagueItem>>(leagueStructure);
+  const [splitView, setSplitView] = useState(false);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; itemId: TreeItemIndex } | null>(null);
+  // The tree the open command palette acts on, or null while it is closed
+  const [paletteTreeId, setPaletteTreeId] = useState<string | null>(null);
+  const [recentCommands, setRecentCommands] = useState<string[]>(loadRecentCommands);
   const [editItem, setEditItem] = useState<TreeItemIndex | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEmptyState, setShowEmptyState] = useState(false);
-  const treeRef = useRef<TreeRef>(null);
+  const [pendingDelete, setPendingDelete] = useState<TreeItemIndex | null>(null);
+  // A template waiting for confirmation to replace the draft season's groups
+  const [pendingTemplate, setPendingTemplate] = useState<SeasonTemplate | null>(null);
+  const [trash, setTrash] = useState<TrashEntry[]>(() => (savesLocally ? loadTrash() : []));
+  // The side panel that is open, if any; opening one closes the others
+  const [sidePanel, setSidePanel] = useState<SidePanel | null>(null);
+  const [templates, setTemplates] = useState<SeasonTemplate[]>(loadTemplates);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [dropHint, setDropHint] = useState<string | null>(null);
+  const currentTreeRef = useRef<TreeRef>(null);
+  const draftTreeRef = useRef<TreeRef>(null);
+  // The tree of each season pane, keyed by tree id
+  const treeRefs = useMemo<Record<string, RefObject<TreeRef>>>(() => ({
+    [CURRENT_SEASON.treeId]: currentTreeRef,
+    [DRAFT_SEASON.treeId]: draftTreeRef
+  }), []);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  // The last cut or copy, for when the system clipboard can't be read
+  const clipboardFallback = useRef<string | null>(null);
   
-  // Create a new data provider whenever items change
-  const dataProvider = new StaticTreeDataProvider(
-    items,
-    (item, newName) => ({
-      ...item,
-      data: {
-        ...item.data,
-        name: newName
-      }
-    })
-  );
+  const [itemStatus, setItemStatus] = useState<Record<TreeItemIndex, ItemStatus>>({});
+  
+  // Load the saved league once, falling back to the seed data. With a league
+  // service the items are fetched by the data provider instead.
+  const [initialLoad] = useState(() => published ?? (leagueApi ? { items: {}, warning: undefined } : loadLeague(leagueStructure)));
+  const [warning, setWarning] = useState<string | null>(initialLoad.warning ?? null);
+  // The league as it was when changes were last reviewed, which the change list compares against
+  const [baseline, setBaseline] = useState<LeagueItems>(initialLoad.items);
+  const [markChanges, setMarkChanges] = useState(true);
+  // What screen readers are told after a change, e.g. where a dropped team ended up
+  const { announcement, announce } = useAnnouncer();
+
+  // The role this browser acts in, which decides what may be changed where.
+  // Published leagues are only ever viewed.
+  const [grant, setGrant] = useState<Grant>(() => (published ? VIEWER_GRANT : loadGrant()));
+  const readOnly = grant.role === 'viewer';
+
+  // Who makes the changes made here, as shown to others and in the audit log
+  const [collabUser] = useState(() => (collabUrl ? loadCollabUser() : null));
+  const auditUser = collabUser?.name ?? 'You';
+
+  // Every change to the league, kept across sessions
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>(loadAuditLog);
+  // Only the history of this item is shown when set
+  const [auditItem, setAuditItem] = useState<{ itemId: TreeItemIndex; name: string } | null>(null);
+  const recordAudit: CommitListener = (label, before, after, action) => {
+    const entries = auditEntries(before, after, { action: label, user: auditUser }, action);
+    setAuditLog(log => appendEntries(log, entries));
+  };
+
+  useEffect(() => {
+    try {
+      saveAuditLog(auditLog);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setWarning(`The audit log could not be saved (${reason}).`);
+    }
+  }, [auditLog]);
+  
+  // All mutations go through the history so they can be undone, and every step is audited
+  const { state, items, dispatch, patch, reset, undo, redo, undoLabels, redoLabels } = useTreeHistory(initialLoad.items, treeRefs, HISTORY_LIMIT, recordAudit);
   
-  // Handle converting an item to a folder when it receives a drop
-  const handleItemDrop = useCallback((_draggedItems: TreeItem<ItemData>[], target: DraggingPosition) => {
-    // Store the converted item info for effect to use
-    if (target.targetType === 'item') {
-      const targetItemId = target.targetItem;
+  // The tree that shows an item, found through the season it belongs to
+  const treeOf = useCallback((inState: LeagueState, itemId: TreeItemIndex) =>
+    treeRefs[paneOf(inState, itemId).treeId].current,
+  [treeRefs]);
+  
+  // Others in the live session, and how the connection to the relay is doing
+  const [peers, setPeers] = useState<Presence[]>([]);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus | null>(null);
+
+  // One live session for the lifetime of the app, when collaboration is on
+  const [collab] = useState(() => (collabUrl && collabUser ? new CollabSession(collabUrl, collabUser, initialLoad.items, {
+    onRemoteChange: (view, op, before, after) => {
+      // The undo history gets the remote change too, so undoing a local step doesn't revert it
+      patch(() => view, snapshot => applyRequests(snapshot, op.requests));
+      setAuditLog(log => appendEntries(log, auditEntries(createLeagueState(before), createLeagueState(after), { action: 'Live edit', user: op.author })));
+    },
+    onReset: sharedItems => {
+      reset(sharedItems);
+      setBaseline(sharedItems);
+    },
+    onPresence: setPeers,
+    onStatus: setCollabStatus
+  }) : null));
+
+  useEffect(() => {
+    collab?.connect();
+    return () => collab?.close();
+  }, [collab]);
+
+  // Send every local change, including undo and redo, to the live session
+  useEffect(() => {
+    collab?.update(items);
+  }, [collab, items]);
+
+  // Let the others see which item is being renamed here
+  const reportRenaming = useCallback((itemId: TreeItemIndex | null) => {
+    collab?.setPresence({ renamingItem: itemId });
+  }, [collab]);
+
+  // Who else has each item selected or is renaming it
+  const peersByItem = useMemo(() => {
+    const byItem: Record<TreeItemIndex, Presence[]> = {};
+    peers.forEach(peer => {
+      const itemIds = new Set([...peer.selectedItems, ...(peer.renamingItem !== undefined ? [peer.renamingItem] : [])]);
+      itemIds.forEach(itemId => {
+        byItem[itemId] = [...(byItem[itemId] ?? []), peer];
+      });
+    });
+    return byItem;
+  }, [peers]);
+
+  // Save every change locally, unless the league service keeps it
+  useAutoSave(items, setWarning, SAVE_DELAY_MS, savesLocally);
+
+  useEffect(() => {
+    if (!savesLocally) return;
+    try {
+      saveTrash(trash);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setWarning(`The trash could not be saved (${reason}).`);
+    }
+  }, [trash]);
+  
+  // One provider for the lifetime of the tree. Renames and drops made in the
+  // tree are passed to the store, and store changes flow back through setItems
+  // (and on to the league service when there is one).
+  const [dataProvider] = useState(() => new LeagueDataProvider(initialLoad.items, {
+    onRenameItem: (item, name) => {
+      dispatch(`Rename '${item.data.name}' to '${name}'`, { type: 'rename', itemId: item.index, name });
+    },
+    onChangeChildren: (changes, previousItems) => {
+      const parentIds = Object.keys(changes);
+      const movedItems = parentIds
+        .flatMap(parentId => changes[parentId].filter(id => !previousItems[parentId]?.children?.includes(id)))
+        .map(id => previousItems[id])
+        .filter(Boolean);
+      const label = movedItems.length === 0
+        ? `Reorder '${previousItems[parentIds[0]]?.data.name ?? 'items'}'`
+        : movedItems.length === 1
+          ? `Move '${movedItems[0].data.name}'`
+          : `Move ${movedItems.length} items`;
       
-      setItems(prevItems => {
-        const newItems = { ...prevItems };
-        
-        // If the drop target is an item (not between items)
-        const targetItem = newItems[targetItemId];
-        
-        // Check if this item needs to be converted to a folder
-        const needsConversion = targetItem && !targetItem.children;
-        
-        // Initialize children array if it doesn't exist
-        if (targetItem && !targetItem.children) {
-          targetItem.children = [];
-        }
-        
-        // Ensure the isFolder property is set for library compatibility
-        if (targetItem && !targetItem.isFolder) {
-          targetItem.isFolder = true;
-        }
-        
-        // If we converted a non-folder to a folder, set a flag to trigger update
-        if (needsConversion) {
-          // Use the next microtask to trigger updates after state changes
-          Promise.resolve().then(() => {
-            // Force the tree to update specifically for this item
-            if (dataProvider.onDidChangeTreeDataEmitter) {
-              dataProvider.onDidChangeTreeDataEmitter.emit([targetItemId]);
-            }
-            
-            // Expand the newly converted folder
-            if (treeRef.current) {
-              treeRef.current.expandItem(targetItemId);
-            }
+      dispatch(label, { type: 'setChildren', children: changes });
+      announce(describeDrop(changes, previousItems));
+      
+      // Expand items that were just turned into folders once the tree has their children
+      const newFolders = parentIds.filter(parentId =>
+        !previousItems[parentId]?.children?.length && changes[parentId].length > 0
+      );
+      if (newFolders.length > 0) {
+        const previousState = createLeagueState(previousItems);
+        Promise.resolve().then(() => {
+          requestAnimationFrame(() => {
+            newFolders.forEach(parentId => treeOf(previousState, parentId)?.expandItem(parentId));
           });
-        }
-        
-        return newItems;
-      });
+        });
+      }
+    },
+    onItemsLoaded: loaded => {
+      patch(current => mergeLoadedItems(current, loaded), true);
+      // Items fetched from the service were already there, so they aren't changes
+      setBaseline(current => ({ ...loaded, ...current }));
+    },
+    onSyncFailed: (before, after, message) => {
+      patch(current => revertChanges(current, before, after));
+      setWarning(`The league service rejected a change and it was rolled back (${message}).`);
+    },
+    onReloaded: (serviceItems, message) => {
+      // Undoing past this point would replay changes against a league the service no longer has
+      reset(serviceItems);
+      setBaseline(serviceItems);
+      setWarning(`The league service rejected part of a change (${message}), so the league was reloaded from it.`);
+    }
+  }, leagueApi));
+  
+  // Show loading and error states from the league service in the tree
+  useEffect(() => {
+    const subscription = dataProvider.onDidChangeStatus(setItemStatus);
+    if (leagueApi) {
+      // Failures show up in the status, which offers a retry
+      dataProvider.loadRoot().catch(() => undefined);
     }
-  }, [dataProvider, treeRef]);
+    return () => subscription.dispose();
+  }, [dataProvider]);
+  
+  // Tell the tree about the items that changed in the store
+  useEffect(() => {
+    dataProvider.setItems(items);
+  }, [items, dataProvider]);
+
+  // Copies, deletes and exports need everything below an item, which the
+  // league service only sends as folders are opened. They are refused until
+  // it has all arrived, and the missing items are fetched so trying again works.
+  const refuseUnloaded = useCallback((itemId: TreeItemIndex) => {
+    if (!leagueApi || unloadedChildren(items, itemId).length === 0) return false;
+    setWarning(`Not everything under '${items[itemId]?.data.name}' has been loaded from the league service yet. It's loading now, so try again in a moment.`);
+    dataProvider.loadSubtree(itemId).catch(() => undefined);
+    return true;
+  }, [items, dataProvider]);
+
+  // Why the current role may not do something to an item, or null when it may
+  const permissionFor = (permission: Permission, itemId: TreeItemIndex) =>
+    explainPermission(state, grant, permission, itemId);
+
+  // Show why an action was refused; true when it was
+  const refuse = (explanation: string | null) => {
+    if (explanation) setWarning(explanation);
+    return explanation !== null;
+  };
+
+  // Only admins look after the league as a whole, e.g. the draft season
+  const adminOnly = (what: string) => (grant.role === 'admin' ? null : `Only an Admin can ${what}.`);
+
+  const handleGrantChange = (next: Grant) => {
+    setGrant(next);
+    saveGrant(next);
+  };
+
+  // Explain why the items being dragged can't be dropped into the hovered item
+  const handleDragEnterItem = (itemId: TreeItemIndex) => {
+    // Dragging is shared by all trees in the environment, so either pane can tell
+    const draggingItems = currentTreeRef.current?.dragAndDropContext.draggingItems;
+    if (!draggingItems) return;
+    
+    setDropHint(explainDrop(state, draggingItems, itemId) ?? explainMove(state, grant, draggingItems.map(item => item.index), itemId));
+  };
+
+  // Clear the drop explanation once dragging ends
+  useEffect(() => {
+    const clearDropHint = () => setDropHint(null);
+    
+    document.addEventListener('dragend', clearDropHint);
+    document.addEventListener('drop', clearDropHint);
+    return () => {
+      document.removeEventListener('dragend', clearDropHint);
+      document.removeEventListener('drop', clearDropHint);
+    };
+  }, []);
 
   // Check if tree is empty - no children under root
   const isTreeEmpty = useCallback(() => {
@@ -118,208 +415,133 @@ function App() {
     return !rootItem || !rootItem.children || rootItem.children.length === 0;
   }, [items, showEmptyState]);
 
-  // Function to check if any child items match the search term (recursively)
-  const hasMatchingChildren = useCallback((itemId: TreeItemIndex, term: string): boolean => {
-    if (!term) return false;
-    
-    const item = items[String(itemId)];
-    if (!item || !item.children || item.children.length === 0) return false;
-    
-    // Check each child
-    return item.children.some(childId => {
-      const childItem = items[String(childId)];
-      if (!childItem) return false;
-      
-      // Check if this child matches
-      const childMatches = childItem.data?.name.toLowerCase().includes(term.toLowerCase());
-      
-      // Or if any of its descendants match (recursive)
-      const descendantsMatch = hasMatchingChildren(childId, term);
-      
-      return childMatches || descendantsMatch;
-    });
-  }, [items]);
+  // What changed since the last review, for the change list and the tree markers.
+  // Comparing walks the whole league, so it only runs while the change list is open.
+  const showChanges = sidePanel === 'changes';
+  const diff = useMemo(() => (showChanges ? diffLeagues(baseline, items) : null), [showChanges, baseline, items]);
+  // The changes marked next to the items in the tree, if any
+  const markedDiff = markChanges ? diff : null;
 
-  // Update data provider when items change
+  // Each season pane has its own search
+  const currentSearch = useTreeSearch(state, currentTreeRef, CURRENT_SEASON, announce);
+  const draftSearch = useTreeSearch(state, draftTreeRef, DRAFT_SEASON, announce);
+  const searches: Record<string, TreeSearch> = {
+    [CURRENT_SEASON.treeId]: currentSearch,
+    [DRAFT_SEASON.treeId]: draftSearch
+  };
+  const panes = splitView ? SEASON_PANES : [CURRENT_SEASON];
+  const isFiltering = panes.some(pane => searches[pane.treeId].isFiltering);
+
+  // Searches only see loaded items, so searching fetches the rest of the league
+  const searching = Boolean(currentSearch.searchQuery || draftSearch.searchQuery);
   useEffect(() => {
-    // Notify data provider that items have changed
-    if (dataProvider.onDidChangeTreeDataEmitter) {
-      dataProvider.onDidChangeTreeDataEmitter.emit(Object.keys(items));
-    }
-  }, [items, dataProvider]);
+    if (leagueApi && searching) dataProvider.loadSubtree('root').catch(() => undefined);
+  }, [dataProvider, searching]);
 
-  // Handle rename item - update the state with the new name
-  const handleRenameItem = (item: LeagueItem, newName: string) => {
-    setItems(prevItems => {
-      const newItems = { ...prevItems };
-      if (newItems[item.index]) {
-        newItems[item.index] = {
-          ...newItems[item.index],
-          data: {
-            ...newItems[item.index].data,
-            name: newName
-          }
-        };
-      }
-      return newItems;
+  // Large leagues only render the rows near the viewport of each pane
+  const virtualized = Object.keys(items).length > VIRTUALIZE_THRESHOLD;
+  const currentRows = useVirtualRows(currentTreeRef, CURRENT_SEASON.treeId, virtualized);
+  const draftRows = useVirtualRows(draftTreeRef, DRAFT_SEASON.treeId, virtualized && splitView);
+  const virtualRows: Record<string, VirtualRows> = {
+    [CURRENT_SEASON.treeId]: currentRows,
+    [DRAFT_SEASON.treeId]: draftRows
+  };
+
+  // Filtering one pane only hides items of that season; the other pane's
+  // items all stay visible
+  const visibleItems = useMemo(() => {
+    const paneVisibility: [SeasonPane, Set<TreeItemIndex> | null][] = [
+      [CURRENT_SEASON, currentSearch.visibleItems],
+      [DRAFT_SEASON, draftSearch.visibleItems]
+    ];
+    if (paneVisibility.every(([, visible]) => !visible)) return null;
+
+    const visible = new Set<TreeItemIndex>();
+    paneVisibility.forEach(([pane, paneVisible]) => {
+      (paneVisible ? [...paneVisible] : collectSubtree(state.items, pane.rootId)).forEach(id => visible.add(id));
     });
+    return visible;
+  }, [state, currentSearch.visibleItems, draftSearch.visibleItems]);
+  useEffect(() => {
+    dataProvider.setVisibleItems(visibleItems);
+  }, [dataProvider, visibleItems]);
+
+  // Handle rename item - the tree hands the new name to the data provider
+  const handleRenameItem = (item: LeagueItem, newName: string) => {
+    if (refuse(permissionFor('rename', item.index))) return;
+    treeOf(state, item.index)?.renameItem(item.index, newName);
   };
 
   // Handle updating both name and type
-  const handleEditItem = (itemId: TreeItemIndex, name: string, type: ItemData['type']) => {
-    setItems(prevItems => {
-      const newItems = { ...prevItems };
-      if (newItems[itemId]) {
-        newItems[itemId] = {
-          ...newItems[itemId],
-          data: {
-            ...newItems[itemId].data,
-            name,
-            type
-          }
-        };
-      }
-      return newItems;
-    });
+  const handleEditItem = (itemId: TreeItemIndex, name: string, type: ItemData['type'], fields: ItemFields) => {
+    if (refuse(permissionFor('edit', itemId))) return;
+    dispatch(`Edit '${items[itemId]?.data.name ?? name}'`, { type: 'edit', itemId, name, itemType: type, fields });
     setEditItem(null);
   };
 
+  // Show the draft season next to the current one, creating it the first time
+  const toggleSplitView = () => {
+    if (!splitView && !items[DRAFT_SEASON.rootId]) {
+      if (refuse(adminOnly('start the draft season'))) return;
+      dispatch('Start draft season', { type: 'load', items: { ...items, [DRAFT_SEASON.rootId]: createDraftRoot() } });
+    }
+    setSplitView(!splitView);
+  };
+
   // Toggle empty state for testing
   const toggleEmptyState = () => {
     setShowEmptyState(!showEmptyState);
   };
 
   // Handle creating a new top-level group
-  const handleCreateTopLevelGroup = (name: string, type: ItemData['type']) => {
+  const handleCreateTopLevelGroup = (name: string, type: ItemData['type'], fields: ItemFields) => {
+    if (refuse(permissionFor('add', 'root'))) return;
     const newId = `group-${Date.now()}`;
     
-    setItems(prevItems => {
-      const newItems = { ...prevItems };
-      
-      // Create new group
-      newItems[newId] = {
+    dispatch(`Create '${name}'`, {
+      type: 'insert',
+      parentId: 'root',
+      item: {
         index: newId,
         isFolder: true,
         children: [],
         data: {
           name,
-          type
+          type,
+          fields
         },
         canMove: true,
         canRename: true
-      };
-      
-      // Add to root item's children
-      const rootItem = newItems['root'];
-      if (rootItem) {
-        rootItem.children = [...(rootItem.children || []), newId];
       }
-      
-      return newItems;
     });
     
     setShowCreateModal(false);
     setShowEmptyState(false); // Turn off empty state after creating a group
   };
 
-  // Handle search input change
-  const handleSearch = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setSearchTerm(value);
-    
-    if (treeRef.current) {
-      if (value) {
-        // Get all folder items
-        const folderItems = Object.keys(items).filter(id => 
-          items[id].children && items[id].children!.length > 0
-        );
-        
-        // Find folders that have matching children
-        const foldersWithMatches = folderItems.filter(id => 
-          hasMatchingChildren(id, value)
-        );
-        
-        // Automatically expand these folders to reveal matches
-        foldersWithMatches.forEach(id => {
-          treeRef.current?.expandItem(id);
-        });
-
-        // Find the first direct match
-        const directMatches = Object.keys(items).filter(id => 
-          items[id].data.name.toLowerCase().includes(value.toLowerCase())
-        );
-        
-        // Find the first child match in an expanded folder
-        let firstChildMatch: string | null = null;
-        for (const folderId of foldersWithMatches) {
-          const folder = items[folderId];
-          if (folder.children) {
-            for (const childId of folder.children) {
-              const child = items[String(childId)];
-              if (child && child.data.name.toLowerCase().includes(value.toLowerCase())) {
-                firstChildMatch = String(childId);
-                break;
-              }
-            }
-            if (firstChildMatch) break;
-          }
-        }
-        
-        // Use requestAnimationFrame instead of setTimeout for better sequencing
-        requestAnimationFrame(() => {
-          // First try direct matches, then child matches
-          const firstMatchId = directMatches.length > 0 ? directMatches[0] : 
-                              firstChildMatch ? firstChildMatch : null;
-          
-          if (firstMatchId) {
-            // Find the element to scroll to
-            const element = document.querySelector(`[data-rct-item-id="${firstMatchId}"]`);
-            if (element) {
-              element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-            }
-          }
-        });
-      } else {
-        // When search is cleared, restore the default expanded state
-        const defaultExpanded = ['root', 'monday', 'wednesday', 'friday'];
-        
-        // Collapse all items except for default expanded ones
-        Object.keys(items).forEach(id => {
-          if (!defaultExpanded.includes(id)) {
-            treeRef.current?.collapseItem(id);
-          }
-        });
-      }
+  // Download the league as nested JSON or as a flat CSV
+  const handleExport = (format: 'json' | 'csv') => {
+    if (refuseUnloaded('root')) return;
+    if (format === 'json') {
+      downloadFile('league-structure.json', exportJson(items), 'application/json');
+    } else {
+      downloadFile('league-structure.csv', exportCsv(items), 'text/csv');
     }
-  }, [items, hasMatchingChildren]);
+  };
 
-  // Clear search
-  const clearSearch = useCallback(() => {
-    setSearchTerm('');
-    
-    // Collapse all items to default state
-    if (treeRef.current) {
-      const defaultExpanded = ['root', 'monday', 'wednesday', 'friday'];
-      
-      Object.keys(items).forEach(id => {
-        if (!defaultExpanded.includes(id)) {
-          treeRef.current?.collapseItem(id);
-        } else {
-          treeRef.current?.expandItem(id);
-        }
-      });
-      
-      // Scroll back to the top of the tree
-      const treeElement = document.querySelector('.rct-tree-root');
-      if (treeElement) {
-        treeElement.scrollTop = 0;
-      }
-    }
-  }, [items]);
+  // Merge the imported hierarchy into the tree, or replace it entirely
+  const handleImport = (nodes: NestedNode[], mode: ImportMode, source: string) => {
+    if (refuse(adminOnly('import a league'))) return;
+    dispatch(`Import '${source}' (${mode})`, { type: 'load', items: applyImport(items, nodes, mode) });
+    setShowImportModal(false);
+    setShowEmptyState(false);
+  };
 
   // Focus search input on keyboard shortcut (/)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
       if (e.key === '/' && searchInputRef.current) {
         // Prevent the default behavior (typing "/" in the input)
         e.preventDefault();
@@ -334,6 +556,147 @@ function App() {
     };
   }, []);
 
+  // Undo (Ctrl+Z) and redo (Ctrl+Shift+Z or Ctrl+Y)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || readOnly) return;
+      
+      // Leave text fields to their native undo behavior
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [undo, redo, readOnly]);
+
+  // Open the command palette (Ctrl+K) on the tree that has focus, or the
+  // current season's tree when none does
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'k') return;
+      e.preventDefault();
+      const treeId = document.activeElement?.closest('[data-rct-tree]')?.getAttribute('data-rct-tree');
+      setPaletteTreeId(current => (current ? null : treeId ?? CURRENT_SEASON.treeId));
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  // Put an item's subtree on the clipboard, taking it out of the tree for a
+  // cut. Returns the clipboard text, which is also kept for when the system
+  // clipboard can't be read.
+  const copyToClipboard = useCallback((itemId: TreeItemIndex, cut: boolean): string | null => {
+    const item = items[itemId];
+    if (!item || itemId === 'root') return null;
+
+    // Cutting takes the item out of the tree, so it needs the right to delete it
+    const denied = cut ? explainPermission(state, grant, 'delete', itemId) : null;
+    if (denied) {
+      setWarning(denied);
+      return null;
+    }
+    if (refuseUnloaded(itemId)) return null;
+
+    const text = serializeClipboard(items, [itemId]);
+    clipboardFallback.current = text;
+    if (cut) {
+      dispatch(`Cut '${item.data.name}'`, { type: 'deleteSubtree', itemId });
+    }
+    return text;
+  }, [items, state, grant, dispatch, refuseUnloaded]);
+
+  // Paste copied subtrees onto an item, under new ids
+  const pasteFromClipboard = useCallback((text: string | null, targetId: TreeItemIndex) => {
+    const nodes = text ? parseClipboard(text) : null;
+    if (!nodes) {
+      setWarning("There's nothing to paste: the clipboard doesn't hold any copied groups.");
+      return;
+    }
+
+    const { rootIds, items: pasted } = buildPastedItems(nodes);
+    const placement = placePaste(state, targetId, rootIds.map(id => pasted[id]));
+    if (placement.error !== undefined) {
+      setWarning(`Can't paste here. ${placement.error}`);
+      return;
+    }
+    const denied = explainPermission(state, grant, 'add', placement.parentId);
+    if (denied) {
+      setWarning(`Can't paste here. ${denied}`);
+      return;
+    }
+
+    dispatch(rootIds.length === 1 ? `Paste '${pasted[rootIds[0]].data.name}'` : `Paste ${rootIds.length} items`, {
+      type: 'insertSubtrees',
+      rootIds,
+      items: pasted,
+      parentId: placement.parentId,
+      position: placement.position
+    });
+
+    // Reveal the pasted items once the tree has them
+    const tree = treeOf(state, placement.parentId);
+    Promise.resolve().then(() => {
+      requestAnimationFrame(() => {
+        tree?.expandItem(placement.parentId);
+        tree?.focusItem(rootIds[0], false);
+      });
+    });
+  }, [state, grant, dispatch, treeOf]);
+
+  // Cut (Ctrl+X), copy (Ctrl+C) and paste (Ctrl+V) act on the focused item
+  // while the tree has focus, through the system clipboard
+  useEffect(() => {
+    const focusedTreeItem = () => {
+      const active = document.activeElement as HTMLElement | null;
+      const treeId = active?.closest('[data-rct-tree]')?.getAttribute('data-rct-tree');
+      if (!treeId || active?.tagName === 'INPUT') return undefined;
+      return treeRefs[treeId]?.current?.treeEnvironmentContext.viewState[treeId]?.focusedItem;
+    };
+
+    const handleCopyEvent = (e: ClipboardEvent) => {
+      const itemId = focusedTreeItem();
+      if (itemId === undefined) return;
+
+      const text = copyToClipboard(itemId, e.type === 'cut');
+      if (text && e.clipboardData) {
+        e.preventDefault();
+        e.clipboardData.setData('text/plain', text);
+      }
+    };
+
+    const handlePasteEvent = (e: ClipboardEvent) => {
+      const itemId = focusedTreeItem();
+      if (itemId === undefined) return;
+
+      e.preventDefault();
+      pasteFromClipboard(e.clipboardData?.getData('text/plain') || clipboardFallback.current, itemId);
+    };
+
+    document.addEventListener('copy', handleCopyEvent);
+    document.addEventListener('cut', handleCopyEvent);
+    document.addEventListener('paste', handlePasteEvent);
+    return () => {
+      document.removeEventListener('copy', handleCopyEvent);
+      document.removeEventListener('cut', handleCopyEvent);
+      document.removeEventListener('paste', handlePasteEvent);
+    };
+  }, [copyToClipboard, pasteFromClipboard, treeRefs]);
+
   const handleContextMenu = (e: React.MouseEvent, itemId: TreeItemIndex) => {
     e.preventDefault();
     e.stopPropagation();
@@ -346,218 +709,467 @@ function App() {
 
   const closeContextMenu = () => setContextMenu(null);
 
+  // Open a side panel from the toolbar, or close it when it is already open
+  const togglePanel = (e: React.MouseEvent, panel: SidePanel) => {
+    e.stopPropagation();
+    setSidePanel(sidePanel === panel ? null : panel);
+  };
+
+  // Show the audit history of one item
+  const handleShowHistory = (itemId: TreeItemIndex) => {
+    closeContextMenu();
+    setAuditItem({ itemId, name: items[itemId]?.data.name ?? String(itemId) });
+    setSidePanel('audit');
+  };
+
   const handleRename = (itemId: TreeItemIndex) => {
     closeContextMenu();
+    if (refuse(permissionFor('rename', itemId))) return;
     
     // Use requestAnimationFrame for UI-related timing instead of arbitrary setTimeout
+    const tree = treeOf(state, itemId);
     requestAnimationFrame(() => {
-      if (treeRef.current) {
-        treeRef.current.startRenamingItem(itemId);
+      if (tree) {
+        tree.startRenamingItem(itemId);
       }
     });
   };
 
   const handleEdit = (itemId: TreeItemIndex) => {
     closeContextMenu();
+    if (refuse(permissionFor('edit', itemId))) return;
     setEditItem(itemId);
   };
 
+  // Why nothing can be added to an item right now, or null when it can
+  const explainAddSubGroup = (itemId: TreeItemIndex) => {
+    const denied = permissionFor('add', itemId);
+    if (denied) return denied;
+    const childType = defaultChildType(parentKindOf(items, itemId));
+    if (!childType) return `${items[itemId]?.data.type}s can't contain other items.`;
+    return childType === 'Player' ? explainAddPlayer(state, itemId) : null;
+  };
+
   const handleAddSubGroup = (parentId: TreeItemIndex) => {
+    if (refuse(permissionFor('add', parentId))) return;
+    // The new child gets the next level down, e.g. a Division under a Conference
+    const childType = defaultChildType(parentKindOf(items, parentId));
+    if (!childType) return;
+    // Players only go on Teams that still have room on their roster
+    if (childType === 'Player' && explainAddPlayer(state, parentId)) return;
+    
     const newId = `${String(parentId)}-subgroup-${Date.now()}`;
+    const canHaveChildren = allowedChildTypes(childType).length > 0;
     
-    setItems(prevItems => {
-      const newItems = { ...prevItems };
-      
-      // Create new group
-      newItems[newId] = {
+    // Add the new group as the first child instead of at the end
+    dispatch(`Add ${childType} to '${items[String(parentId)]?.data.name}'`, {
+      type: 'insert',
+      parentId,
+      position: 0,
+      item: {
         index: newId,
-        isFolder: true,
-        children: [],
+        isFolder: canHaveChildren,
+        ...(canHaveChildren ? { children: [] } : {}),
         data: {
-          name: 'New Group',
-          type: 'Division'
+          name: `New ${childType}`,
+          type: childType
         },
         canMove: true,
         canRename: true
-      };
-      
-      // Ensure parent has children array and is marked as a folder
-      const parentItem = newItems[String(parentId)];
-      if (parentItem) {
-        // Make sure parent is marked as a folder
-        parentItem.isFolder = true;
-        
-        // Initialize children array if it doesn't exist
-        if (!parentItem.children) {
-          parentItem.children = [];
-        }
-        // Add new group as the first child instead of at the end
-        parentItem.children = [newId, ...(parentItem.children || [])];
       }
-      
-      return newItems;
     });
     
     closeContextMenu();
 
     // Use a promise chain for sequential operations after state updates
+    const tree = treeOf(state, parentId);
     Promise.resolve().then(() => {
       // First, ensure the parent is expanded
-      if (treeRef.current) {
-        treeRef.current.expandItem(String(parentId));
-        
-        // Force a refresh of the tree with the new item
-        if (dataProvider.onDidChangeTreeDataEmitter) {
-          dataProvider.onDidChangeTreeDataEmitter.emit([String(parentId), newId]);
-        }
+      if (tree) {
+        tree.expandItem(String(parentId));
         
         // Use requestAnimationFrame to ensure expansion has had time to render
         requestAnimationFrame(() => {
-          if (treeRef.current) {
-            treeRef.current.startRenamingItem(newId);
-          }
+          tree.startRenamingItem(newId);
         });
       }
     });
   };
 
+  // Ask for confirmation before deleting, since the whole subtree goes with the item
   const handleDelete = (itemId: TreeItemIndex) => {
-    setItems(prevItems => {
-      const newItems = { ...prevItems };
-      const parentId = Object.keys(newItems).find(key => 
-        newItems[key].children?.includes(String(itemId))
-      );
+    closeContextMenu();
+    if (refuse(permissionFor('delete', itemId)) || refuseUnloaded(itemId)) return;
+    setPendingDelete(itemId);
+  };
 
-      if (parentId) {
-        const parentItem = newItems[parentId];
-        if (parentItem.children) {
-          parentItem.children = parentItem.children.filter(id => id !== String(itemId));
-        }
-        delete newItems[String(itemId)];
-      }
+  // Remove the item with all of its descendants and move them to the trash
+  const confirmDelete = (itemId: TreeItemIndex) => {
+    const entry = createTrashEntry(state, itemId);
+    if (entry) {
+      announce(describeDelete(items, itemId));
+      dispatch(`Delete '${items[itemId].data.name}'`, { type: 'deleteSubtree', itemId });
+      setTrash(prevTrash => [entry, ...prevTrash]);
+    }
+    setPendingDelete(null);
+  };
+
+  // Put a trashed subtree back at its original parent and position
+  const handleRestore = (entry: TrashEntry) => {
+    const plan = restoreAction(state, entry);
+    if (plan && 'error' in plan) {
+      refuse(plan.error);
+      return;
+    }
+    const action = plan?.action;
+    if (action && refuse(permissionFor('add', action.parentId))) return;
+    if (action) {
+      dispatch(`Restore '${entry.items[entry.rootId].data.name}'`, action);
       
-      return newItems;
+      Promise.resolve().then(() => {
+        requestAnimationFrame(() => {
+          treeOf(state, action.parentId)?.expandItem(action.parentId);
+        });
+      });
+    }
+    setTrash(prevTrash => prevTrash.filter(e => e !== entry));
+  };
+
+  // Permanently drop a trashed subtree
+  const handlePurge = (entry: TrashEntry) => {
+    setTrash(prevTrash => prevTrash.filter(e => e !== entry));
+  };
+
+  // Keep the saved templates in storage as well as in state
+  const updateTemplates = (next: SeasonTemplate[]) => {
+    setTemplates(next);
+    try {
+      saveTemplates(next);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setWarning(`Templates could not be saved (${reason}).`);
+    }
+  };
+
+  const handleSaveTemplate = (name: string, seasonRootId: TreeItemIndex, teams: TeamHandling) => {
+    updateTemplates([...templates, createTemplate(items, seasonRootId, name, teams)]);
+  };
+
+  const handleDeleteTemplate = (template: SeasonTemplate) => {
+    updateTemplates(templates.filter(t => t.id !== template.id));
+  };
+
+  // Start the draft season from a template, asking first when it already has groups
+  const handleNewSeasonFromTemplate = (template: SeasonTemplate) => {
+    if (refuse(adminOnly('start a new season'))) return;
+    if (items[DRAFT_SEASON.rootId]?.children?.length) {
+      setPendingTemplate(template);
+      return;
+    }
+    applySeasonTemplate(template);
+  };
+
+  // Fill the draft season from a template and show it next to the current one
+  const applySeasonTemplate = (template: SeasonTemplate) => {
+    setPendingTemplate(null);
+    const base = items[DRAFT_SEASON.rootId] ? items : { ...items, [DRAFT_SEASON.rootId]: createDraftRoot() };
+    const nextItems = applyTemplate(base, template, DRAFT_SEASON.rootId);
+    dispatch(`New season from '${template.name}'`, { type: 'load', items: nextItems });
+    setSplitView(true);
+
+    // Open the new Conferences so their Divisions are in view
+    Promise.resolve().then(() => {
+      requestAnimationFrame(() => {
+        (nextItems[DRAFT_SEASON.rootId].children ?? []).forEach(id => draftTreeRef.current?.expandItem(id));
+      });
     });
-    
+  };
+
+  const handleCopy = (itemId: TreeItemIndex, cut = false) => {
     closeContextMenu();
+    const text = copyToClipboard(itemId, cut);
+    if (text) {
+      // The copy is kept in memory as well, so a failed write is not fatal
+      navigator.clipboard?.writeText(text).catch(() => undefined);
+    }
+  };
+
+  const handlePaste = (itemId: TreeItemIndex) => {
+    closeContextMenu();
+    // Prefer the system clipboard (copies from other tabs) and fall back to
+    // the last copy made here when it can't be read or holds something else
+    const read = navigator.clipboard?.readText ? navigator.clipboard.readText() : Promise.reject();
+    read
+      .then(
+        text => (parseClipboard(text) ? text : clipboardFallback.current),
+        () => clipboardFallback.current
+      )
+      .then(text => pasteFromClipboard(text, itemId));
+  };
+
+  // Why an item can't be duplicated right now, or null when it can. The copy
+  // goes next to the original, so it needs the right to add there and has to
+  // fit the roster limits like a paste or drop would.
+  const explainDuplicate = (itemId: TreeItemIndex) => {
+    const parentId = state.parents[itemId];
+    return (parentId === undefined ? null : permissionFor('add', parentId)) ?? explainCopyRoster(state, itemId);
   };
 
   const handleDuplicate = (itemId: TreeItemIndex) => {
     const newId = `${String(itemId)}-copy-${Date.now()}`;
+    const parentId = state.parents[itemId];
+    if (refuse(explainDuplicate(itemId)) || refuseUnloaded(itemId)) {
+      closeContextMenu();
+      return;
+    }
     
-    setItems(prevItems => {
-      const newItems = { ...prevItems };
-      const originalItem = prevItems[String(itemId)];
-      const parentId = Object.keys(newItems).find(key => 
-        newItems[key].children?.includes(String(itemId))
-      );
-
-      if (parentId && originalItem) {
-        // Deep copy of the item including all nested children
-        newItems[newId] = deepCopyItem(originalItem, newId, newItems);
-
-        // Insert the duplicate directly after the original in parent's children array
-        const parentItem = newItems[parentId];
-        if (parentItem.children) {
-          const originalIndex = parentItem.children.indexOf(String(itemId));
-          const newChildren = [...parentItem.children];
-          newChildren.splice(originalIndex + 1, 0, newId);
-          parentItem.children = newChildren;
-        }
-      }
-      
-      return newItems;
-    });
+    // Deep copy of the item including all nested children, placed directly after the original
+    dispatch(`Duplicate '${items[itemId]?.data.name}'`, { type: 'duplicate', itemId, newId });
+    announce(describeDuplicate(items, itemId));
     
     closeContextMenu();
 
     // Use a promise chain for sequential operations after state updates
+    const tree = treeOf(state, itemId);
     Promise.resolve().then(() => {
-      const parentId = Object.keys(items).find(key => 
-        items[key].children?.includes(String(itemId))
-      );
-      
-      if (parentId && treeRef.current) {
-        treeRef.current.expandItem(parentId);
-        
-        // Ensure data provider knows about the update
-        if (dataProvider.onDidChangeTreeDataEmitter) {
-          dataProvider.onDidChangeTreeDataEmitter.emit([parentId, newId]);
-        }
+      if (parentId !== undefined && tree) {
+        tree.expandItem(parentId);
         
         // Use requestAnimationFrame to ensure expansion has had time to render
         requestAnimationFrame(() => {
-          if (treeRef.current) {
-            treeRef.current.startRenamingItem(newId);
+          tree.startRenamingItem(newId);
+        });
+      }
+    });
+  };
+
+  // Expand the path to an item, then select and focus it, showing the draft
+  // season first when the item is in it
+  const goToItem = useCallback((itemId: TreeItemIndex) => {
+    const { treeId } = paneOf(state, itemId);
+    if (treeId !== CURRENT_SEASON.treeId) setSplitView(true);
+
+    Promise.resolve().then(() => {
+      requestAnimationFrame(() => {
+        const tree = treeRefs[treeId].current;
+        if (!tree) return;
+        let parentId = state.parents[itemId];
+        while (parentId !== undefined) {
+          tree.expandItem(parentId);
+          parentId = state.parents[parentId];
+        }
+        requestAnimationFrame(() => {
+          tree.selectItems([itemId]);
+          tree.focusItem(itemId);
+        });
+      });
+    });
+  }, [state, treeRefs]);
+
+  // Every action the command palette offers. Item actions work on the item
+  // focused in `treeId` and are offered, or disabled, like in the context menu.
+  const paletteCommands = (treeId: string): PaletteCommand[] => {
+    const tree = treeRefs[treeId]?.current;
+    const focusedId = tree?.treeEnvironmentContext.viewState[treeId]?.focusedItem;
+    const focused = focusedId !== undefined && !isSeasonRoot(focusedId) ? items[focusedId] : undefined;
+    const commands: PaletteCommand[] = [];
+
+    if (focused) {
+      const itemId = focused.index;
+      const hint = focused.data.name;
+      const childType = defaultChildType(parentKindOf(items, itemId));
+      const deleteDenied = permissionFor('delete', itemId);
+
+      if (!readOnly) {
+        commands.push(
+          {
+            id: 'item-add',
+            label: childType ? `Add ${childType} to selected` : 'Add Sub-Group to selected',
+            hint,
+            shortcut: 'Insert',
+            disabled: explainAddSubGroup(itemId),
+            run: () => handleAddSubGroup(itemId)
+          },
+          {
+            id: 'item-edit',
+            label: 'Edit selected',
+            hint,
+            shortcut: 'Enter',
+            disabled: permissionFor('edit', itemId),
+            run: () => handleEdit(itemId)
+          },
+          {
+            id: 'item-rename',
+            label: 'Rename selected',
+            hint,
+            shortcut: 'F2',
+            disabled: permissionFor('rename', itemId),
+            run: () => handleRename(itemId)
+          },
+          {
+            id: 'item-duplicate',
+            label: 'Duplicate selected',
+            hint,
+            shortcut: 'Ctrl+D',
+            disabled: explainDuplicate(itemId),
+            run: () => handleDuplicate(itemId)
+          },
+          { id: 'item-cut', label: 'Cut selected', hint, shortcut: 'Ctrl+X', disabled: deleteDenied, run: () => handleCopy(itemId, true) }
+        );
+      }
+      commands.push({ id: 'item-copy', label: 'Copy selected', hint, shortcut: 'Ctrl+C', run: () => handleCopy(itemId) });
+      if (!readOnly) {
+        commands.push({ id: 'item-paste', label: 'Paste into selected', hint, shortcut: 'Ctrl+V', run: () => handlePaste(itemId) });
+      }
+      if (!published) {
+        commands.push({ id: 'item-history', label: 'Show history of selected', hint, run: () => handleShowHistory(itemId) });
+      }
+      if (!readOnly) {
+        commands.push({
+          id: 'item-delete',
+          label: 'Delete selected',
+          hint,
+          shortcut: 'Delete',
+          disabled: deleteDenied,
+          run: () => handleDelete(itemId)
+        });
+      }
+    }
+
+    commands.push(
+      { id: 'expand-all', label: 'Expand all', run: () => tree?.expandAll() },
+      { id: 'collapse-all', label: 'Collapse all', run: () => tree?.collapseAll() },
+      { id: 'search', label: 'Search the tree', shortcut: '/', run: () => searchInputRef.current?.focus() }
+    );
+    if (!readOnly) {
+      commands.push(
+        {
+          id: 'undo',
+          label: 'Undo',
+          hint: undoLabels[0],
+          shortcut: 'Ctrl+Z',
+          disabled: undoLabels.length === 0 ? 'Nothing to undo.' : null,
+          run: () => undo()
+        },
+        {
+          id: 'redo',
+          label: 'Redo',
+          hint: redoLabels[0],
+          shortcut: 'Ctrl+Shift+Z',
+          disabled: redoLabels.length === 0 ? 'Nothing to redo.' : null,
+          run: () => redo()
+        },
+        {
+          id: 'create-group',
+          label: 'Create top-level group',
+          disabled: permissionFor('add', 'root'),
+          run: () => setShowCreateModal(true)
+        },
+        { id: 'open-trash', label: 'Open Trash', run: () => setSidePanel('trash') }
+      );
+    }
+    commands.push({ id: 'open-schedule', label: 'Open Schedule', run: () => setSidePanel('schedule') });
+    if (!published) {
+      commands.push(
+        { id: 'open-templates', label: 'Open Templates', run: () => setSidePanel('templates') },
+        { id: 'open-changes', label: 'Open Changes', run: () => setSidePanel('changes') },
+        {
+          id: 'open-audit',
+          label: 'Open Audit Log',
+          run: () => {
+            setAuditItem(null);
+            setSidePanel('audit');
           }
-        });
-      }
-    });
+        },
+        { id: 'split-view', label: splitView ? 'Close split view' : 'Open split view', run: toggleSplitView }
+      );
+    }
+    if (grant.role === 'admin') {
+      commands.push({ id: 'import', label: 'Import', run: () => setShowImportModal(true) });
+    }
+    commands.push(
+      { id: 'export-json', label: 'Export JSON', run: () => handleExport('json') },
+      { id: 'export-csv', label: 'Export CSV', run: () => handleExport('csv') }
+    );
+    if (!published) {
+      commands.push({ id: 'publish', label: 'Publish', run: () => setSidePanel('publish') });
+    }
+    return commands;
   };
 
-  // Helper function to deep copy an item and all its children
-  const deepCopyItem = (item: LeagueItem, newId: string, allItems: Record<TreeItemIndex, LeagueItem>): LeagueItem => {
-    // Create a new copy with the specified ID
-    const newItem: LeagueItem = {
-      index: newId,
-      isFolder: item.isFolder,
-      data: {
-        name: `${item.data.name} (Copy)`,
-        type: item.data.type
-      },
-      canMove: true,
-      canRename: true
-    };
-    
-    // If the original item has children, copy them recursively
-    if (item.children && item.children.length > 0) {
-      newItem.children = [];
-      
-      // For each child of the original item
-      item.children.forEach(childId => {
-        const childItem = allItems[childId];
-        if (childItem) {
-          // Create a new ID for the child
-          const newChildId = `${newId}-${childId}-${Date.now() + Math.floor(Math.random() * 1000)}`;
-          
-          // Recursively copy the child and all its descendants
-          const newChildItem = deepCopyItem(childItem, newChildId, allItems);
-          
-          // Add the copied child to the new items collection
-          allItems[newChildId] = newChildItem;
-          
-          // Add the child reference to the parent's children array
-          newItem.children!.push(newChildId);
-        }
-      });
+  // Run a command picked in the palette and remember it for next time
+  const handleRunCommand = (command: PaletteCommand) => {
+    setPaletteTreeId(null);
+    if (refuse(command.disabled ?? null)) return;
+
+    const next = addRecentCommand(recentCommands, command.id);
+    setRecentCommands(next);
+    try {
+      saveRecentCommands(next);
+    } catch {
+      // Recent commands are a convenience, so losing them isn't worth a warning
+    }
+    command.run();
+  };
+
+  // The item actions of KEYBOARD_BINDINGS, on the tree item that has focus
+  const handleTreeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    const treeId = target.closest('[data-rct-tree]')?.getAttribute('data-rct-tree');
+    const tree = treeId ? treeRefs[treeId]?.current : null;
+    if (!treeId || !tree || !target.hasAttribute('data-rct-item-id')) return;
+    // Enter finishes a keyboard drag rather than editing
+    if (tree.dragAndDropContext.isProgrammaticallyDragging) return;
+
+    const itemId = tree.treeEnvironmentContext.viewState[treeId]?.focusedItem;
+    const action = itemActionFor(e);
+    // Viewers can only open the menu, which lists what they may do
+    if (itemId === undefined || !action || (readOnly && action !== 'openContextMenu')) return;
+
+    e.preventDefault();
+    switch (action) {
+      case 'editItem':
+        handleEdit(itemId);
+        break;
+      case 'addSubGroup':
+        if (!refuse(explainAddSubGroup(itemId))) handleAddSubGroup(itemId);
+        break;
+      case 'duplicateItem':
+        handleDuplicate(itemId);
+        break;
+      case 'deleteItem':
+        handleDelete(itemId);
+        break;
+      case 'openContextMenu': {
+        // Open the menu just below the item, as a right-click would
+        const rect = target.getBoundingClientRect();
+        setContextMenu({ x: rect.left, y: rect.bottom, itemId });
+        break;
+      }
     }
-    
-    return newItem;
   };
 
   // Function to highlight search matches in the title
-  const highlightSearchMatch = (title: string, searchTerm: string) => {
-    if (!searchTerm) return title;
-    
-    const lowerTitle = title.toLowerCase();
-    const lowerSearch = searchTerm.toLowerCase();
+  const highlightSearchMatch = (title: string, query: SearchQuery | null) => {
+    if (!query) return title;
     
-    if (!lowerTitle.includes(lowerSearch)) return title;
+    const ranges = highlightRanges(title, query);
+    if (ranges.length === 0) return title;
     
-    const startIndex = lowerTitle.indexOf(lowerSearch);
-    const endIndex = startIndex + searchTerm.length;
-    
-    const beforeMatch = title.substring(0, startIndex);
-    const match = title.substring(startIndex, endIndex);
-    const afterMatch = title.substring(endIndex);
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    ranges.forEach(([start, end]) => {
+      parts.push(title.substring(position, start));
+      parts.push(
+        <span key={start} className="rct-tree-item-search-highlight">
+          {title.substring(start, end)}
+        </span>
+      );
+      position = end;
+    });
+    parts.push(title.substring(position));
     
-    return (
-      <>
-        {beforeMatch}
-        <span className="rct-tree-item-search-highlight">{match}</span>
-        {afterMatch}
-      </>
-    );
+    return <>{parts}</>;
   };
 
   const renderContextMenu = () => {
@@ -565,43 +1177,110 @@ function App() {
 
     const item = items[String(contextMenu.itemId)];
     if (!item) return null;
+    
+    const childType = defaultChildType(parentKindOf(items, item.index));
+    const rosterFull = childType === 'Player' ? explainAddPlayer(state, item.index) : null;
+
+    // Actions the current role may not take on this item, with the reason
+    const addDenied = permissionFor('add', item.index);
+    const editDenied = permissionFor('edit', item.index);
+    const renameDenied = permissionFor('rename', item.index);
+    const duplicateDenied = explainDuplicate(item.index);
+    const deleteDenied = permissionFor('delete', item.index);
 
     return (
-      <div 
-        className="context-menu fixed z-50"
-        style={{ top: contextMenu.y, left: contextMenu.x }}
+      <ContextMenu
+        x={contextMenu.x}
+        y={contextMenu.y}
+        label={`Actions for ${item.data.name}`}
+        onClose={closeContextMenu}
       >
+        {!readOnly && (
+          <>
+            <button 
+              className="context-menu-item"
+              role="menuitem"
+              onClick={() => handleAddSubGroup(contextMenu.itemId)}
+              disabled={!childType || Boolean(rosterFull) || Boolean(addDenied)}
+              title={addDenied ?? rosterFull ?? (childType ? `Add a ${childType}` : `${item.data.type}s can't contain other items`)}
+            >
+              {childType ? `Add ${childType}` : 'Add Sub-Group'}
+            </button>
+            <button 
+              className="context-menu-item"
+              role="menuitem"
+              onClick={() => handleEdit(contextMenu.itemId)}
+              disabled={Boolean(editDenied)}
+              title={editDenied ?? undefined}
+            >
+              Edit Group
+            </button>
+            <button 
+              className="context-menu-item"
+              role="menuitem"
+              onClick={() => handleRename(contextMenu.itemId)}
+              disabled={Boolean(renameDenied)}
+              title={renameDenied ?? undefined}
+            >
+              Rename
+            </button>
+            <button 
+              className="context-menu-item"
+              role="menuitem"
+              onClick={() => handleDuplicate(contextMenu.itemId)}
+              disabled={Boolean(duplicateDenied)}
+              title={duplicateDenied ?? undefined}
+            >
+              Duplicate
+            </button>
+            <button 
+              className="context-menu-item"
+              role="menuitem"
+              onClick={() => handleCopy(contextMenu.itemId, true)}
+              disabled={Boolean(deleteDenied)}
+              title={deleteDenied ?? undefined}
+            >
+              Cut
+            </button>
+          </>
+        )}
         <button 
           className="context-menu-item"
-          onClick={() => handleAddSubGroup(contextMenu.itemId)}
-        >
-          Add Sub-Group
-        </button>
-        <button 
-          className="context-menu-item"
-          onClick={() => handleEdit(contextMenu.itemId)}
-        >
-          Edit Group
-        </button>
-        <button 
-          className="context-menu-item"
-          onClick={() => handleRename(contextMenu.itemId)}
-        >
-          Rename
-        </button>
-        <button 
-          className="context-menu-item"
-          onClick={() => handleDuplicate(contextMenu.itemId)}
-        >
-          Duplicate
-        </button>
-        <button 
-          className="context-menu-item text-red-600 hover:bg-red-50"
-          onClick={() => handleDelete(contextMenu.itemId)}
+          role="menuitem"
+          onClick={() => handleCopy(contextMenu.itemId)}
         >
-          Delete
+          Copy
         </button>
-      </div>
+        {!readOnly && (
+          <button 
+            className="context-menu-item"
+            role="menuitem"
+            onClick={() => handlePaste(contextMenu.itemId)}
+          >
+            Paste
+          </button>
+        )}
+        {!published && (
+          <button 
+            className="context-menu-item"
+            role="menuitem"
+            onClick={() => handleShowHistory(contextMenu.itemId)}
+          >
+            History
+          </button>
+        )}
+        {!readOnly && (
+          <button 
+            className="context-menu-item text-red-600 hover:bg-red-50"
+            role="menuitem"
+            onClick={() => handleDelete(contextMenu.itemId)}
+            disabled={Boolean(deleteDenied)}
+            title={deleteDenied ?? undefined}
+          >
+            Delete
+          </button>
+        )}
+      </ContextMenu>
     );
   };
 
@@ -615,218 +1294,55 @@ function App() {
       <p className="empty-state-description">
         Get started by creating your first group
       </p>
-      <button 
-        className="empty-state-button"
-        onClick={() => setShowCreateModal(true)}
-      >
-        <Plus size={16} />
-        Create First Group
-      </button>
+      {!permissionFor('add', 'root') && (
+        <button 
+          className="empty-state-button"
+          onClick={() => setShowCreateModal(true)}
+        >
+          <Plus size={16} />
+          Create First Group
+        </button>
+      )}
     </div>
   );
 
-  // Edit Modal Component
-  const EditModal = ({ item, onSave, onCancel }: EditModalProps) => {
-    const [name, setName] = useState(item.data.name);
-    const [type, setType] = useState<ItemData['type']>(item.data.type);
+  // Shown while the league is fetched from the league service
+  const LeagueLoadingState = () => {
+    const loadError = itemStatus.root?.loadError;
     
     return (
-      <div className="edit-modal-backdrop">
-        <div className="edit-modal">
-          <div className="edit-modal-header">
-            <h2>Edit Group</h2>
-            <button 
-              className="edit-modal-close" 
-              onClick={onCancel}
-              aria-label="Close"
-            >
-              <X size={18} />
-            </button>
-          </div>
-          <div className="edit-modal-body">
-            <div className="edit-form-group">
-              <label htmlFor="group-name">Group Name</label>
-              <input
-                id="group-name"
-                type="text"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                className="edit-form-input"
-              />
-            </div>
-            <div className="edit-form-group">
-              <label htmlFor="group-type">Group Type</label>
-              <select
-                id="group-type"
-                value={type}
-                onChange={(e) => setType(e.target.value as ItemData['type'])}
-                className="edit-form-select"
-              >
-                <option value="Conference">Conference</option>
-                <option value="Division">Division</option>
-                <option value="Team">Team</option>
-              </select>
-            </div>
-            <p className="edit-form-hint">
-              This will send you to the edit form in a real application.
-            </p>
-          </div>
-          <div className="edit-modal-footer">
-            <button 
-              className="edit-modal-cancel" 
-              onClick={onCancel}
-            >
-              Cancel
-            </button>
-            <button 
-              className="edit-modal-save" 
-              onClick={() => onSave(name, type)}
-            >
-              Save Changes
-            </button>
-          </div>
+      <div className="empty-state" role="status">
+        <div className="empty-state-icon">
+          {loadError ? <AlertCircle size={48} /> : <Loader2 size={48} className="spin" />}
         </div>
-      </div>
-    );
-  };
-
-  // Create Group Modal Component
-  const CreateGroupModal = ({ onSave, onCancel, isFirstGroup = false }: CreateGroupModalProps) => {
-    const [name, setName] = useState('');
-    const [type, setType] = useState<ItemData['type']>('Conference');
-    
-    return (
-      <div className="edit-modal-backdrop">
-        <div className="edit-modal">
-          <div className="edit-modal-header">
-            <h2>{isFirstGroup ? 'Create First Group' : 'Create New Group'}</h2>
-            <button 
-              className="edit-modal-close" 
-              onClick={onCancel}
-              aria-label="Close"
-            >
-              <X size={18} />
-            </button>
-          </div>
-          <div className="edit-modal-body">
-            <div className="edit-form-group">
-              <label htmlFor="group-name">Group Name</label>
-              <input
-                id="group-name"
-                type="text"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                className="edit-form-input"
-                placeholder="Enter group name"
-                autoFocus
-              />
-            </div>
-            <div className="edit-form-group">
-              <label htmlFor="group-type">Group Type</label>
-              <select
-                id="group-type"
-                value={type}
-                onChange={(e) => setType(e.target.value as ItemData['type'])}
-                className="edit-form-select"
-              >
-                <option value="Conference">Conference</option>
-                <option value="Division">Division</option>
-                <option value="Team">Team</option>
-              </select>
-            </div>
-            {isFirstGroup && (
-              <p className="edit-form-hint">
-                Create your first group to get started with organizing your hierarchy.
-              </p>
-            )}
-          </div>
-          <div className="edit-modal-footer">
-            <button 
-              className="edit-modal-cancel" 
-              onClick={onCancel}
-            >
-              Cancel
-            </button>
+        <h3 className="empty-state-title">
+          {loadError ? "Couldn't Load the League" : 'Loading League…'}
+        </h3>
+        {loadError && (
+          <>
+            <p className="empty-state-description">{loadError}</p>
             <button 
-              className="edit-modal-save" 
-              onClick={() => onSave(name, type)}
-              disabled={!name.trim()}
+              className="empty-state-button"
+              onClick={() => dataProvider.loadRoot().catch(() => undefined)}
             >
-              Create Group
+              Retry
             </button>
-          </div>
-        </div>
+          </>
+        )}
       </div>
     );
   };
 
-  // Create a custom renaming component
-  const RenamingItem = ({ item }: { item: LeagueItem }) => {
-    const inputRef = useRef<HTMLInputElement>(null);
-    
-    useEffect(() => {
-      // Focus and select all text when mounting the input
-      if (inputRef.current) {
-        inputRef.current.focus();
-        inputRef.current.select();
-      }
-    }, []);
-
-    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-      if (e.key === 'Enter') {
-        e.preventDefault();
-        if (inputRef.current) {
-          // Get the current value
-          const newName = inputRef.current.value;
-          // Update the item with the new name
-          handleRenameItem(item, newName);
-          // Return focus to the tree and stop renaming
-          setTimeout(() => {
-            treeRef.current?.abortRenamingItem();
-            treeRef.current?.focusTree();
-          }, 10);
-        }
-      } else if (e.key === 'Escape') {
-        e.preventDefault();
-        treeRef.current?.abortRenamingItem();
-      }
-    };
-
-    return (
-      <input
-        ref={inputRef}
-        className="rct-tree-item-renaming-input"
-        defaultValue={item.data.name}
-        onKeyDown={handleKeyDown}
-        onBlur={() => {
-          // When input loses focus, apply the edit if there's a value
-          if (inputRef.current && inputRef.current.value.trim()) {
-            handleRenameItem(item, inputRef.current.value);
-          }
-          treeRef.current?.abortRenamingItem();
-        }}
-      />
-    );
-  };
-
-  // Custom selection behavior to toggle selection and select children
-  const customSelectBehavior = {
-    multiSelectWithKeyboard: false,
-    autoSelectChildrenWhenPrimarySelectsFolder: true,
-    mouseSelect: (itemElement: HTMLElement): SelectionAction => {
-      const isSelected = itemElement.getAttribute('aria-selected') === 'true';
-      return {
-        primary: !isSelected,
-        additional: false
-      };
-    }
-  };
-
   return (
     <div 
       className="min-h-screen bg-gray-50 p-8"
       onClick={closeContextMenu}
     >
+      {/* Read out by screen readers; the key makes a repeated message count as new */}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {announcement && <span key={announcement.id}>{announcement.message}</span>}
+      </div>
+
       {/* React version indicator */}
       <div className="fixed top-4 left-4 text-sm text-gray-600 bg-white px-3 py-1.5 rounded-full shadow-sm border border-gray-200">
         👴 React v{React.version}
@@ -837,51 +1353,198 @@ function App() {
         <h1 className="text-primary font-bold text-2xl">React-Complex-Tree POC</h1>
         <p className="text-secondary mt-1">Hierarchical tree component with search and editing capabilities</p>
         
-        {/* Toggle for testing empty state */}
-        <div className="mt-4 flex items-center">
-          <button 
-            className="toggle-button"
+        {/* Toggle for testing empty state, and the role to test as */}
+        {!published && (
+          <div className="mt-4 flex items-center gap-4">
+            <button 
+              className="toggle-button"
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleEmptyState();
+              }}
+            >
+              {showEmptyState ? (
+                <ToggleRight className="h-6 w-6 text-primary" />
+              ) : (
+                <ToggleLeft className="h-6 w-6 text-secondary" />
+              )}
+              <span className="ml-2">Test Empty State</span>
+            </button>
+            <RolePicker grant={grant} items={items} onChange={handleGrantChange} />
+          </div>
+        )}
+      </div>
+      
+      <div className={`max-w-4xl mx-auto bg-white rounded-xl shadow-sm p-6 ${splitView ? 'split-view' : ''}`}>
+        {warning && (
+          <div className="storage-warning" role="alert">
+            <AlertTriangle size={18} className="storage-warning-icon" />
+            <span>{warning}</span>
+            <button 
+              className="edit-modal-close" 
+              onClick={() => setWarning(null)}
+              aria-label="Dismiss warning"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        )}
+        
+        {published && (
+          <div className="published-banner" role="status">
+            <Eye size={18} aria-hidden="true" />
+            <span>
+              You're viewing the league as published
+              {published.publishedAt ? ` on ${new Date(published.publishedAt).toLocaleString()}` : ''}. It can't be changed here.
+            </span>
+          </div>
+        )}
+        
+        <div className="tree-toolbar">
+          {!readOnly && (
+            <>
+              <HistoryMenu
+                undoLabels={undoLabels}
+                redoLabels={redoLabels}
+                onUndo={undo}
+                onRedo={redo}
+              />
+              <button
+                className="toolbar-button"
+                onClick={(e) => togglePanel(e, 'trash')}
+                aria-pressed={sidePanel === 'trash'}
+              >
+                <Trash2 size={16} />
+                <span>Trash{trash.length > 0 ? ` (${trash.length})` : ''}</span>
+              </button>
+            </>
+          )}
+          <button
+            className="toolbar-button"
+            onClick={(e) => togglePanel(e, 'schedule')}
+            aria-pressed={sidePanel === 'schedule'}
+          >
+            <Calendar size={16} />
+            <span>Schedule</span>
+          </button>
+          {!published && (
+            <>
+              <button
+                className="toolbar-button"
+                onClick={(e) => togglePanel(e, 'templates')}
+                aria-pressed={sidePanel === 'templates'}
+              >
+                <LayoutTemplate size={16} />
+                <span>Templates</span>
+              </button>
+              <button
+                className="toolbar-button"
+                onClick={(e) => togglePanel(e, 'changes')}
+                aria-pressed={sidePanel === 'changes'}
+              >
+                <GitCompare size={16} />
+                <span>Changes{diff && diff.changes.length > 0 ? ` (${diff.changes.length})` : ''}</span>
+              </button>
+              <button
+                className="toolbar-button"
+                onClick={(e) => {
+                  setAuditItem(null);
+                  togglePanel(e, 'audit');
+                }}
+                aria-pressed={sidePanel === 'audit'}
+              >
+                <ScrollText size={16} />
+                <span>Audit Log</span>
+              </button>
+              <button
+                className={`toolbar-button ${splitView ? 'toolbar-button-active' : ''}`}
+                onClick={toggleSplitView}
+                aria-pressed={splitView}
+                title="Show the current and draft seasons side by side"
+              >
+                <Columns2 size={16} />
+                <span>Split View</span>
+              </button>
+            </>
+          )}
+          {grant.role === 'admin' && (
+            <button
+              className="toolbar-button"
+              onClick={() => setShowImportModal(true)}
+            >
+              <Upload size={16} />
+              <span>Import</span>
+            </button>
+          )}
+          <button
+            className="toolbar-button"
+            onClick={() => handleExport('json')}
+          >
+            <Download size={16} />
+            <span>Export JSON</span>
+          </button>
+          <button
+            className="toolbar-button"
+            onClick={() => handleExport('csv')}
+          >
+            <Download size={16} />
+            <span>Export CSV</span>
+          </button>
+          <button
+            className="toolbar-button"
             onClick={(e) => {
               e.stopPropagation();
-              toggleEmptyState();
+              setPaletteTreeId(CURRENT_SEASON.treeId);
             }}
+            title="Find an action or a group (Ctrl+K)"
           >
-            {showEmptyState ? (
-              <ToggleRight className="h-6 w-6 text-primary" />
-            ) : (
-              <ToggleLeft className="h-6 w-6 text-secondary" />
-            )}
-            <span className="ml-2">Test Empty State</span>
+            <Command size={16} />
+            <span>Commands</span>
           </button>
-        </div>
-      </div>
-      
-      <div className="max-w-4xl mx-auto bg-white rounded-xl shadow-sm p-6">
-        <div className="relative mb-6 search-container">
-          <input
-            ref={searchInputRef}
-            type="text"
-            placeholder="Search groups (Press '/' to focus)"
-            className="search-input w-full"
-            value={searchTerm}
-            onChange={handleSearch}
-          />
-          {searchTerm ? (
-            <div 
-              className="absolute right-4 top-1/2 -translate-y-1/2 cursor-pointer" 
-              onClick={clearSearch}
-              aria-label="Clear search"
-              role="button"
-              tabIndex={0}
+          {!published && (
+            <button
+              className="toolbar-button"
+              onClick={(e) => togglePanel(e, 'publish')}
+              aria-pressed={sidePanel === 'publish'}
+              title="Share the current season read-only with parents"
+            >
+              <Share2 size={16} />
+              <span>Publish</span>
+            </button>
+          )}
+          {collabStatus && (
+            <div
+              className={`collab-status collab-status-${collabStatus}`}
+              role="status"
+              title={peers.length > 0 ? `Also editing: ${peers.map(peer => peer.name).join(', ')}` : 'Nobody else is editing'}
             >
-              <X className="w-4 h-4 text-gray-400" />
+              <span className="collab-status-dot" aria-hidden="true" />
+              <span>
+                {collabStatus === 'live' ? 'Live' : collabStatus === 'connecting' ? 'Connecting…' : 'Offline, retrying'}
+              </span>
+              {peers.map(peer => (
+                <span
+                  key={peer.clientId}
+                  className="collab-avatar"
+                  style={{ backgroundColor: peer.color }}
+                  aria-label={peer.name}
+                >
+                  {initialsOf(peer.name)}
+                </span>
+              ))}
             </div>
-          ) : (
-            <Search className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 w-4 h-4" />
           )}
         </div>
         
-        {isTreeEmpty() ? (
+        {dropHint && (
+          <div className="drop-hint" role="status">
+            {dropHint}
+          </div>
+        )}
+        
+        {leagueApi && !items.root ? (
+          <LeagueLoadingState />
+        ) : isTreeEmpty() ? (
           <EmptyState />
         ) : (
           <>
@@ -889,75 +1552,130 @@ function App() {
               dataProvider={dataProvider}
               getItemTitle={item => item?.data ? String(item.data.name) : ''}
               viewState={{
-                'tree-1': {
+                [CURRENT_SEASON.treeId]: {
                   expandedItems: ['root', 'monday', 'wednesday', 'friday'],
                 },
+                [DRAFT_SEASON.treeId]: {
+                  expandedItems: [DRAFT_SEASON.rootId],
+                },
               }}
-              canDragAndDrop={true}
+              // Moving items is turned off while a tree is filtered, since hidden
+              // items would be left out of the moved children. Viewers can't move anything.
+              canDragAndDrop={!isFiltering && !readOnly}
               canReorderItems={true}
               canDropOnFolder={true}
               canDropOnNonFolder={true}
-              canRename={true}
-              onRenameItem={handleRenameItem}
-              onDrop={handleItemDrop}
+              // Only items the role may move can be picked up
+              canDrag={draggedItems => draggedItems.every(item => !permissionFor('move', item.index))}
+              // Only allow drops that respect the Conference → Division → Team hierarchy
+              // and stay within the part of the league the role looks after
+              canDropAt={(draggedItems, target) =>
+                !explainDrop(state, draggedItems, dropParentId(target)) &&
+                !explainMove(state, grant, draggedItems.map(item => item.index), dropParentId(target))
+              }
+              canRename={!readOnly}
+              // Renaming from the keyboard (F2) doesn't go through the context menu, so check it here
+              onStartRenamingItem={(item, treeId) => {
+                if (refuse(permissionFor('rename', item.index))) {
+                  requestAnimationFrame(() => treeRefs[treeId]?.current?.abortRenamingItem());
+                }
+              }}
               // Disable built-in search UI
               canSearch={false}
               canSearchByStartingTyping={false}
               // But still use custom search matching function
               doesSearchMatchItem={(searchText, item) => {
-                if (!searchText || !item?.data?.name) return false;
-                return item.data.name.toLowerCase().includes(searchText.toLowerCase());
-              }}
-              keyboardBindings={{
-                // Disable default search bindings
-                startSearch: [],
-                // Keep rename bindings
-                renameItem: ['f2'],
-                abortRenameItem: ['escape'],
+                const query = parseSearchQuery(searchText);
+                return query ? findMatches(state, query, paneOf(state, item.index).rootId).matchSet.has(item.index) : false;
               }}
-              // @ts-ignore - The UncontrolledTreeEnvironment supports selectBehavior but TypeScript doesn't recognize it
-              selectBehavior={customSelectBehavior}
-              renderItemArrow={({ item, context }) => (
-                <div 
-                  className={`chevron-container ${item.children && item.children.length > 0 ? 'chevron-visible' : 'chevron-hidden'}`}
-                  onClick={(e) => {
-                    e.stopPropagation(); // Prevent triggering selection
-                    if (item.children && item.children.length > 0) {
-                      if (context.isExpanded) {
-                        treeRef.current?.collapseItem(item.index);
-                      } else {
-                        treeRef.current?.expandItem(item.index);
-                      }
-                    }
-                  }}
-                  data-testid="chevron-container"
+              onSelectItems={selectedItems => collab?.setPresence({ selectedItems })}
+              // Focus can move to rows that aren't rendered, e.g. with the arrow keys
+              onFocusItem={virtualized ? (item, treeId) => virtualRows[treeId]?.revealItem(item.index) : undefined}
+              renderItemsContainer={virtualized ? ({ children, containerProps, info }) => (
+                <VirtualItemsContainer
+                  containerProps={containerProps}
+                  treeId={info.treeId}
+                  range={virtualRows[info.treeId].range}
                 >
-                  {item.children && item.children.length > 0 ? (
-                    context.isExpanded ? (
-                      <ChevronDown className="w-4 h-4 text-secondary" />
-                    ) : (
-                      <ChevronRight className="w-4 h-4 text-secondary" />
-                    )
-                  ) : (
-                    <div className="w-4 h-4 visibility-hidden" aria-hidden="true">
-                      <ChevronRight className="w-4 h-4" />
+                  {children}
+                </VirtualItemsContainer>
+              ) : undefined}
+              keyboardBindings={KEYBOARD_BINDINGS}
+              liveDescriptors={TREE_LIVE_DESCRIPTORS}
+              renderItemArrow={({ item, context }) => {
+                const status = itemStatus[item.index];
+                
+                // Children are still being fetched, or fetching them failed
+                if (status?.loading || status?.loadError) {
+                  return (
+                    <div 
+                      className="chevron-container chevron-visible"
+                      onClick={(e) => {
+                        e.stopPropagation(); // Prevent triggering selection
+                        if (status.loadError) {
+                          dataProvider.loadChildren(item.index).catch(() => undefined);
+                        }
+                      }}
+                      title={status.loadError ? `${status.loadError} Click to retry.` : 'Loading…'}
+                      data-testid="chevron-container"
+                    >
+                      {status.loading ? (
+                        <Loader2 className="w-4 h-4 text-secondary spin" />
+                      ) : (
+                        <AlertCircle className="w-4 h-4 item-status-error" />
+                      )}
                     </div>
-                  )}
-                </div>
-              )}
-              renderItemTitle={({ item, title }) => {
-                // Check if this item matches the search term
-                const matchesSearch = searchTerm ? 
-                  item.data.name.toLowerCase().includes(searchTerm.toLowerCase()) : 
-                  false;
+                  );
+                }
+                
+                return (
+                  <div 
+                    className={`chevron-container ${item.children && item.children.length > 0 ? 'chevron-visible' : 'chevron-hidden'}`}
+                    onClick={(e) => {
+                      e.stopPropagation(); // Prevent triggering selection
+                      if (item.children && item.children.length > 0) {
+                        if (context.isExpanded) {
+                          context.collapseItem();
+                        } else {
+                          context.expandItem();
+                        }
+                      }
+                    }}
+                    data-testid="chevron-container"
+                  >
+                    {item.children && item.children.length > 0 ? (
+                      context.isExpanded ? (
+                        <ChevronDown className="w-4 h-4 text-secondary" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 text-secondary" />
+                      )
+                    ) : (
+                      <div className="w-4 h-4 visibility-hidden" aria-hidden="true">
+                        <ChevronRight className="w-4 h-4" />
+                      </div>
+                    )}
+                  </div>
+                );
+              }}
+              renderItemTitle={({ item, title, info }) => {
+                // Highlight matches of the search of the pane this tree is in
+                const { searchMatches, searchQuery, currentMatchId, hasMatchingChildren } = searches[info.treeId];
+                
+                // Check if this item matches the search query
+                const matchesSearch = searchMatches?.matchSet.has(item.index) ?? false;
                 
-                // Check if any children match the search term when this is a folder
-                const childrenMatchSearch = searchTerm && item.children && item.children.length > 0 ? 
-                  hasMatchingChildren(item.index, searchTerm) : 
-                  false;
+                // Check if any children match the search query when this is a folder
+                const childrenMatchSearch = hasMatchingChildren(item.index);
                 
                 // Determine styling based on direct match or child matches
-                const titleClassName = `text-lg ${matchesSearch ? "font-semibold" : ""} ${childrenMatchSearch ? "text-primary font-semibold border-b border-dashed border-primary" : ""}`;
+                const titleClassName = `text-lg ${matchesSearch ? "font-semibold" : ""} ${childrenMatchSearch ? "text-primary font-semibold border-b border-dashed border-primary" : ""} ${item.index === currentMatchId ? "search-match-active" : ""}`;
+
+                // Over-full Teams and Players outside their Division's ages
+                const warnings = rosterWarnings(state, item.index);
+
+                // How the item differs from the reviewed league, while the change list is open
+                const change = markedDiff?.byItem[item.index];
+                const removedCount = markedDiff?.removedFrom[item.index] ?? 0;
                 
                 return (
                   <div 
@@ -966,8 +1684,8 @@ function App() {
                   >
                     <div className="flex flex-col py-0.5">
                       <span className={titleClassName}>
-                        {searchTerm && matchesSearch
-                          ? highlightSearchMatch(title, searchTerm) 
+                        {matchesSearch
+                          ? highlightSearchMatch(title, searchQuery) 
                           : title}
                         {childrenMatchSearch && !matchesSearch && (
                           <span className="text-primary-light">
@@ -975,9 +1693,64 @@ function App() {
                           </span>
                         )}
                       </span>
-                      <span className="text-secondary text-primary">
-                        {item.data.type}
+                      <span className="text-secondary text-primary item-summary">
+                        {item.data.fields?.color && (
+                          <span
+                            className="item-color-swatch"
+                            style={{ backgroundColor: String(item.data.fields.color) }}
+                            aria-hidden="true"
+                          />
+                        )}
+                        {[item.data.type, ...summarizeFields(item.data)].join(' · ')}
+                        {warnings.map(warning => (
+                          <span key={warning} className="item-warning-badge" title={warning}>
+                            <AlertTriangle size={12} aria-hidden="true" />
+                            {warning}
+                          </span>
+                        ))}
+                        {change?.kinds.map(kind => (
+                          <span key={kind} className={`diff-marker diff-marker-${kind}`} title={describeChange(change, baseline, items)}>
+                            {CHANGE_LABELS[kind]}
+                          </span>
+                        ))}
+                        {removedCount > 0 && (
+                          <span className="diff-marker diff-marker-removed">
+                            {removedCount} removed
+                          </span>
+                        )}
+                        {(peersByItem[item.index] ?? []).map(peer => (
+                          <span
+                            key={peer.clientId}
+                            className="presence-marker"
+                            style={{ borderColor: peer.color, color: peer.color }}
+                          >
+                            {peer.renamingItem === item.index ? `${peer.name} is renaming` : peer.name}
+                          </span>
+                        ))}
                       </span>
+                      {itemStatus[item.index]?.loading && (
+                        <span className="item-status">Loading…</span>
+                      )}
+                      {itemStatus[item.index]?.loadError && (
+                        <span className="item-status item-status-error">
+                          {itemStatus[item.index].loadError}
+                        </span>
+                      )}
+                      {itemStatus[item.index]?.saveError && (
+                        <span className="item-status item-status-error">
+                          {itemStatus[item.index].saveError}
+                          <button
+                            className="item-status-dismiss"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              dataProvider.dismissError(item.index);
+                            }}
+                            aria-label="Dismiss error"
+                          >
+                            <X size={12} />
+                          </button>
+                        </span>
+                      )}
                     </div>
                     <div 
                       className="more-options cursor-pointer p-1"
@@ -995,6 +1768,7 @@ function App() {
                 >
                   <div
                     {...context.itemContainerWithoutChildrenProps}
+                    onDragEnter={() => handleDragEnterItem(item.index)}
                     style={{ paddingLeft: `${depth * 16}px` }}
                     className={[
                       'rct-tree-item-title-container',
@@ -1007,8 +1781,13 @@ function App() {
                     ].filter(Boolean).join(' ')}
                   >
                     {arrow}
-                    {context.isRenaming ? (
-                      <RenamingItem item={item} />
+                    {context.isRenaming && !permissionFor('rename', item.index) ? (
+                      <RenamingItem
+                        item={item}
+                        tree={treeOf(state, item.index)}
+                        onRename={handleRenameItem}
+                        onRenamingChange={reportRenaming}
+                      />
                     ) : (
                       <button
                         {...context.interactiveElementProps}
@@ -1023,23 +1802,172 @@ function App() {
                 </li>
               )}
             >
-              <Tree
-                ref={treeRef}
-                treeId="tree-1"
-                rootItem="root"
-                treeLabel="League Divisions"
-              />
+              <div
+                className={`season-panes ${splitView ? 'season-panes-split' : ''} ${virtualized ? 'tree-virtualized' : ''}`}
+                onKeyDown={handleTreeKeyDown}
+              >
+                {panes.map(pane => {
+                  const search = searches[pane.treeId];
+                  const isDraft = pane.treeId === DRAFT_SEASON.treeId;
+                  
+                  return (
+                    <section key={pane.treeId} className="season-pane" aria-label={pane.label}>
+                      {splitView && (
+                        <div className="season-pane-header">
+                          <h2>{pane.label}</h2>
+                          {isDraft && !permissionFor('add', DRAFT_SEASON.rootId) && (
+                            <button
+                              className="toolbar-button"
+                              onClick={() => handleAddSubGroup(DRAFT_SEASON.rootId)}
+                            >
+                              <Plus size={14} />
+                              <span>Add Conference</span>
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      <SearchBar
+                        search={search}
+                        placeholder={isDraft
+                          ? 'Search the draft season'
+                          : "Search groups, e.g. type:Team night:Monday (Press '/' to focus)"}
+                        inputRef={isDraft ? undefined : searchInputRef}
+                      />
+                      {search.isFiltering && search.searchMatches?.matches.length === 0 && (
+                        <p className="search-no-results">No groups match your search.</p>
+                      )}
+                      {isDraft && !items[DRAFT_SEASON.rootId]?.children?.length && (
+                        <p className="season-pane-empty">
+                          Drag Conferences, Divisions or Teams here from the current season, or add a Conference to start.
+                        </p>
+                      )}
+                      <Tree
+                        ref={treeRefs[pane.treeId]}
+                        treeId={pane.treeId}
+                        rootItem={String(pane.rootId)}
+                        treeLabel={isDraft ? 'Draft Season Divisions' : 'League Divisions'}
+                      />
+                    </section>
+                  );
+                })}
+              </div>
             </UncontrolledTreeEnvironment>
           </>
         )}
       </div>
       {renderContextMenu()}
       
+      {/* Trash Panel */}
+      {sidePanel === 'trash' && (
+        <TrashPanel
+          entries={trash}
+          items={items}
+          onRestore={handleRestore}
+          onPurge={handlePurge}
+          saved={savesLocally}
+          onEmpty={() => setTrash([])}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+      
+      {/* Schedule Panel */}
+      {sidePanel === 'schedule' && (
+        <SchedulePanel
+          items={items}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+      
+      {/* Changes Panel */}
+      {diff && (
+        <ChangesPanel
+          diff={diff}
+          baseline={baseline}
+          items={items}
+          markInTree={markChanges}
+          onMarkInTreeChange={setMarkChanges}
+          onResetBaseline={() => setBaseline(items)}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+      
+      {/* Templates Panel */}
+      {sidePanel === 'templates' && (
+        <TemplatesPanel
+          templates={templates}
+          seasons={panes}
+          onSave={handleSaveTemplate}
+          onApply={handleNewSeasonFromTemplate}
+          onDelete={handleDeleteTemplate}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+      
+      {/* Audit Log Panel */}
+      {sidePanel === 'audit' && (
+        <AuditLogPanel
+          entries={auditLog}
+          itemFilter={auditItem}
+          onClearItemFilter={() => setAuditItem(null)}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+      
+      {/* Publish Panel */}
+      {sidePanel === 'publish' && (
+        <PublishPanel
+          items={items}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+      
+      {/* Command Palette */}
+      {paletteTreeId && (
+        <CommandPalette
+          state={state}
+          commands={paletteCommands(paletteTreeId)}
+          recent={recentCommands}
+          onGoTo={goToItem}
+          onRun={handleRunCommand}
+          onClose={() => setPaletteTreeId(null)}
+        />
+      )}
+      
+      {/* Import Modal */}
+      {showImportModal && (
+        <ImportModal
+          onImport={handleImport}
+          onCancel={() => setShowImportModal(false)}
+        />
+      )}
+      
+      {/* Delete Confirmation */}
+      {pendingDelete && items[pendingDelete] && (
+        <ConfirmDeleteModal
+          item={items[pendingDelete]}
+          items={items}
+          onConfirm={() => confirmDelete(pendingDelete)}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+
+      {/* Template Confirmation */}
+      {pendingTemplate && (
+        <ConfirmTemplateModal
+          template={pendingTemplate}
+          items={items}
+          onConfirm={() => applySeasonTemplate(pendingTemplate)}
+          onCancel={() => setPendingTemplate(null)}
+        />
+      )}
+      
       {/* Edit Modal */}
       {editItem && items[editItem] && (
         <EditModal 
           item={items[editItem]} 
-          onSave={(name, type) => handleEditItem(editItem, name, type)}
+          allowedTypes={allowedTypesForItem(state, editItem)}
+          placementProblem={explainPlacement(parentKindOf(items, state.parents[editItem] ?? 'root'), items[editItem].data.type)}
+          onSave={(name, type, fields) => handleEditItem(editItem, name, type, fields)}
           onCancel={() => setEditItem(null)}
         />
       )}
@@ -1047,6 +1975,7 @@ function App() {
       {/* Create Group Modal */}
       {showCreateModal && (
         <CreateGroupModal 
+          allowedTypes={allowedChildTypes('root')}
           onSave={handleCreateTopLevelGroup}
           onCancel={() => setShowCreateModal(false)}
           isFirstGroup={isTreeEmpty()}
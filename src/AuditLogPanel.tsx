@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react';
+import { TreeItemIndex } from 'react-complex-tree';
+import { Download, X } from 'lucide-react';
+import { AUDIT_CHANGE_LABELS, AuditChange, AuditEntry, exportAuditCsv, exportAuditJson } from './auditLog';
+import { downloadFile } from './importExport';
+
+interface AuditLogPanelProps {
+  entries: AuditEntry[];
+  // Only show the history of this item, as opened from its context menu
+  itemFilter: { itemId: TreeItemIndex; name: string } | null;
+  onClearItemFilter: () => void;
+  onClose: () => void;
+}
+
+// Shows what an entry changed, e.g. "Monday → Wednesday"
+const describeEntry = (entry: AuditEntry) => {
+  if (entry.before !== undefined && entry.after !== undefined) {
+    return entry.change === 'reordered'
+      ? `Position ${entry.before} → ${entry.after} in ${entry.newParentName}`
+      : `${entry.before} → ${entry.after}`;
+  }
+  if (entry.change === 'added') return `${entry.after} in ${entry.newParentName ?? 'the top level'}`;
+  if (entry.change === 'removed') return `${entry.before} from ${entry.oldParentName ?? 'the top level'}`;
+  return '';
+};
+
+// Every change made to the league, who made it and when, with filters and export
+function AuditLogPanel({ entries, itemFilter, onClearItemFilter, onClose }: AuditLogPanelProps) {
+  const [text, setText] = useState('');
+  const [change, setChange] = useState<AuditChange | ''>('');
+  const [user, setUser] = useState('');
+
+  const users = useMemo(() => [...new Set(entries.map(entry => entry.user))].sort(), [entries]);
+
+  // Newest first, narrowed down by the filters
+  const filtered = useMemo(() => {
+    const needle = text.trim().toLowerCase();
+    return entries
+      .filter(entry =>
+        (!itemFilter || entry.itemId === itemFilter.itemId) &&
+        (!change || entry.change === change) &&
+        (!user || entry.user === user) &&
+        (!needle || [entry.itemName, entry.action, entry.before, entry.after, entry.oldParentName, entry.newParentName]
+          .some(value => value?.toLowerCase().includes(needle)))
+      )
+      .reverse();
+  }, [entries, itemFilter, text, change, user]);
+
+  // Exports keep the log's own oldest-first order
+  const exported = () => [...filtered].reverse();
+
+  return (
+    <div className="side-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Audit Log</h2>
+        <button
+          className="edit-modal-close"
+          onClick={onClose}
+          aria-label="Close audit log"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      <div className="audit-filters">
+        <input
+          type="text"
+          className="edit-form-input"
+          placeholder="Filter by item, action or value"
+          aria-label="Filter audit entries"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <div className="audit-filter-row">
+          <select
+            className="edit-form-select"
+            aria-label="Kind of change"
+            value={change}
+            onChange={(e) => setChange(e.target.value as AuditChange | '')}
+          >
+            <option value="">All changes</option>
+            {(Object.keys(AUDIT_CHANGE_LABELS) as AuditChange[]).map(kind => (
+              <option key={kind} value={kind}>{AUDIT_CHANGE_LABELS[kind]}</option>
+            ))}
+          </select>
+          {users.length > 1 && (
+            <select
+              className="edit-form-select"
+              aria-label="User"
+              value={user}
+              onChange={(e) => setUser(e.target.value)}
+            >
+              <option value="">Everyone</option>
+              {users.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        {itemFilter && (
+          <span className="audit-item-filter">
+            History of {itemFilter.name}
+            <button
+              className="edit-modal-close"
+              onClick={onClearItemFilter}
+              aria-label="Show the history of every item"
+            >
+              <X size={14} />
+            </button>
+          </span>
+        )}
+      </div>
+      {filtered.length === 0 ? (
+        <p className="side-panel-empty">
+          {entries.length === 0 ? 'Nothing has been changed yet.' : 'No changes match the filters.'}
+        </p>
+      ) : (
+        <>
+          <ul className="side-panel-list">
+            {filtered.map(entry => (
+              <li key={entry.id} className="side-panel-entry">
+                <div className="flex flex-col">
+                  <span className="font-semibold">
+                    {entry.itemName}
+                    <span className="text-secondary side-panel-meta"> · {entry.itemType}</span>
+                  </span>
+                  <span className="side-panel-meta">{describeEntry(entry)}</span>
+                  <span className="text-secondary side-panel-meta">
+                    {entry.action}
+                    {' · '}
+                    {entry.user}
+                    {' · '}
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </span>
+                </div>
+                <span className={`diff-marker diff-marker-${entry.change}`}>
+                  {AUDIT_CHANGE_LABELS[entry.change]}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="side-panel-footer">
+            <button
+              className="toolbar-button"
+              onClick={() => downloadFile('league-audit-log.json', exportAuditJson(exported()), 'application/json')}
+            >
+              <Download size={14} />
+              <span>Export JSON</span>
+            </button>
+            <button
+              className="toolbar-button"
+              onClick={() => downloadFile('league-audit-log.csv', exportAuditCsv(exported()), 'text/csv')}
+            >
+              <Download size={14} />
+              <span>Export CSV</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default AuditLogPanel;
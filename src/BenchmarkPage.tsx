@@ -0,0 +1,203 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  StaticTreeDataProvider,
+  Tree,
+  TreeItemIndex,
+  TreeRef,
+  UncontrolledTreeEnvironment
+} from 'react-complex-tree';
+import 'react-complex-tree/lib/style-modern.css';
+import { Play } from 'lucide-react';
+import { ItemData, LeagueItems } from './types';
+import { createLeagueState } from './leagueStore';
+import { findMatches, parseSearchQuery } from './searchQuery';
+import { LeagueSize, generateLeague, leagueItemCount } from './leagueGenerator';
+import { VIRTUALIZE_THRESHOLD } from './virtualRows';
+import { useVirtualRows } from './useVirtualRows';
+import VirtualItemsContainer from './VirtualItemsContainer';
+
+const BENCHMARK_TREE_ID = 'benchmark';
+
+// Searches timed on every run, from a plain name to several field filters
+const BENCHMARK_QUERIES = [
+  'Tigers',
+  'type:Team',
+  'night:Monday type:Division',
+  'type:Team OR name:"12U"',
+  'tigrs~ -type:Player'
+];
+
+const SIZE_FIELDS: [keyof LeagueSize, string][] = [
+  ['nights', 'Nights'],
+  ['divisionsPerNight', 'Divisions per Night'],
+  ['teamsPerDivision', 'Teams per Division'],
+  ['playersPerTeam', 'Players per Team']
+];
+
+interface SearchTiming {
+  query: string;
+  matches: number;
+  coldMs: number;
+  cachedMs: number;
+}
+
+interface BenchmarkRun {
+  items: LeagueItems;
+  expandedItems: TreeItemIndex[];
+  generateMs: number;
+  stateMs: number;
+  searches: SearchTiming[];
+  // Filled in once the tree has rendered
+  renderMs?: number;
+  renderedRows?: number;
+  linearRows?: number;
+}
+
+// Time a function in milliseconds
+const time = <T,>(run: () => T): [T, number] => {
+  const start = performance.now();
+  const result = run();
+  return [result, performance.now() - start];
+};
+
+const formatMs = (ms?: number) => (ms === undefined ? '…' : `${ms.toFixed(1)} ms`);
+
+/**
+ * Generates a large league and reports how long it takes to build, render
+ * and search, with and without virtualized rows.
+ */
+function BenchmarkPage() {
+  const [size, setSize] = useState<LeagueSize>({ nights: 50, divisionsPerNight: 20, teamsPerDivision: 50, playersPerTeam: 0 });
+  const [virtualize, setVirtualize] = useState(true);
+  const [run, setRun] = useState<BenchmarkRun | null>(null);
+  const [runCount, setRunCount] = useState(0);
+  const treeRef = useRef<TreeRef>(null);
+  const renderStart = useRef(0);
+
+  const rows = useVirtualRows(treeRef, BENCHMARK_TREE_ID, run !== null && virtualize);
+  const itemCount = leagueItemCount(size);
+  const runItems = run?.items;
+  const dataProvider = useMemo(() => new StaticTreeDataProvider(runItems ?? {}), [runItems]);
+
+  const handleRun = () => {
+    const [items, generateMs] = time(() => generateLeague(size));
+    const [state, stateMs] = time(() => createLeagueState(items));
+
+    // The first search on a league is cold; the same search again comes from the cache
+    const searches = BENCHMARK_QUERIES.map(text => {
+      const query = parseSearchQuery(text);
+      if (!query) return { query: text, matches: 0, coldMs: 0, cachedMs: 0 };
+      const [matches, coldMs] = time(() => findMatches(state, query));
+      const [, cachedMs] = time(() => findMatches(state, query));
+      return { query: text, matches: matches.matches.length, coldMs, cachedMs };
+    });
+
+    // Open every level above Teams, as a coordinator looking through the league would
+    const expandedItems = Object.values(items)
+      .filter(item => item.data.type === 'Conference' || item.data.type === 'Division')
+      .map(item => item.index);
+
+    renderStart.current = performance.now();
+    setRun({ items, expandedItems, generateMs, stateMs, searches });
+    setRunCount(count => count + 1);
+  };
+
+  // Rendering is done once the browser gets to paint the tree
+  useEffect(() => {
+    if (runCount === 0) return;
+    const frame = requestAnimationFrame(() => {
+      const renderMs = performance.now() - renderStart.current;
+      const renderedRows = document.querySelectorAll(`[data-rct-tree="${BENCHMARK_TREE_ID}"] [data-rct-item-id]`).length;
+      const linearRows = treeRef.current?.treeEnvironmentContext.linearItems[BENCHMARK_TREE_ID]?.length;
+      setRun(current => current && { ...current, renderMs, renderedRows, linearRows });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [runCount]);
+
+  return (
+    <div className="benchmark-page">
+      <h1>League Benchmark</h1>
+      <p className="text-secondary side-panel-meta">
+        Generates a league, then times building it, rendering its tree and searching it.
+        The app virtualizes its rows once a league has more than {VIRTUALIZE_THRESHOLD} items.
+      </p>
+      <div className="benchmark-form">
+        {SIZE_FIELDS.map(([field, label]) => (
+          <div key={field} className="edit-form-group">
+            <label htmlFor={`benchmark-${field}`}>{label}</label>
+            <input
+              id={`benchmark-${field}`}
+              type="number"
+              min={field === 'playersPerTeam' ? 0 : 1}
+              className="edit-form-input"
+              value={Number(size[field] ?? 0)}
+              onChange={(e) => setSize({ ...size, [field]: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </div>
+        ))}
+        <label className="search-option">
+          <input type="checkbox" checked={virtualize} onChange={(e) => setVirtualize(e.target.checked)} />
+          Virtualize rows
+        </label>
+        <button className="toolbar-button" onClick={handleRun}>
+          <Play size={14} />
+          <span>Run ({itemCount.toLocaleString()} items)</span>
+        </button>
+      </div>
+
+      {run && (
+        <>
+          <table className="benchmark-results">
+            <tbody>
+              <tr><th>Generate league</th><td>{formatMs(run.generateMs)}</td></tr>
+              <tr><th>Build league state</th><td>{formatMs(run.stateMs)}</td></tr>
+              <tr><th>First render</th><td>{formatMs(run.renderMs)}</td></tr>
+              <tr>
+                <th>Rows rendered</th>
+                <td>
+                  {run.renderedRows === undefined
+                    ? '…'
+                    : `${run.renderedRows.toLocaleString()} of ${(run.linearRows ?? 0).toLocaleString()}`}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <table className="benchmark-results">
+            <thead>
+              <tr><th>Search</th><th>Matches</th><th>First</th><th>Repeated</th></tr>
+            </thead>
+            <tbody>
+              {run.searches.map(search => (
+                <tr key={search.query}>
+                  <td><code>{search.query}</code></td>
+                  <td>{search.matches.toLocaleString()}</td>
+                  <td>{formatMs(search.coldMs)}</td>
+                  <td>{formatMs(search.cachedMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className={virtualize ? 'tree-virtualized' : ''}>
+            <UncontrolledTreeEnvironment<ItemData>
+              key={runCount}
+              dataProvider={dataProvider}
+              getItemTitle={item => item.data.name}
+              viewState={{ [BENCHMARK_TREE_ID]: { expandedItems: run.expandedItems } }}
+              onFocusItem={virtualize ? item => rows.revealItem(item.index) : undefined}
+              renderItemsContainer={virtualize ? ({ children, containerProps, info }) => (
+                <VirtualItemsContainer containerProps={containerProps} treeId={info.treeId} range={rows.range}>
+                  {children}
+                </VirtualItemsContainer>
+              ) : undefined}
+            >
+              <Tree ref={treeRef} treeId={BENCHMARK_TREE_ID} rootItem="root" treeLabel="Generated League" />
+            </UncontrolledTreeEnvironment>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default BenchmarkPage;
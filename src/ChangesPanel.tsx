@@ -0,0 +1,80 @@
+import { RotateCcw, X } from 'lucide-react';
+import { LeagueItems } from './types';
+import { CHANGE_LABELS, LeagueDiff, describeChange } from './leagueDiff';
+
+interface ChangesPanelProps {
+  diff: LeagueDiff;
+  // The snapshot the league is compared against
+  baseline: LeagueItems;
+  items: LeagueItems;
+  markInTree: boolean;
+  onMarkInTreeChange: (markInTree: boolean) => void;
+  onResetBaseline: () => void;
+  onClose: () => void;
+}
+
+// Lists what changed in the league since the baseline, colored by kind of change
+function ChangesPanel({ diff, baseline, items, markInTree, onMarkInTreeChange, onResetBaseline, onClose }: ChangesPanelProps) {
+  return (
+    <div className="side-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Changes</h2>
+        <button
+          className="edit-modal-close"
+          onClick={onClose}
+          aria-label="Close changes"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      <label className="search-option changes-option">
+        <input
+          type="checkbox"
+          checked={markInTree}
+          onChange={(e) => onMarkInTreeChange(e.target.checked)}
+        />
+        Mark changes in the tree
+      </label>
+      {diff.changes.length === 0 ? (
+        <p className="side-panel-empty">Nothing has changed since the last review.</p>
+      ) : (
+        <>
+          <ul className="side-panel-list">
+            {diff.changes.map(change => (
+              <li key={`${change.kinds[0]}-${String(change.itemId)}`} className="side-panel-entry">
+                <div className="flex flex-col">
+                  <span className="font-semibold">
+                    {change.name}
+                    <span className="text-secondary side-panel-meta"> · {change.type}</span>
+                  </span>
+                  <span className="text-secondary side-panel-meta">
+                    {describeChange(change, baseline, items)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  {change.kinds.map(kind => (
+                    <span key={kind} className={`diff-marker diff-marker-${kind}`}>
+                      {CHANGE_LABELS[kind]}
+                    </span>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="side-panel-footer">
+            <button
+              className="toolbar-button"
+              onClick={onResetBaseline}
+              title="Compare later changes against the league as it is now"
+            >
+              <RotateCcw size={14} />
+              <span>Mark as Reviewed</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ChangesPanel;
@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { TreeItemIndex } from 'react-complex-tree';
+import { LeagueState } from './leagueStore';
+import { PaletteCommand, goToCommands, rankCommands, resolveRecentCommand } from './palette';
+
+interface CommandPaletteProps {
+  state: LeagueState;
+  commands: PaletteCommand[];
+  recent: string[];
+  onGoTo: (itemId: TreeItemIndex) => void;
+  onRun: (command: PaletteCommand) => void;
+  onClose: () => void;
+}
+
+interface PaletteSection {
+  title: string;
+  commands: PaletteCommand[];
+}
+
+// Finds actions and items by typing part of their name, and runs the one picked
+function CommandPalette({ state, commands, recent, onGoTo, onRun, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const itemResults = useMemo(() => goToCommands(state, query, onGoTo), [state, query, onGoTo]);
+
+  // Before anything is typed, recent commands come first, followed by every action
+  const allSections: PaletteSection[] = query.trim()
+    ? [
+      { title: 'Actions', commands: rankCommands(commands, query) },
+      { title: 'Items', commands: itemResults }
+    ]
+    : [
+      {
+        title: 'Recent',
+        commands: recent
+          .map(id => resolveRecentCommand(id, state, commands, onGoTo))
+          .filter((command): command is PaletteCommand => command !== undefined)
+      },
+      { title: 'Actions', commands }
+    ];
+  const sections = allSections.filter(section => section.commands.length > 0);
+  const results = sections.flatMap(section => section.commands);
+  // Where each section starts among the results
+  const offsets = sections.map((_, i) => sections.slice(0, i).reduce((sum, section) => sum + section.commands.length, 0));
+  const activeIndex = Math.min(active, results.length - 1);
+
+  // Keep the highlighted command in view while moving through the list
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex, query]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (results.length === 0) return;
+      const offset = e.key === 'ArrowDown' ? 1 : -1;
+      setActive((activeIndex + offset + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) onRun(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="edit-modal-backdrop command-palette-backdrop" onMouseDown={onClose}>
+      <div
+        className="command-palette"
+        role="dialog"
+        aria-label="Command palette"
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="command-palette-search">
+          <Search size={16} className="text-secondary" aria-hidden="true" />
+          <input
+            type="text"
+            className="command-palette-input"
+            placeholder="Type an action or the name of a group, e.g. Duplicate or go to Hawks"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActive(0);
+            }}
+            onKeyDown={handleKeyDown}
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-results"
+            aria-activedescendant={results.length > 0 ? `command-palette-option-${activeIndex}` : undefined}
+            autoFocus
+          />
+        </div>
+        <ul id="command-palette-results" className="command-palette-results" role="listbox" ref={listRef}>
+          {sections.map((section, sectionIndex) => (
+            <li key={section.title} role="presentation">
+              <div className="command-palette-section">{section.title}</div>
+              <ul role="group" aria-label={section.title}>
+                {section.commands.map((command, i) => {
+                  const index = offsets[sectionIndex] + i;
+                  return (
+                    <li
+                      key={`${section.title}-${command.id}`}
+                      id={`command-palette-option-${index}`}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      aria-disabled={Boolean(command.disabled)}
+                      className={`command-palette-option ${index === activeIndex ? 'command-palette-option-active' : ''}`}
+                      title={command.disabled ?? undefined}
+                      onMouseMove={() => index !== activeIndex && setActive(index)}
+                      onClick={() => onRun(command)}
+                    >
+                      <span className="command-palette-label">{command.label}</span>
+                      {(command.disabled || command.hint) && (
+                        <span className="command-palette-hint">{command.disabled ?? command.hint}</span>
+                      )}
+                      {command.shortcut && <kbd className="command-palette-shortcut">{command.shortcut}</kbd>}
+                    </li>
+                  );
+                })}
+              </ul>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="side-panel-empty" role="presentation">No actions or groups match.</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default CommandPalette;
@@ -0,0 +1,61 @@
+import { X, AlertTriangle } from 'lucide-react';
+import { LeagueItem, LeagueItems } from './types';
+import { countDescendantsByType, describeCounts } from './trash';
+
+interface ConfirmDeleteModalProps {
+  item: LeagueItem;
+  items: LeagueItems;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Asks for confirmation before deleting an item and everything below it
+function ConfirmDeleteModal({ item, items, onConfirm, onCancel }: ConfirmDeleteModalProps) {
+  const summary = describeCounts(countDescendantsByType(items, item.index));
+
+  return (
+    <div className="edit-modal-backdrop">
+      <div className="edit-modal" role="alertdialog" aria-labelledby="confirm-delete-title">
+        <div className="edit-modal-header">
+          <h2 id="confirm-delete-title">Delete {item.data.type}</h2>
+          <button 
+            className="edit-modal-close" 
+            onClick={onCancel}
+            aria-label="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+        <div className="edit-modal-body">
+          <p className="confirm-delete-message">
+            <AlertTriangle size={18} className="confirm-delete-icon" />
+            <span>
+              Delete <strong>{item.data.name}</strong>
+              {summary ? <> along with {summary}</> : null}?
+            </span>
+          </p>
+          <p className="edit-form-hint">
+            Deleted items are moved to the Trash, where they can be restored.
+          </p>
+        </div>
+        <div className="edit-modal-footer">
+          <button 
+            className="edit-modal-cancel" 
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button 
+            className="edit-modal-save edit-modal-danger" 
+            onClick={onConfirm}
+            autoFocus
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ConfirmDeleteModal;
@@ -0,0 +1,62 @@
+import { X, AlertTriangle } from 'lucide-react';
+import { LeagueItems } from './types';
+import { SeasonTemplate } from './templates';
+import { DRAFT_SEASON } from './seasons';
+import { countDescendantsByType, describeCounts } from './trash';
+
+interface ConfirmTemplateModalProps {
+  template: SeasonTemplate;
+  items: LeagueItems;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Asks for confirmation before a template replaces what is already in the draft season
+function ConfirmTemplateModal({ template, items, onConfirm, onCancel }: ConfirmTemplateModalProps) {
+  const summary = describeCounts(countDescendantsByType(items, DRAFT_SEASON.rootId));
+
+  return (
+    <div className="edit-modal-backdrop">
+      <div className="edit-modal" role="alertdialog" aria-labelledby="confirm-template-title">
+        <div className="edit-modal-header">
+          <h2 id="confirm-template-title">Replace {DRAFT_SEASON.label}</h2>
+          <button
+            className="edit-modal-close"
+            onClick={onCancel}
+            aria-label="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+        <div className="edit-modal-body">
+          <p className="confirm-delete-message">
+            <AlertTriangle size={18} className="confirm-delete-icon" />
+            <span>
+              The {DRAFT_SEASON.label} already has {summary}. Replace all of it with <strong>{template.name}</strong>?
+            </span>
+          </p>
+          <p className="edit-form-hint">
+            Undo brings the replaced groups back.
+          </p>
+        </div>
+        <div className="edit-modal-footer">
+          <button
+            className="edit-modal-cancel"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            className="edit-modal-save edit-modal-danger"
+            onClick={onConfirm}
+            autoFocus
+          >
+            Replace
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ConfirmTemplateModal;
@@ -0,0 +1,97 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface ContextMenuProps {
+  x: number;
+  y: number;
+  label: string;
+  onClose: () => void;
+  children: React.ReactNode;
+}
+
+// Space kept between the menu and the edges of the window
+const VIEWPORT_MARGIN = 8;
+
+// The menu's enabled items, in the order they are shown
+const menuItems = (menu: HTMLElement | null) =>
+  Array.from(menu?.querySelectorAll<HTMLElement>('[role="menuitem"]:not(:disabled)') ?? []);
+
+/**
+ * A menu at a point in the window, kept inside it. Focus moves to the first
+ * item, the arrow keys move between items and Escape or Tab closes it,
+ * putting focus back where it was.
+ */
+function ContextMenu({ x, y, label, onClose, children }: ContextMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ left: x, top: y });
+
+  // Move the menu up or left when it would run past the edge of the window
+  useLayoutEffect(() => {
+    const menu = menuRef.current;
+    if (!menu) return;
+    const { width, height } = menu.getBoundingClientRect();
+    setPosition({
+      left: Math.max(VIEWPORT_MARGIN, Math.min(x, window.innerWidth - width - VIEWPORT_MARGIN)),
+      top: Math.max(VIEWPORT_MARGIN, Math.min(y, window.innerHeight - height - VIEWPORT_MARGIN))
+    });
+  }, [x, y]);
+
+  // Focus the first item, and give focus back once the menu closes unless
+  // the chosen action moved it somewhere else, e.g. into a dialog
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    const menu = menuRef.current;
+    menuItems(menu)[0]?.focus();
+    return () => {
+      const active = document.activeElement;
+      if (!active || active === document.body || menu?.contains(active)) {
+        opener?.focus();
+      }
+    };
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const items = menuItems(menuRef.current);
+    const current = items.indexOf(document.activeElement as HTMLElement);
+    let next: number | null = null;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        next = (current + 1) % items.length;
+        break;
+      case 'ArrowUp':
+        next = (current - 1 + items.length) % items.length;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = items.length - 1;
+        break;
+      case 'Escape':
+      case 'Tab':
+        e.preventDefault();
+        onClose();
+        return;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    items[next]?.focus();
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      className="context-menu fixed z-50"
+      style={position}
+      role="menu"
+      aria-label={label}
+      onKeyDown={handleKeyDown}
+    >
+      {children}
+    </div>
+  );
+}
+
+export default ContextMenu;
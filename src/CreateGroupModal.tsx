@@ -0,0 +1,106 @@
+import { useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { ItemData, ItemFields } from './types';
+import { normalizeFields, validateFields } from './itemSchema';
+import ItemFieldsForm from './ItemFieldsForm';
+import { useModalFocus } from './useModalFocus';
+
+interface CreateGroupModalProps {
+  allowedTypes: ItemData['type'][];
+  onSave: (name: string, type: ItemData['type'], fields: ItemFields) => void;
+  onCancel: () => void;
+  isFirstGroup?: boolean;
+}
+
+// Asks for the name, type and fields of a new top-level group. Like the edit
+// dialog it lives outside App, so re-renders don't reset it.
+function CreateGroupModal({ allowedTypes, onSave, onCancel, isFirstGroup = false }: CreateGroupModalProps) {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<ItemData['type']>(allowedTypes[0] ?? 'Conference');
+  const [fields, setFields] = useState<ItemFields>({});
+  const [showErrors, setShowErrors] = useState(false);
+  const errors = validateFields(type, fields);
+  const modalRef = useRef<HTMLDivElement>(null);
+  useModalFocus(modalRef, onCancel);
+  
+  // Only create the group once every field is valid, otherwise point out the problems
+  const handleSave = () => {
+    if (Object.keys(errors).length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    onSave(name, type, normalizeFields(type, fields));
+  };
+  
+  return (
+    <div className="edit-modal-backdrop">
+      <div className="edit-modal" ref={modalRef} role="dialog" aria-modal="true" aria-labelledby="create-group-title">
+        <div className="edit-modal-header">
+          <h2 id="create-group-title">{isFirstGroup ? 'Create First Group' : 'Create New Group'}</h2>
+          <button 
+            className="edit-modal-close" 
+            onClick={onCancel}
+            aria-label="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+        <div className="edit-modal-body">
+          <div className="edit-form-group">
+            <label htmlFor="group-name">Group Name</label>
+            <input
+              id="group-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="edit-form-input"
+              placeholder="Enter group name"
+              autoFocus
+            />
+          </div>
+          <div className="edit-form-group">
+            <label htmlFor="group-type">Group Type</label>
+            <select
+              id="group-type"
+              value={type}
+              onChange={(e) => setType(e.target.value as ItemData['type'])}
+              className="edit-form-select"
+            >
+              {allowedTypes.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+          <ItemFieldsForm
+            type={type}
+            values={fields}
+            errors={showErrors ? errors : {}}
+            onChange={(key, value) => setFields({ ...fields, [key]: value })}
+          />
+          {isFirstGroup && (
+            <p className="edit-form-hint">
+              Create your first group to get started with organizing your hierarchy.
+            </p>
+          )}
+        </div>
+        <div className="edit-modal-footer">
+          <button 
+            className="edit-modal-cancel" 
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button 
+            className="edit-modal-save" 
+            onClick={handleSave}
+            disabled={!name.trim()}
+          >
+            Create Group
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CreateGroupModal;
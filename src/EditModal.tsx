@@ -0,0 +1,103 @@
+import { useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { ItemData, ItemFields, LeagueItem } from './types';
+import { normalizeFields, validateFields } from './itemSchema';
+import ItemFieldsForm from './ItemFieldsForm';
+import { useModalFocus } from './useModalFocus';
+
+interface EditModalProps {
+  item: LeagueItem;
+  allowedTypes: ItemData['type'][];
+  // Why the item's current type no longer fits where it is, if it doesn't
+  placementProblem: string | null;
+  onSave: (name: string, type: ItemData['type'], fields: ItemFields) => void;
+  onCancel: () => void;
+}
+
+// Edits the name, type and fields of an item. It lives outside App so
+// re-renders (such as live edits from others) don't throw away what was typed.
+function EditModal({ item, allowedTypes, placementProblem, onSave, onCancel }: EditModalProps) {
+  const [name, setName] = useState(item.data.name);
+  const [type, setType] = useState<ItemData['type']>(item.data.type);
+  const [fields, setFields] = useState<ItemFields>(item.data.fields ?? {});
+  const [showErrors, setShowErrors] = useState(false);
+  const errors = validateFields(type, fields);
+  const modalRef = useRef<HTMLDivElement>(null);
+  useModalFocus(modalRef, onCancel);
+  
+  // Only save once every field is valid, otherwise point out the problems
+  const handleSave = () => {
+    if (Object.keys(errors).length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    onSave(name, type, normalizeFields(type, fields));
+  };
+  
+  return (
+    <div className="edit-modal-backdrop">
+      <div className="edit-modal" ref={modalRef} role="dialog" aria-modal="true" aria-labelledby="edit-group-title">
+        <div className="edit-modal-header">
+          <h2 id="edit-group-title">Edit Group</h2>
+          <button 
+            className="edit-modal-close" 
+            onClick={onCancel}
+            aria-label="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+        <div className="edit-modal-body">
+          <div className="edit-form-group">
+            <label htmlFor="group-name">Group Name</label>
+            <input
+              id="group-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="edit-form-input"
+            />
+          </div>
+          <div className="edit-form-group">
+            <label htmlFor="group-type">Group Type</label>
+            <select
+              id="group-type"
+              value={type}
+              onChange={(e) => setType(e.target.value as ItemData['type'])}
+              className="edit-form-select"
+            >
+              {/* Keep the current type listed even if the hierarchy rules no longer allow it */}
+              {(allowedTypes.includes(item.data.type) ? allowedTypes : [item.data.type, ...allowedTypes]).map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+          {placementProblem && <p className="edit-form-error">{placementProblem}</p>}
+          <ItemFieldsForm
+            type={type}
+            values={fields}
+            errors={showErrors ? errors : {}}
+            onChange={(key, value) => setFields({ ...fields, [key]: value })}
+          />
+        </div>
+        <div className="edit-modal-footer">
+          <button 
+            className="edit-modal-cancel" 
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button 
+            className="edit-modal-save" 
+            onClick={handleSave}
+            disabled={!name.trim()}
+          >
+            Save Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EditModal;
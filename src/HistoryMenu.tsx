@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Undo2, Redo2, History } from 'lucide-react';
+
+interface HistoryMenuProps {
+  undoLabels: string[];
+  redoLabels: string[];
+  onUndo: (steps?: number) => void;
+  onRedo: (steps?: number) => void;
+}
+
+// Undo/redo buttons and a dropdown listing every recorded step
+function HistoryMenu({ undoLabels, redoLabels, onUndo, onRedo }: HistoryMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const jump = (action: () => void) => {
+    action();
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+      <button
+        className="toolbar-button"
+        onClick={() => onUndo()}
+        disabled={undoLabels.length === 0}
+        title={undoLabels.length > 0 ? `Undo ${undoLabels[0]} (Ctrl+Z)` : 'Nothing to undo'}
+        aria-label="Undo"
+      >
+        <Undo2 size={16} />
+      </button>
+      <button
+        className="toolbar-button"
+        onClick={() => onRedo()}
+        disabled={redoLabels.length === 0}
+        title={redoLabels.length > 0 ? `Redo ${redoLabels[0]} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        aria-label="Redo"
+      >
+        <Redo2 size={16} />
+      </button>
+      <div className="relative">
+        <button
+          className="toolbar-button"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={undoLabels.length === 0 && redoLabels.length === 0}
+          aria-haspopup="true"
+          aria-expanded={isOpen}
+          aria-label="History"
+        >
+          <History size={16} />
+          <span>History</span>
+        </button>
+        {isOpen && (
+          <div className="history-menu">
+            {/* Redo entries are listed furthest first so the list reads top-down in time */}
+            {[...redoLabels].reverse().map((label, i) => (
+              <button
+                key={`redo-${i}`}
+                className="history-menu-item history-menu-item-future"
+                onClick={() => jump(() => onRedo(redoLabels.length - i))}
+              >
+                {label}
+              </button>
+            ))}
+            <div className="history-menu-current">Current state</div>
+            {undoLabels.map((label, i) => (
+              <button
+                key={`undo-${i}`}
+                className="history-menu-item"
+                onClick={() => jump(() => onUndo(i + 1))}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default HistoryMenu;
@@ -0,0 +1,175 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  ImportFormat,
+  ImportMode,
+  NestedNode,
+  countNodes,
+  detectFormat,
+  parseImport
+} from './importExport';
+import { describeCounts } from './trash';
+
+interface ImportModalProps {
+  onImport: (nodes: NestedNode[], mode: ImportMode, source: string) => void;
+  onCancel: () => void;
+}
+
+// Number of top-level entries listed in the preview
+const PREVIEW_LIMIT = 10;
+
+// Loads a JSON or CSV file (or pasted text), previews it and reports problems per row
+function ImportModal({ onImport, onCancel }: ImportModalProps) {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  const parsed = useMemo(() => (text.trim() ? parseImport(text, format) : null), [text, format]);
+  const summary = parsed ? describeCounts(countNodes(parsed.nodes)) : '';
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const content = await file.text();
+    setFileName(file.name);
+    setFormat(detectFormat(file.name, content));
+    setText(content);
+  };
+
+  return (
+    <div className="edit-modal-backdrop">
+      <div className="edit-modal import-modal">
+        <div className="edit-modal-header">
+          <h2>Import League</h2>
+          <button 
+            className="edit-modal-close" 
+            onClick={onCancel}
+            aria-label="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+        <div className="edit-modal-body">
+          <div className="edit-form-group">
+            <label htmlFor="import-file">File (JSON or CSV)</label>
+            <input
+              id="import-file"
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={handleFile}
+              className="edit-form-input"
+            />
+          </div>
+          <div className="edit-form-group">
+            <label htmlFor="import-text">Or paste the contents</label>
+            <textarea
+              id="import-text"
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setFileName('');
+                setFormat(detectFormat('', e.target.value));
+              }}
+              className="edit-form-input import-textarea"
+              placeholder={'Night,Division,Team,Player,Path,Type\nMonday,8U,Tigers,,Monday / 8U / Tigers,Team'}
+            />
+          </div>
+          <div className="edit-form-group">
+            <label htmlFor="import-format">Format</label>
+            <select
+              id="import-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ImportFormat)}
+              className="edit-form-select"
+            >
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+            </select>
+          </div>
+          <fieldset className="edit-form-group import-mode">
+            <legend>When importing</legend>
+            <label>
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === 'merge'}
+                onChange={() => setMode('merge')}
+              />
+              Merge into the current league
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === 'replace'}
+                onChange={() => setMode('replace')}
+              />
+              Replace the current league
+            </label>
+          </fieldset>
+
+          {parsed && (
+            <div className="import-preview">
+              <p className="import-preview-summary">
+                {parsed.nodes.length > 0
+                  ? `Ready to import ${summary}.`
+                  : 'Nothing to import.'}
+              </p>
+              {parsed.nodes.length > 0 && (
+                <ul className="import-preview-list">
+                  {parsed.nodes.slice(0, PREVIEW_LIMIT).map((node, i) => (
+                    <li key={i}>
+                      <strong>{node.name}</strong> <span className="text-secondary">{node.type}</span>
+                      {node.children && node.children.length > 0 && (
+                        <span className="text-secondary"> · {describeCounts(countNodes(node.children))}</span>
+                      )}
+                    </li>
+                  ))}
+                  {parsed.nodes.length > PREVIEW_LIMIT && (
+                    <li className="text-secondary">…and {parsed.nodes.length - PREVIEW_LIMIT} more</li>
+                  )}
+                </ul>
+              )}
+              {parsed.errors.length > 0 && (
+                <table className="import-errors">
+                  <thead>
+                    <tr>
+                      <th>{format === 'csv' ? 'Row' : 'Item'}</th>
+                      <th>Problem (skipped)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {parsed.errors.map((error, i) => (
+                      <tr key={i}>
+                        <td>{error.row}</td>
+                        <td>{error.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="edit-modal-footer">
+          <button 
+            className="edit-modal-cancel" 
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button 
+            className="edit-modal-save" 
+            onClick={() => parsed && onImport(parsed.nodes, mode, fileName || `pasted ${format.toUpperCase()}`)}
+            disabled={!parsed || parsed.nodes.length === 0}
+          >
+            {mode === 'replace' ? 'Replace League' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ImportModal;
@@ -0,0 +1,66 @@
+import { FieldValue, ItemData, ItemFields } from './types';
+import { FieldDefinition, ITEM_SCHEMAS } from './itemSchema';
+
+interface ItemFieldsFormProps {
+  type: ItemData['type'];
+  values: ItemFields;
+  errors: Record<string, string>;
+  onChange: (key: string, value: FieldValue) => void;
+}
+
+// Renders the inputs for the fields of an item type, as described by its schema
+function ItemFieldsForm({ type, values, errors, onChange }: ItemFieldsFormProps) {
+  const renderInput = (field: FieldDefinition) => {
+    const id = `item-field-${field.key}`;
+    const value = values[field.key] ?? '';
+
+    if (field.kind === 'select') {
+      return (
+        <select
+          id={id}
+          value={String(value)}
+          onChange={(e) => onChange(field.key, e.target.value)}
+          className="edit-form-select"
+        >
+          <option value="">Select…</option>
+          {field.options?.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        id={id}
+        type={field.kind}
+        value={field.kind === 'color' ? String(value || '#0D4774') : String(value)}
+        onChange={(e) => onChange(field.key, e.target.value)}
+        className={`edit-form-input ${field.kind === 'color' ? 'edit-form-color' : ''}`}
+        placeholder={field.placeholder}
+        min={field.min}
+        max={field.max}
+        aria-invalid={Boolean(errors[field.key])}
+      />
+    );
+  };
+
+  return (
+    <>
+      {ITEM_SCHEMAS[type].map(field => (
+        <div className="edit-form-group" key={field.key}>
+          <label htmlFor={`item-field-${field.key}`}>
+            {field.label}
+            {field.required && <span className="edit-form-required"> *</span>}
+          </label>
+          {renderInput(field)}
+          {errors[field.key] && (
+            <p className="edit-form-field-error">{errors[field.key]}</p>
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
+
+export default ItemFieldsForm;
@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { ApiError } from './leagueApi';
+import { MockLeagueApi } from './mockLeagueApi';
+import { LeagueDataProvider, LeagueDataProviderHandlers } from './LeagueDataProvider';
+
+const item = (index: string, type: ItemData['type'], children?: string[]): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name: index, type }
+});
+
+const league = (): LeagueItems => ({
+  root: item('root', 'Conference', ['monday', 'friday']),
+  monday: item('monday', 'Conference', ['8u']),
+  '8u': item('8u', 'Division', ['tigers', 'hawks']),
+  tigers: item('tigers', 'Team'),
+  hawks: item('hawks', 'Team'),
+  friday: item('friday', 'Conference', [])
+});
+
+// A service that turns down every change to the children of one item
+class RejectingApi extends MockLeagueApi {
+  constructor(private readonly rejectedParentId: TreeItemIndex) {
+    super(league(), { latency: 0 });
+  }
+
+  public async setChildren(parentId: TreeItemIndex, children: TreeItemIndex[]): Promise<void> {
+    if (parentId === this.rejectedParentId) throw new ApiError(409, 'Conflict');
+    return super.setChildren(parentId, children);
+  }
+}
+
+// Friday is listed first, so the service is asked to change its children before 8U's
+const moveTigersToFriday = ({ friday, '8u': eightU, ...rest }: LeagueItems): LeagueItems => ({
+  ...rest,
+  friday: { ...friday, children: ['tigers'] },
+  '8u': { ...eightU, children: ['hawks'] }
+});
+
+const setup = async (api: MockLeagueApi) => {
+  const handlers: LeagueDataProviderHandlers = {
+    onRenameItem: vi.fn(),
+    onChangeChildren: vi.fn(),
+    onSyncFailed: vi.fn(),
+    onReloaded: vi.fn()
+  };
+  let items: LeagueItems = {};
+  handlers.onItemsLoaded = loaded => {
+    items = { ...loaded, ...items };
+  };
+  const provider = new LeagueDataProvider({}, handlers, api);
+  await provider.loadRoot();
+  return { provider, handlers, loaded: () => items };
+};
+
+describe('LeagueDataProvider', () => {
+  it('loads everything below an item', async () => {
+    const { provider, loaded } = await setup(new MockLeagueApi(league(), { latency: 0 }));
+    expect(Object.keys(loaded())).toEqual(['root']);
+
+    await provider.loadSubtree('root');
+    expect(loaded()).toEqual(league());
+  });
+
+  it('rolls back a change the service turns down outright', async () => {
+    const { provider, handlers, loaded } = await setup(new RejectingApi('friday'));
+    await provider.loadSubtree('root');
+    const before = loaded();
+    const after = moveTigersToFriday(before);
+
+    provider.setItems(after);
+    await vi.waitFor(() => expect(handlers.onSyncFailed).toHaveBeenCalledWith(before, after, 'Conflict'));
+    expect(handlers.onReloaded).not.toHaveBeenCalled();
+  });
+
+  it('reloads from the service when it accepted only part of a change', async () => {
+    const { provider, handlers, loaded } = await setup(new RejectingApi('8u'));
+    await provider.loadSubtree('root');
+    const before = loaded();
+    // Friday gets Tigers, then taking it out of 8U fails
+    const after = moveTigersToFriday(before);
+
+    provider.setItems(after);
+    await vi.waitFor(() => expect(handlers.onReloaded).toHaveBeenCalled());
+    expect(handlers.onSyncFailed).not.toHaveBeenCalled();
+    expect(handlers.onReloaded).toHaveBeenCalledWith(
+      { ...before, friday: { ...before.friday, isFolder: true, children: ['tigers'] } },
+      'Conflict'
+    );
+  });
+});
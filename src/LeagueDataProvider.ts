@@ -0,0 +1,325 @@
+import { Disposable, TreeDataProvider, TreeItem, TreeItemIndex } from 'react-complex-tree';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { LeagueApi, planRequests, sendRequest } from './leagueApi';
+import { collectSubtree, createLeagueState, revertChanges } from './leagueStore';
+
+export interface LeagueDataProviderHandlers {
+  // Called when the tree renames an item
+  onRenameItem: (item: LeagueItem, name: string) => void;
+  // Called once per drop with the new children of every parent it touched and
+  // the items as they were before the drop
+  onChangeChildren: (changes: Record<TreeItemIndex, TreeItemIndex[]>, previousItems: LeagueItems) => void;
+  // Called with items fetched from the league service
+  onItemsLoaded?: (items: LeagueItems) => void;
+  // Called when the service rejected the change from `before` to `after`,
+  // which has to be rolled back in the store
+  onSyncFailed?: (before: LeagueItems, after: LeagueItems, message: string) => void;
+  // Called with the items as the service has them after it rejected part of a
+  // change, which replace the store's items
+  onReloaded?: (items: LeagueItems, message: string) => void;
+}
+
+// What the tree shows next to an item while talking to the league service
+export interface ItemStatus {
+  loading?: boolean;
+  loadError?: string;
+  saveError?: string;
+}
+
+type ChangeListener = (changedItemIds: TreeItemIndex[]) => void;
+type StatusListener = (status: Record<TreeItemIndex, ItemStatus>) => void;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * A data provider that lives for the whole lifetime of the tree. It serves the
+ * store's current items and, when the store changes, tells the tree about the
+ * items that actually changed instead of every item. Renames and drops made
+ * in the tree are handed to the store through `handlers`; the provider never
+ * modifies its items itself and only sees the result through `setItems`.
+ *
+ * With an `api` the items come from the league service instead: children are
+ * fetched the first time the tree asks for them, and every store change is
+ * sent to the service after it has already been applied locally. Changes the
+ * service rejects outright are rolled back through `handlers.onSyncFailed`.
+ * When it rejects a change part way through, the loaded items are fetched
+ * again and handed over through `handlers.onReloaded`, since rolling back
+ * locally would leave the service with the part it accepted.
+ *
+ * The tree can also be narrowed to a set of visible items (for filtering
+ * search results). That only changes the children the tree is given, never
+ * the items themselves.
+ */
+export class LeagueDataProvider implements TreeDataProvider<ItemData> {
+  private items: LeagueItems;
+  private readonly handlers: LeagueDataProviderHandlers;
+  private readonly api: LeagueApi | null;
+  private readonly listeners = new Set<ChangeListener>();
+  private readonly statusListeners = new Set<StatusListener>();
+  private status: Record<TreeItemIndex, ItemStatus> = {};
+  private visibleItems: Set<TreeItemIndex> | null = null;
+  private readonly loading = new Map<TreeItemIndex, Promise<LeagueItem[]>>();
+  // Requests are sent one change at a time, in the order the changes were made
+  private syncQueue: Promise<void> = Promise.resolve();
+  private pendingChildren: Record<TreeItemIndex, TreeItemIndex[]> | null = null;
+  private pendingFlush: Promise<void> | null = null;
+
+  constructor(items: LeagueItems, handlers: LeagueDataProviderHandlers, api: LeagueApi | null = null) {
+    this.items = items;
+    this.handlers = handlers;
+    this.api = api;
+  }
+
+  /**
+   * Switch to a new version of the items, notifying the tree of every item
+   * that was added or replaced. The store never mutates items in place, so a
+   * changed item is always a different object.
+   */
+  public setItems(items: LeagueItems) {
+    const previous = this.items;
+    this.items = items;
+
+    const changedIds = Object.keys(items).filter(id => items[id] !== previous[id]);
+    if (changedIds.length > 0) {
+      this.emit(changedIds);
+      this.sync(previous, items);
+    }
+  }
+
+  // Only show the given items in the tree, or every item again for null
+  public setVisibleItems(visibleItems: Set<TreeItemIndex> | null) {
+    if (visibleItems === this.visibleItems) return;
+    this.visibleItems = visibleItems;
+    this.emit(Object.keys(this.items).filter(id => this.items[id].children?.length));
+  }
+
+  public onDidChangeTreeData(listener: ChangeListener): Disposable {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  }
+
+  public onDidChangeStatus(listener: StatusListener): Disposable {
+    this.statusListeners.add(listener);
+    return { dispose: () => this.statusListeners.delete(listener) };
+  }
+
+  public async getTreeItem(itemId: TreeItemIndex): Promise<TreeItem<ItemData>> {
+    const [item] = await this.getTreeItems([itemId]);
+    return item;
+  }
+
+  public async getTreeItems(itemIds: TreeItemIndex[]): Promise<TreeItem<ItemData>[]> {
+    const missing = itemIds.filter(id => !this.items[id]);
+    if (this.api && missing.length > 0) {
+      // Fetch the children of every parent that lists a missing item, unless
+      // loading them already failed (that is retried from the tree instead)
+      const parentIds = Object.keys(this.items).filter(parentId =>
+        !this.status[parentId]?.loadError &&
+        this.items[parentId].children?.some(id => missing.includes(id))
+      );
+      await Promise.all(parentIds.map(parentId => this.loadChildren(parentId).catch(() => [])));
+    }
+    return itemIds
+      .map(id => this.items[id])
+      .filter(Boolean)
+      .map(item => this.withVisibleChildren(item));
+  }
+
+  // Fetch the root item from the league service
+  public async loadRoot(): Promise<void> {
+    if (!this.api) return;
+
+    this.setStatus('root', { loading: true });
+    try {
+      const root = await this.api.fetchItem('root');
+      this.addLoadedItems([root]);
+      this.setStatus('root', null);
+    } catch (error) {
+      this.setStatus('root', { loadError: errorMessage(error) });
+      throw error;
+    }
+  }
+
+  // Fetch the children of an item from the league service
+  public loadChildren(parentId: TreeItemIndex): Promise<LeagueItem[]> {
+    const inFlight = this.loading.get(parentId);
+    if (inFlight) return inFlight;
+    if (!this.api) return Promise.resolve([]);
+
+    this.setStatus(parentId, { loading: true });
+    const request = this.api.fetchChildren(parentId)
+      .then(children => {
+        this.addLoadedItems(children);
+        this.setStatus(parentId, null);
+        return children;
+      })
+      .catch(error => {
+        this.setStatus(parentId, { loadError: `Couldn't load children: ${errorMessage(error)}` });
+        throw error;
+      })
+      .finally(() => this.loading.delete(parentId));
+
+    this.loading.set(parentId, request);
+    return request;
+  }
+
+  // Fetch everything below an item that hasn't been loaded yet, one level at a time
+  public async loadSubtree(itemId: TreeItemIndex): Promise<void> {
+    if (!this.api) return;
+
+    // Each parent is asked once, in case the service leaves out a child it lists
+    const fetched = new Set<TreeItemIndex>();
+    for (;;) {
+      const parentIds = collectSubtree(this.items, itemId).filter(id =>
+        !fetched.has(id) && this.items[id].children?.some(childId => !this.items[childId])
+      );
+      if (parentIds.length === 0) return;
+      parentIds.forEach(parentId => fetched.add(parentId));
+      await Promise.all(parentIds.map(parentId => this.loadChildren(parentId)));
+    }
+  }
+
+  public dismissError(itemId: TreeItemIndex) {
+    this.setStatus(itemId, null);
+  }
+
+  public async onRenameItem(item: TreeItem<ItemData>, name: string): Promise<void> {
+    this.handlers.onRenameItem(item as LeagueItem, name);
+  }
+
+  /**
+   * The tree reports a drop as one call per affected parent, all made in the
+   * same tick. They are collected and handed on together so that the store
+   * records the drop as a single change.
+   */
+  public onChangeItemChildren(itemId: TreeItemIndex, newChildren: TreeItemIndex[]): Promise<void> {
+    const pending = this.pendingChildren ?? {};
+    const earlier = pending[itemId];
+    const current = this.items[itemId]?.children ?? [];
+
+    // Moving several items out of one parent arrives as one call per item,
+    // each removing just that item, so keep the removals of earlier calls
+    pending[itemId] = earlier
+      ? newChildren.filter(id => earlier.includes(id) || !current.includes(id))
+      : newChildren;
+    this.pendingChildren = pending;
+
+    if (!this.pendingFlush) {
+      this.pendingFlush = Promise.resolve().then(() => this.flushChildren());
+    }
+    return this.pendingFlush;
+  }
+
+  private flushChildren() {
+    const changes = this.pendingChildren ?? {};
+    this.pendingChildren = null;
+    this.pendingFlush = null;
+    this.handlers.onChangeChildren(changes, this.items);
+  }
+
+  // Items the service already has are added here first, so that they aren't
+  // sent back to it when the store catches up through setItems
+  private addLoadedItems(loaded: LeagueItem[]) {
+    const items: LeagueItems = {};
+    loaded.forEach(item => {
+      items[item.index] = this.items[item.index] ?? item;
+    });
+
+    this.items = { ...this.items, ...items };
+    this.emit(Object.keys(items));
+    this.handlers.onItemsLoaded?.(items);
+  }
+
+  // Send the change from `before` to `after` to the league service
+  private sync(before: LeagueItems, after: LeagueItems) {
+    const api = this.api;
+    if (!api) return;
+
+    const requests = planRequests(before, after);
+    if (requests.length === 0) return;
+
+    this.syncQueue = this.syncQueue.then(async () => {
+      let sent = 0;
+      try {
+        for (const request of requests) {
+          await sendRequest(api, request);
+          sent++;
+        }
+      } catch (error) {
+        if (sent === 0) {
+          this.rollback(before, after, errorMessage(error));
+        } else {
+          await this.reload(api, before, after, errorMessage(error));
+        }
+      }
+    });
+  }
+
+  // Replace the items with the service's after it accepted only part of a
+  // change. Falls back to a local rollback when they can't be fetched.
+  private async reload(api: LeagueApi, before: LeagueItems, after: LeagueItems, message: string) {
+    let reloaded: LeagueItems;
+    try {
+      reloaded = await this.fetchLoaded(api);
+    } catch {
+      this.rollback(before, after, message);
+      return;
+    }
+
+    // Switch first so the store's matching update isn't sent again
+    const changedIds = [...new Set([...Object.keys(this.items), ...Object.keys(reloaded)])];
+    this.items = reloaded;
+    this.emit(changedIds);
+    this.handlers.onReloaded?.(reloaded, message);
+  }
+
+  // Fetch the root again and the children of every item whose children had been loaded
+  private async fetchLoaded(api: LeagueApi): Promise<LeagueItems> {
+    const root = await api.fetchItem('root');
+    const items: LeagueItems = { root };
+    let parents = [root];
+    while (parents.length > 0) {
+      const loadedParents = parents.filter(parent => parent.children?.some(childId => this.items[childId]));
+      const children = (await Promise.all(loadedParents.map(parent => api.fetchChildren(parent.index)))).flat();
+      children.forEach(child => {
+        items[child.index] = child;
+      });
+      parents = children;
+    }
+    return items;
+  }
+
+  // Undo a rejected change locally and flag the items it touched
+  private rollback(before: LeagueItems, after: LeagueItems, message: string) {
+    const reverted = revertChanges(createLeagueState(this.items), before, after).items;
+    const changedIds = Object.keys(reverted).filter(id => reverted[id] !== this.items[id]);
+
+    // Switch first so the store's matching update isn't sent again
+    this.items = reverted;
+    this.emit(changedIds);
+    changedIds.forEach(id => this.setStatus(id, { saveError: `Change rolled back: ${message}` }));
+    this.handlers.onSyncFailed?.(before, after, message);
+  }
+
+  // The item as the tree should see it, without children that are filtered out
+  private withVisibleChildren(item: LeagueItem): LeagueItem {
+    const visible = this.visibleItems;
+    if (!visible || !item.children) return item;
+    return { ...item, children: item.children.filter(id => visible.has(id)) };
+  }
+
+  private setStatus(itemId: TreeItemIndex, status: ItemStatus | null) {
+    const next = { ...this.status };
+    if (status) {
+      next[itemId] = status;
+    } else {
+      delete next[itemId];
+    }
+    this.status = next;
+    this.statusListeners.forEach(listener => listener(next));
+  }
+
+  private emit(changedItemIds: TreeItemIndex[]) {
+    this.listeners.forEach(listener => listener(changedItemIds));
+  }
+}
@@ -0,0 +1,74 @@
+import { useMemo, useState } from 'react';
+import { Copy, ExternalLink, X } from 'lucide-react';
+import { LeagueItems } from './types';
+import { CURRENT_SEASON } from './seasons';
+import { PUBLISH_LINK_WARN_LENGTH, createPublishLink } from './publish';
+import { countDescendantsByType, describeCounts } from './trash';
+
+interface PublishPanelProps {
+  items: LeagueItems;
+  onClose: () => void;
+}
+
+// Makes a read-only link to the current season for parents
+function PublishPanel({ items, onClose }: PublishPanelProps) {
+  const [copied, setCopied] = useState(false);
+
+  // The link holds the league as it is now, so it follows edits while the panel is open
+  const link = useMemo(() => createPublishLink(items, window.location.href), [items]);
+  const summary = describeCounts(countDescendantsByType(items, CURRENT_SEASON.rootId));
+
+  const handleCopy = () => {
+    navigator.clipboard?.writeText(link).then(() => setCopied(true), () => setCopied(false));
+  };
+
+  return (
+    <div className="side-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Publish</h2>
+        <button
+          className="edit-modal-close"
+          onClick={onClose}
+          aria-label="Close publish"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      <div className="template-form">
+        <p className="text-secondary side-panel-meta">
+          Anyone with this link sees the current season ({summary || 'empty'}) read-only, with its schedule.
+          The draft season, coach details and birthdates aren't included. Publish again after making changes.
+        </p>
+        <div className="edit-form-group">
+          <label htmlFor="publish-link">Viewer Link</label>
+          <input
+            id="publish-link"
+            type="text"
+            className="edit-form-input"
+            value={link}
+            readOnly
+            onFocus={(e) => e.target.select()}
+          />
+        </div>
+        {link.length > PUBLISH_LINK_WARN_LENGTH && (
+          <p className="edit-form-error">
+            This link is {link.length.toLocaleString()} characters long, since the league travels inside it.
+            Some email and chat apps cut off links this long, so open it once after sending it.
+          </p>
+        )}
+        <div className="publish-actions">
+          <button className="toolbar-button" onClick={handleCopy}>
+            <Copy size={14} />
+            <span>{copied ? 'Copied' : 'Copy Link'}</span>
+          </button>
+          <a className="toolbar-button" href={link} target="_blank" rel="noreferrer">
+            <ExternalLink size={14} />
+            <span>Open Viewer</span>
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PublishPanel;
@@ -0,0 +1,59 @@
+import { LeagueItems } from './types';
+import { isSeasonRoot } from './seasons';
+import { Grant, ROLES, ROLE_LABELS, Role, SCOPE_TYPES } from './permissions';
+
+interface RolePickerProps {
+  grant: Grant;
+  items: LeagueItems;
+  onChange: (grant: Grant) => void;
+}
+
+// Picks the role to act in and, for scoped roles, the part of the league it covers
+function RolePicker({ grant, items, onChange }: RolePickerProps) {
+  // The items a role can be given, e.g. every Team for a coach
+  const scopeOptionsFor = (role: Role) =>
+    Object.values(items).filter(item => item.data.type === SCOPE_TYPES[role] && !isSeasonRoot(item.index));
+
+  const scopeType = SCOPE_TYPES[grant.role];
+  const scopeOptions = scopeOptionsFor(grant.role);
+
+  const handleRoleChange = (role: Role) => {
+    // Scopes of one role don't carry over to another, e.g. a Conference to a coach
+    const options = scopeOptionsFor(role);
+    onChange({ role, scope: options.length > 0 ? [options[0].index] : [] });
+  };
+
+  return (
+    <div className="role-picker" onClick={(e) => e.stopPropagation()}>
+      <label htmlFor="role-select">Acting as</label>
+      <select
+        id="role-select"
+        className="edit-form-select"
+        value={grant.role}
+        onChange={(e) => handleRoleChange(e.target.value as Role)}
+      >
+        {ROLES.map(role => (
+          <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+        ))}
+      </select>
+      {scopeType && (
+        <select
+          className="edit-form-select"
+          aria-label={`${scopeType} to look after`}
+          value={String(grant.scope[0] ?? '')}
+          onChange={(e) => onChange({ ...grant, scope: [e.target.value] })}
+        >
+          {scopeOptions.length === 0 && <option value="">No {scopeType}s</option>}
+          {scopeOptions.map(item => (
+            <option key={item.index} value={String(item.index)}>{item.data.name}</option>
+          ))}
+        </select>
+      )}
+      <span className="role-picker-note" title="Anyone can pick any role here, and the league service doesn't check them">
+        Roles aren't enforced
+      </span>
+    </div>
+  );
+}
+
+export default RolePicker;
@@ -0,0 +1,147 @@
+import { useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { LeagueItems } from './types';
+import { downloadFile } from './importExport';
+import { exportScheduleCsv, exportScheduleIcs, generateSchedule } from './schedule';
+
+const MAX_WEEKS = 52;
+
+interface SchedulePanelProps {
+  items: LeagueItems;
+  onClose: () => void;
+}
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Shows "2026-10-19" as "Mon, Oct 19"
+const formatGameDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+// Generates a round-robin season for every Division and exports it
+function SchedulePanel({ items, onClose }: SchedulePanelProps) {
+  const [startDate, setStartDate] = useState(today);
+  const [weeks, setWeeks] = useState('10');
+
+  const weekCount = Number(weeks);
+  const weeksError = Number.isInteger(weekCount) && weekCount >= 1 && weekCount <= MAX_WEEKS
+    ? null
+    : `Weeks must be a whole number from 1 to ${MAX_WEEKS}`;
+  const dateError = startDate ? null : 'Pick the first day of the season';
+
+  // The schedule follows the tree, so it is rebuilt whenever the league changes
+  const schedule = useMemo(
+    () => (weeksError || dateError ? [] : generateSchedule(items, { startDate, weeks: weekCount })),
+    [items, startDate, weekCount, weeksError, dateError]
+  );
+  const gameCount = schedule.reduce((count, division) => count + division.fixtures.length, 0);
+
+  return (
+    <div className="side-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Schedule</h2>
+        <button
+          className="edit-modal-close"
+          onClick={onClose}
+          aria-label="Close schedule"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      <div className="schedule-options">
+        <div className="edit-form-group">
+          <label htmlFor="schedule-start">Season Starts</label>
+          <input
+            id="schedule-start"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="edit-form-input"
+            aria-invalid={Boolean(dateError)}
+          />
+          {dateError && <p className="edit-form-field-error">{dateError}</p>}
+        </div>
+        <div className="edit-form-group">
+          <label htmlFor="schedule-weeks">Weeks</label>
+          <input
+            id="schedule-weeks"
+            type="number"
+            min={1}
+            max={MAX_WEEKS}
+            value={weeks}
+            onChange={(e) => setWeeks(e.target.value)}
+            className="edit-form-input"
+            aria-invalid={Boolean(weeksError)}
+          />
+          {weeksError && <p className="edit-form-field-error">{weeksError}</p>}
+        </div>
+      </div>
+      {schedule.length === 0 ? (
+        <p className="side-panel-empty">There are no Divisions to schedule.</p>
+      ) : (
+        <>
+          <ul className="side-panel-list">
+            {schedule.map(division => (
+              <li key={String(division.divisionId)} className="schedule-division">
+                <span className="font-semibold">{division.night} · {division.division}</span>
+                {division.note ? (
+                  <span className="text-secondary side-panel-meta">{division.note}</span>
+                ) : (
+                  <ol className="schedule-weeks">
+                    {Array.from({ length: weekCount }, (_, index) => index + 1).map(week => {
+                      const fixtures = division.fixtures.filter(fixture => fixture.week === week);
+                      const byes = division.byes.filter(bye => bye.week === week);
+                      const date = fixtures[0]?.date ?? byes[0]?.date;
+
+                      return (
+                        <li key={week} className="schedule-week">
+                          <span className="text-secondary side-panel-meta">
+                            Week {week}{date && ` · ${formatGameDate(date)}`}
+                          </span>
+                          {fixtures.map(fixture => (
+                            <span key={`${fixture.home}-${fixture.away}`}>
+                              {fixture.home} vs {fixture.away}
+                            </span>
+                          ))}
+                          {byes.map(bye => (
+                            <span key={bye.team} className="text-secondary">
+                              {bye.team}: bye
+                            </span>
+                          ))}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="side-panel-footer">
+            <button
+              className="toolbar-button"
+              onClick={() => downloadFile('league-schedule.ics', exportScheduleIcs(schedule), 'text/calendar')}
+              disabled={gameCount === 0}
+            >
+              <Download size={14} />
+              <span>Export iCalendar</span>
+            </button>
+            <button
+              className="toolbar-button"
+              onClick={() => downloadFile('league-schedule.csv', exportScheduleCsv(schedule), 'text/csv')}
+              disabled={gameCount === 0}
+            >
+              <Download size={14} />
+              <span>Export CSV</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default SchedulePanel;
@@ -0,0 +1,105 @@
+import { RefObject } from 'react';
+import { Search, X, ChevronUp, ChevronDown, Filter } from 'lucide-react';
+import { TreeSearch } from './useTreeSearch';
+
+interface SearchBarProps {
+  search: TreeSearch;
+  placeholder: string;
+  inputRef?: RefObject<HTMLInputElement>;
+}
+
+// The search input of one tree, with match navigation and the filter toggle
+function SearchBar({ search, placeholder, inputRef }: SearchBarProps) {
+  const {
+    searchTerm,
+    searchQuery,
+    filterMode,
+    setFilterMode,
+    keepMatchSubtrees,
+    setKeepMatchSubtrees,
+    matchCount,
+    currentMatch,
+    goToMatch,
+    handleSearch,
+    handleSearchKeyDown,
+    clearSearch
+  } = search;
+
+  return (
+    <div className="relative mb-6 search-container">
+      <div className="search-bar">
+        <div className="search-field">
+          <input
+            ref={inputRef}
+            type="text"
+            placeholder={placeholder}
+            title={'Filter with name:, type:, night: and division:, quote values with spaces ("12U Red"), exclude with -, combine with OR and add ~ for fuzzy matching'}
+            className="search-input w-full"
+            value={searchTerm}
+            onChange={handleSearch}
+            onKeyDown={handleSearchKeyDown}
+          />
+          {searchTerm ? (
+            <div
+              className="absolute right-4 top-1/2 -translate-y-1/2 cursor-pointer"
+              onClick={clearSearch}
+              aria-label="Clear search"
+              role="button"
+              tabIndex={0}
+            >
+              <X className="w-4 h-4 text-gray-400" />
+            </div>
+          ) : (
+            <Search className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 w-4 h-4" />
+          )}
+        </div>
+        {searchQuery && (
+          <div className="search-navigation">
+            <span className="search-match-count">
+              {matchCount > 0 ? `${currentMatch + 1} of ${matchCount}` : 'No matches'}
+            </span>
+            <button
+              className="toolbar-button"
+              onClick={() => goToMatch(-1)}
+              disabled={matchCount === 0}
+              aria-label="Previous match"
+              title="Previous match (Shift+Enter)"
+            >
+              <ChevronUp size={16} />
+            </button>
+            <button
+              className="toolbar-button"
+              onClick={() => goToMatch(1)}
+              disabled={matchCount === 0}
+              aria-label="Next match"
+              title="Next match (Enter)"
+            >
+              <ChevronDown size={16} />
+            </button>
+          </div>
+        )}
+        <button
+          className={`toolbar-button ${filterMode ? 'toolbar-button-active' : ''}`}
+          onClick={() => setFilterMode(!filterMode)}
+          aria-pressed={filterMode}
+          title="Only show matches and the groups that contain them"
+        >
+          <Filter size={16} />
+          Filter
+        </button>
+      </div>
+      {filterMode && (
+        <label className="search-option">
+          <input
+            type="checkbox"
+            checked={keepMatchSubtrees}
+            onChange={(e) => setKeepMatchSubtrees(e.target.checked)}
+          />
+          Also show everything inside matching groups
+        </label>
+      )}
+    </div>
+  );
+}
+
+export default SearchBar;
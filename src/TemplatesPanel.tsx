@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { TreeItemIndex } from 'react-complex-tree';
+import { CopyPlus, Save, Trash2, X } from 'lucide-react';
+import { SeasonPane } from './seasons';
+import { SeasonTemplate, TEAM_HANDLING_LABELS, TeamHandling } from './templates';
+import { countDescendantsByType, describeCounts } from './trash';
+
+interface TemplatesPanelProps {
+  templates: SeasonTemplate[];
+  // The seasons that can be saved as a template
+  seasons: SeasonPane[];
+  onSave: (name: string, seasonRootId: TreeItemIndex, teams: TeamHandling) => void;
+  onApply: (template: SeasonTemplate) => void;
+  onDelete: (template: SeasonTemplate) => void;
+  onClose: () => void;
+}
+
+// Counts everything in a template, e.g. "3 Conferences and 18 Divisions"
+const describeTemplate = (template: SeasonTemplate) => {
+  const counts = { Conference: 0, Division: 0, Team: 0, Player: 0 };
+  template.rootIds.forEach(rootId => {
+    const inside = countDescendantsByType(template.items, rootId);
+    counts[template.items[rootId].data.type] += 1;
+    (Object.keys(counts) as (keyof typeof counts)[]).forEach(type => {
+      counts[type] += inside[type];
+    });
+  });
+  return describeCounts(counts) || 'Empty';
+};
+
+// Saves a season's structure as a template and starts new seasons from saved ones
+function TemplatesPanel({ templates, seasons, onSave, onApply, onDelete, onClose }: TemplatesPanelProps) {
+  const [name, setName] = useState('');
+  const [seasonIndex, setSeasonIndex] = useState(0);
+  const [teams, setTeams] = useState<TeamHandling>('strip');
+
+  const season = seasons[Math.min(seasonIndex, seasons.length - 1)];
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(name.trim(), season.rootId, teams);
+    setName('');
+  };
+
+  return (
+    <div className="side-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Season Templates</h2>
+        <button
+          className="edit-modal-close"
+          onClick={onClose}
+          aria-label="Close templates"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      <form className="template-form" onSubmit={handleSave}>
+        <div className="edit-form-group">
+          <label htmlFor="template-name">Template Name</label>
+          <input
+            id="template-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="edit-form-input"
+            placeholder="e.g. Weeknight League"
+          />
+        </div>
+        {seasons.length > 1 && (
+          <div className="edit-form-group">
+            <label htmlFor="template-season">Season</label>
+            <select
+              id="template-season"
+              value={seasonIndex}
+              onChange={(e) => setSeasonIndex(Number(e.target.value))}
+              className="edit-form-select"
+            >
+              {seasons.map((pane, index) => (
+                <option key={pane.treeId} value={index}>{pane.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="edit-form-group">
+          <label htmlFor="template-teams">Teams</label>
+          <select
+            id="template-teams"
+            value={teams}
+            onChange={(e) => setTeams(e.target.value as TeamHandling)}
+            className="edit-form-select"
+          >
+            {(Object.keys(TEAM_HANDLING_LABELS) as TeamHandling[]).map(option => (
+              <option key={option} value={option}>{TEAM_HANDLING_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+        <button type="submit" className="toolbar-button" disabled={!name.trim()}>
+          <Save size={14} />
+          <span>Save {season.label} as Template</span>
+        </button>
+      </form>
+      {templates.length === 0 ? (
+        <p className="side-panel-empty">No templates saved yet.</p>
+      ) : (
+        <>
+          <p className="text-secondary side-panel-meta template-note">
+            A new season from a template replaces what is in the Draft Season.
+          </p>
+          <ul className="side-panel-list">
+            {templates.map(template => (
+              <li key={template.id} className="side-panel-entry">
+                <div className="flex flex-col">
+                  <span className="font-semibold">{template.name}</span>
+                  <span className="text-secondary side-panel-meta">
+                    {describeTemplate(template)}
+                    {' · '}
+                    {new Date(template.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    className="toolbar-button"
+                    onClick={() => onApply(template)}
+                    title="Fill the Draft Season from this template"
+                  >
+                    <CopyPlus size={14} />
+                    <span>New Season</span>
+                  </button>
+                  <button
+                    className="toolbar-button text-red-600"
+                    onClick={() => onDelete(template)}
+                    aria-label={`Delete template ${template.name}`}
+                    title="Delete template"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default TemplatesPanel;
@@ -0,0 +1,92 @@
+import { RotateCcw, Trash2, X } from 'lucide-react';
+import { TrashEntry, countDescendantsByType, describeCounts } from './trash';
+import { LeagueItems } from './types';
+
+interface TrashPanelProps {
+  entries: TrashEntry[];
+  items: LeagueItems;
+  onRestore: (entry: TrashEntry) => void;
+  onPurge: (entry: TrashEntry) => void;
+  onEmpty: () => void;
+  onClose: () => void;
+  // False when the trash isn't saved, so it is emptied on reload
+  saved: boolean;
+}
+
+// Lists deleted subtrees so they can be restored or purged for good
+function TrashPanel({ entries, items, onRestore, onPurge, onEmpty, onClose, saved }: TrashPanelProps) {
+  return (
+    <div className="side-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Trash</h2>
+        <button 
+          className="edit-modal-close" 
+          onClick={onClose}
+          aria-label="Close trash"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      {entries.length === 0 ? (
+        <p className="side-panel-empty">The trash is empty.</p>
+      ) : (
+        <>
+          {!saved && (
+            <p className="text-secondary side-panel-meta trash-note">
+              The trash is emptied when the page reloads.
+            </p>
+          )}
+          <ul className="side-panel-list">
+            {entries.map(entry => {
+              const root = entry.items[entry.rootId];
+              const summary = describeCounts(countDescendantsByType(entry.items, entry.rootId));
+              const parentName = items[entry.parentId]?.data.name;
+              
+              return (
+                <li key={`${String(entry.rootId)}-${entry.deletedAt}`} className="side-panel-entry">
+                  <div className="flex flex-col">
+                    <span className="font-semibold">{root.data.name}</span>
+                    <span className="text-secondary side-panel-meta">
+                      {root.data.type}
+                      {summary && ` with ${summary}`}
+                      {' · from '}
+                      {parentName ?? 'a removed group'}
+                      {' · '}
+                      {new Date(entry.deletedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      className="toolbar-button"
+                      onClick={() => onRestore(entry)}
+                      title="Restore to its original position"
+                    >
+                      <RotateCcw size={14} />
+                      <span>Restore</span>
+                    </button>
+                    <button
+                      className="toolbar-button text-red-600"
+                      onClick={() => onPurge(entry)}
+                      aria-label={`Delete ${root.data.name} permanently`}
+                      title="Delete permanently"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="side-panel-footer">
+            <button className="toolbar-button text-red-600" onClick={onEmpty}>
+              <Trash2 size={14} />
+              <span>Empty Trash</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default TrashPanel;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { useTreeEnvironment } from 'react-complex-tree';
+import { RowRange, VIRTUAL_ROW_HEIGHT, linearLayout, windowChildren } from './virtualRows';
+
+interface VirtualItemsContainerProps {
+  children: React.ReactNode;
+  containerProps: React.HTMLProps<HTMLUListElement>;
+  treeId: string;
+  range: RowRange;
+}
+
+// A list of child rows that only renders the children overlapping `range`,
+// with spacers standing in for the rows of the children it skips
+function VirtualItemsContainer({ children, containerProps, treeId, range }: VirtualItemsContainerProps) {
+  const environment = useTreeEnvironment();
+  const layout = linearLayout(environment.linearItems[treeId] ?? []);
+
+  // The tree keys each child element by its item id
+  const elements = children as React.ReactElement[];
+  const childIds = elements.map(element => String(element.key));
+  const { start, end, rowsBefore, rowsAfter } = windowChildren(childIds, layout, range);
+
+  return (
+    <ul {...containerProps} className="rct-tree-items-container">
+      {rowsBefore > 0 && (
+        <li key="virtual-before" aria-hidden className="virtual-spacer" style={{ height: rowsBefore * VIRTUAL_ROW_HEIGHT }} />
+      )}
+      {elements.slice(start, end)}
+      {rowsAfter > 0 && (
+        <li key="virtual-after" aria-hidden className="virtual-spacer" style={{ height: rowsAfter * VIRTUAL_ROW_HEIGHT }} />
+      )}
+    </ul>
+  );
+}
+
+export default VirtualItemsContainer;
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { describeDrop } from './announcements';
+
+const item = (index: string, type: ItemData['type'], children?: string[]): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name: index, type }
+});
+
+const league = (): LeagueItems => ({
+  root: item('root', 'Conference', ['monday', 'friday']),
+  monday: item('monday', 'Conference', ['8u', '10u']),
+  '8u': item('8u', 'Division', ['tigers', 'hawks', 'bears']),
+  tigers: item('tigers', 'Team'),
+  hawks: item('hawks', 'Team'),
+  bears: item('bears', 'Team'),
+  '10u': item('10u', 'Division', ['owls']),
+  owls: item('owls', 'Team'),
+  friday: item('friday', 'Conference', [])
+});
+
+describe('describeDrop', () => {
+  it('names one item that moved into another parent and where it went', () => {
+    expect(describeDrop({ '8u': ['tigers', 'bears'], '10u': ['owls', 'hawks'] }, league()))
+      .toBe('hawks moved into 10u, position 2.');
+  });
+
+  it('counts several items that moved into a parent', () => {
+    expect(describeDrop({ '8u': ['bears'], '10u': ['tigers', 'owls', 'hawks'] }, league()))
+      .toBe('2 items moved into 10u.');
+  });
+
+  it('names one item that moved within its parent', () => {
+    expect(describeDrop({ '8u': ['hawks', 'bears', 'tigers'] }, league()))
+      .toBe('tigers moved to position 3 in 8u.');
+  });
+
+  it('falls back to a general message when several items were reordered', () => {
+    expect(describeDrop({ '8u': ['bears', 'hawks', 'tigers'] }, league()))
+      .toBe('Items in 8u reordered.');
+  });
+
+  it('says when a parent that was empty now has items inside it', () => {
+    expect(describeDrop({ root: ['friday'], friday: ['monday'] }, league()))
+      .toBe('monday moved into friday, position 1. friday now has items inside it.');
+  });
+
+  it('says nothing for a parent that only lost children', () => {
+    expect(describeDrop({ '8u': ['tigers', 'bears'] }, league())).toBe('');
+  });
+});
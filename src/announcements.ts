@@ -0,0 +1,62 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { LeagueItems } from './types';
+import { countDescendantsByType, describeCounts } from './trash';
+
+// Messages read out by screen readers after something changes in the tree
+
+const nameOf = (items: LeagueItems, itemId: TreeItemIndex) => items[itemId]?.data.name ?? String(itemId);
+
+// The one item that moved within a list, when the rest kept their order
+const reorderedItem = (before: TreeItemIndex[], after: TreeItemIndex[]) =>
+  after.find((id, index) => {
+    if (before.indexOf(id) === index) return false;
+    const others = (list: TreeItemIndex[]) => list.filter(other => other !== id);
+    const rest = others(after);
+    return others(before).every((other, i) => other === rest[i]);
+  });
+
+/**
+ * Describes a drop from the children it changed, e.g. "Tigers moved into
+ * 10U A, position 2". Parents that had no children before are mentioned,
+ * since they can now be expanded.
+ */
+export const describeDrop = (changes: Record<TreeItemIndex, TreeItemIndex[]>, previousItems: LeagueItems) => {
+  const messages: string[] = [];
+  Object.entries(changes).forEach(([parentId, children]) => {
+    const before = previousItems[parentId]?.children ?? [];
+    const arrived = children.filter(id => !before.includes(id));
+    const parentName = nameOf(previousItems, parentId);
+
+    if (arrived.length === 1) {
+      messages.push(`${nameOf(previousItems, arrived[0])} moved into ${parentName}, position ${children.indexOf(arrived[0]) + 1}.`);
+    } else if (arrived.length > 1) {
+      messages.push(`${arrived.length} items moved into ${parentName}.`);
+    } else if (children.length === before.length) {
+      const moved = reorderedItem(before, children);
+      messages.push(moved !== undefined
+        ? `${nameOf(previousItems, moved)} moved to position ${children.indexOf(moved) + 1} in ${parentName}.`
+        : `Items in ${parentName} reordered.`);
+    }
+
+    if (before.length === 0 && children.length > 0) {
+      messages.push(`${parentName} now has items inside it.`);
+    }
+  });
+  return messages.join(' ');
+};
+
+// e.g. "Deleted Monday along with 4 Divisions and 5 Teams. It can be restored from the Trash."
+export const describeDelete = (items: LeagueItems, itemId: TreeItemIndex) => {
+  const summary = describeCounts(countDescendantsByType(items, itemId));
+  return `Deleted ${nameOf(items, itemId)}${summary ? ` along with ${summary}` : ''}. It can be restored from the Trash.`;
+};
+
+export const describeDuplicate = (items: LeagueItems, itemId: TreeItemIndex) =>
+  `Duplicated ${nameOf(items, itemId)}. The copy is placed right after it.`;
+
+// e.g. "3 matches for 'hawk'"
+export const describeSearchResults = (searchTerm: string, matchCount: number) => {
+  const term = searchTerm.trim();
+  if (matchCount === 0) return `No matches for '${term}'.`;
+  return `${matchCount} ${matchCount === 1 ? 'match' : 'matches'} for '${term}'.`;
+};
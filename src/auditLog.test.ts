@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ItemData, ItemFields, LeagueItem, LeagueItems } from './types';
+import { LeagueAction, LeagueState, createLeagueState, leagueReducer } from './leagueStore';
+import { AUDIT_LOG_VERSION, AUDIT_STORAGE_KEY, AuditEntry, auditEntries, loadAuditLog } from './auditLog';
+
+const item = (index: string, type: ItemData['type'], children?: string[], fields?: ItemFields): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name: index, type, ...(fields ? { fields } : {}) }
+});
+
+const league = (): LeagueItems => ({
+  root: item('root', 'Conference', ['monday', 'friday']),
+  monday: item('monday', 'Conference', ['8u']),
+  '8u': item('8u', 'Division', ['tigers', 'hawks', 'bears']),
+  tigers: item('tigers', 'Team', undefined, { coach: 'Ann' }),
+  hawks: item('hawks', 'Team'),
+  bears: item('bears', 'Team'),
+  friday: item('friday', 'Conference', [])
+});
+
+// The entries for one dispatched action, and for the same step without it as
+// undo or redo would report it
+const audit = (action: LeagueAction, state: LeagueState = createLeagueState(league())) => {
+  const next = leagueReducer(state, action);
+  const strip = (entries: AuditEntry[]) => entries.map(({ itemId, change, before, after }) => ({ itemId, change, before, after }));
+  const context = { action: 'Step', user: 'Ann', timestamp: 1 };
+  return {
+    fromAction: strip(auditEntries(state, next, context, action)),
+    fromStates: strip(auditEntries(state, next, context))
+  };
+};
+
+describe('auditEntries', () => {
+  it('records renames and field edits', () => {
+    const { fromAction, fromStates } = audit({ type: 'edit', itemId: 'tigers', name: 'Lions', itemType: 'Team', fields: { coach: 'Bo' } });
+    expect(fromAction).toEqual([
+      { itemId: 'tigers', change: 'renamed', before: 'tigers', after: 'Lions' },
+      { itemId: 'tigers', change: 'edited', before: 'coach: Ann', after: 'coach: Bo' }
+    ]);
+    expect(fromStates).toEqual(fromAction);
+  });
+
+  it('records moves and reorders', () => {
+    const moved = audit({ type: 'move', itemIds: ['hawks'], parentId: 'friday' });
+    expect(moved.fromAction).toEqual([{ itemId: 'hawks', change: 'moved', before: '8u', after: 'friday' }]);
+    expect(moved.fromStates).toEqual(moved.fromAction);
+
+    const reordered = audit({ type: 'setChildren', children: { '8u': ['bears', 'tigers', 'hawks'] } });
+    expect(reordered.fromAction).toEqual([{ itemId: 'bears', change: 'reordered', before: '3', after: '1' }]);
+    expect(reordered.fromStates).toEqual(reordered.fromAction);
+  });
+
+  it('records added and removed subtrees once, at their top item', () => {
+    const removed = audit({ type: 'deleteSubtree', itemId: '8u' });
+    expect(removed.fromAction).toEqual([{ itemId: '8u', change: 'removed', before: 'Division with 3 Teams', after: undefined }]);
+    expect(removed.fromStates).toEqual(removed.fromAction);
+
+    const added = audit({ type: 'duplicate', itemId: '8u', newId: '8u-copy' });
+    expect(added.fromAction).toEqual([{ itemId: '8u-copy', change: 'added', before: undefined, after: 'Division with 3 Teams' }]);
+    expect(added.fromStates).toEqual(added.fromAction);
+  });
+
+  it('gives every entry its own id, even for steps in the same millisecond', () => {
+    const state = createLeagueState(league());
+    const context = { action: 'Step', user: 'Ann', timestamp: 1 };
+    const ids = [
+      ...auditEntries(state, leagueReducer(state, { type: 'rename', itemId: 'tigers', name: 'Lions' }), context),
+      ...auditEntries(state, leagueReducer(state, { type: 'rename', itemId: 'hawks', name: 'Owls' }), context)
+    ].map(entry => entry.id);
+    expect(new Set(ids).size).toBe(2);
+  });
+
+  it('records nothing for steps that only add a season root', () => {
+    const { fromStates } = audit({ type: 'load', items: { ...league(), 'draft-root': item('draft-root', 'Conference', []) } });
+    expect(fromStates).toEqual([]);
+  });
+});
+
+describe('loadAuditLog', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('drops entries that are damaged', () => {
+    const state = createLeagueState(league());
+    const [entry] = auditEntries(state, leagueReducer(state, { type: 'rename', itemId: 'tigers', name: 'Lions' }), {
+      action: 'Step',
+      user: 'Ann'
+    });
+    const entries = [entry, null, { ...entry, change: 'painted' }, { ...entry, timestamp: 'today' }, { id: 'x' }];
+    vi.stubGlobal('localStorage', {
+      getItem: () => JSON.stringify({ version: AUDIT_LOG_VERSION, entries })
+    });
+    expect(loadAuditLog()).toEqual([entry]);
+  });
+
+  it('starts empty when the log is missing or unreadable', () => {
+    vi.stubGlobal('localStorage', { getItem: (key: string) => (key === AUDIT_STORAGE_KEY ? '{not json' : null) });
+    expect(loadAuditLog()).toEqual([]);
+    vi.stubGlobal('localStorage', { getItem: () => null });
+    expect(loadAuditLog()).toEqual([]);
+  });
+});
@@ -0,0 +1,292 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData, ItemFields, LeagueItems } from './types';
+import { LeagueAction, LeagueState, sameFields } from './leagueStore';
+import { ChangeKind, inOrder } from './leagueDiff';
+import { countDescendantsByType, describeCounts } from './trash';
+import { escapeCsvField } from './importExport';
+import { ITEM_TYPES } from './hierarchyRules';
+
+export const AUDIT_STORAGE_KEY = 'league-audit-log';
+
+// Oldest entries are dropped once the log holds this many
+export const AUDIT_LOG_LIMIT = 2000;
+
+// Version of the stored and exported audit log
+export const AUDIT_LOG_VERSION = 1;
+
+// Field edits are audited on top of the structural changes the change list shows
+export type AuditChange = ChangeKind | 'edited';
+
+export const AUDIT_CHANGE_LABELS: Record<AuditChange, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  renamed: 'Renamed',
+  retyped: 'Retyped',
+  moved: 'Moved',
+  reordered: 'Reordered',
+  edited: 'Edited'
+};
+
+/**
+ * One change to one item. A step that changes several items, or one item in
+ * several ways, is recorded as several entries under the same action.
+ */
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  // Who made the change
+  user: string;
+  // The step the change was part of, e.g. "Move 'Tigers'"
+  action: string;
+  itemId: TreeItemIndex;
+  itemName: string;
+  itemType: ItemData['type'];
+  change: AuditChange;
+  before?: string;
+  after?: string;
+  oldParentId?: TreeItemIndex;
+  oldParentName?: string;
+  newParentId?: TreeItemIndex;
+  newParentName?: string;
+}
+
+// Entry ids are unique within a page load from the counter, and across loads from the random part
+const entryIdPrefix = Math.random().toString(36).slice(2, 10);
+let entryCounter = 0;
+
+// Who made a step and what it was called
+export interface AuditContext {
+  action: string;
+  user: string;
+  timestamp?: number;
+}
+
+// The fields that differ, e.g. "coach: Maria Lopez; rosterSize: 12"
+const describeFields = (fields: ItemFields = {}, keys: string[]) =>
+  keys.map(key => `${key}: ${fields[key] ?? ''}`).join('; ');
+
+// What a whole subtree held, e.g. "Division with 3 Teams"
+const describeSubtree = (items: LeagueItems, itemId: TreeItemIndex) => {
+  const summary = describeCounts(countDescendantsByType(items, itemId));
+  return summary ? `${items[itemId].data.type} with ${summary}` : items[itemId].data.type;
+};
+
+// Parentless items, such as the season roots, only hold the tree together and are never reported
+const isPlaced = (state: LeagueState, itemId: TreeItemIndex | undefined) =>
+  itemId !== undefined && state.items[itemId] !== undefined && state.parents[itemId] !== undefined;
+
+/**
+ * The items a step may have changed, read from its action. Steps without
+ * one (loads, undo, redo and remote changes) look at every item that is no
+ * longer the same object, since the store never changes items in place,
+ * along with the children of those items.
+ */
+const touchedIds = (before: LeagueState, after: LeagueState, action?: LeagueAction): TreeItemIndex[] => {
+  const childrenOf = (parentIds: TreeItemIndex[]) => parentIds.flatMap(parentId => [
+    ...(before.items[parentId]?.children ?? []),
+    ...(after.items[parentId]?.children ?? [])
+  ]);
+
+  switch (action?.type) {
+    case 'insert':
+      return [action.item.index];
+    case 'insertSubtree':
+      return [action.rootId];
+    case 'insertSubtrees':
+      return action.rootIds;
+    case 'duplicate':
+      return [action.newId];
+    case 'move':
+      return action.itemIds;
+    case 'setChildren':
+      return childrenOf(Object.keys(action.children));
+    case 'deleteSubtree':
+    case 'rename':
+    case 'retype':
+    case 'edit':
+      return [action.itemId];
+    default: {
+      const changed = [...new Set([...Object.keys(before.items), ...Object.keys(after.items)])]
+        .filter(id => before.items[id] !== after.items[id]);
+      return [...changed, ...childrenOf(changed)];
+    }
+  }
+};
+
+/**
+ * The audit entries for one step from `before` to `after`. Only the items
+ * the step touched are compared (see `touchedIds`), so recording a step
+ * doesn't walk the whole league. Added and removed subtrees are recorded
+ * once, at their top item.
+ */
+export const auditEntries = (
+  before: LeagueState,
+  after: LeagueState,
+  context: AuditContext,
+  action?: LeagueAction
+): AuditEntry[] => {
+  const timestamp = context.timestamp ?? Date.now();
+  const nameOf = (itemId?: TreeItemIndex) =>
+    itemId === undefined ? undefined : (after.items[itemId] ?? before.items[itemId])?.data.name;
+  const positionOf = (state: LeagueState, itemId: TreeItemIndex) =>
+    String((state.items[state.parents[itemId]]?.children ?? []).indexOf(itemId) + 1);
+
+  const entries: AuditEntry[] = [];
+  const record = (entry: Omit<AuditEntry, 'id' | 'timestamp' | 'user' | 'action'>) => {
+    entries.push({
+      id: `${entryIdPrefix}-${entryCounter++}`,
+      timestamp,
+      user: context.user,
+      action: context.action,
+      ...entry
+    });
+  };
+
+  const ids = [...new Set(touchedIds(before, after, action))];
+  ids.forEach(itemId => {
+    const previous = before.items[itemId];
+    const item = after.items[itemId];
+    const oldParentId = before.parents[itemId];
+    const newParentId = after.parents[itemId];
+    const parents = {
+      ...(oldParentId !== undefined ? { oldParentId, oldParentName: nameOf(oldParentId) } : {}),
+      ...(newParentId !== undefined ? { newParentId, newParentName: nameOf(newParentId) } : {})
+    };
+    const wasPlaced = isPlaced(before, itemId);
+
+    if (!isPlaced(after, itemId)) {
+      if (!wasPlaced || (isPlaced(before, oldParentId) && !isPlaced(after, oldParentId))) return;
+      const { name: itemName, type: itemType } = previous.data;
+      record({ itemId, itemName, itemType, change: 'removed', before: describeSubtree(before.items, itemId), ...parents });
+      return;
+    }
+
+    const { name: itemName, type: itemType } = item.data;
+    if (!wasPlaced) {
+      if (!isPlaced(before, newParentId) && isPlaced(after, newParentId)) return;
+      record({ itemId, itemName, itemType, change: 'added', after: describeSubtree(after.items, itemId), ...parents });
+      return;
+    }
+
+    if (previous.data.name !== itemName) {
+      record({ itemId, itemName, itemType, change: 'renamed', before: previous.data.name, after: itemName, ...parents });
+    }
+    if (previous.data.type !== itemType) {
+      record({ itemId, itemName, itemType, change: 'retyped', before: previous.data.type, after: itemType, ...parents });
+    }
+    if (oldParentId !== newParentId) {
+      record({ itemId, itemName, itemType, change: 'moved', before: nameOf(oldParentId), after: nameOf(newParentId), ...parents });
+    }
+    if (!sameFields(previous.data.fields, item.data.fields)) {
+      const keys = [...new Set([...Object.keys(previous.data.fields ?? {}), ...Object.keys(item.data.fields ?? {})])]
+        .filter(key => previous.data.fields?.[key] !== item.data.fields?.[key]);
+      record({
+        itemId,
+        itemName,
+        itemType,
+        change: 'edited',
+        before: describeFields(previous.data.fields, keys),
+        after: describeFields(item.data.fields, keys),
+        newParentId,
+        newParentName: nameOf(newParentId)
+      });
+    }
+  });
+
+  // Siblings that stayed under a touched parent but no longer keep their order
+  const changedParents = new Set(ids
+    .flatMap(id => [before.parents[id], after.parents[id]])
+    .filter(parentId => parentId !== undefined && after.items[parentId] &&
+      before.items[parentId]?.children !== after.items[parentId].children));
+  changedParents.forEach(parentId => {
+    const staying = (children: TreeItemIndex[] = []) =>
+      children.filter(id => before.parents[id] === parentId && after.parents[id] === parentId);
+    const newOrder = staying(after.items[parentId].children);
+    const kept = inOrder(newOrder, staying(before.items[parentId]?.children));
+
+    newOrder.filter(id => !kept.has(id)).forEach(itemId => {
+      record({
+        itemId,
+        itemName: after.items[itemId].data.name,
+        itemType: after.items[itemId].data.type,
+        change: 'reordered',
+        before: positionOf(before, itemId),
+        after: positionOf(after, itemId),
+        oldParentId: parentId,
+        oldParentName: nameOf(parentId),
+        newParentId: parentId,
+        newParentName: nameOf(parentId)
+      });
+    });
+  });
+
+  return entries;
+};
+
+// Add entries to the log, keeping only the newest `limit`
+export const appendEntries = (log: AuditEntry[], entries: AuditEntry[], limit = AUDIT_LOG_LIMIT) =>
+  entries.length === 0 ? log : [...log, ...entries].slice(-limit);
+
+export const exportAuditJson = (entries: AuditEntry[]): string =>
+  JSON.stringify({ version: AUDIT_LOG_VERSION, exportedAt: new Date().toISOString(), entries }, null, 2);
+
+const AUDIT_CSV_COLUMNS = [
+  'Time', 'User', 'Action', 'Change', 'Item ID', 'Item', 'Type',
+  'Before', 'After', 'Old Parent ID', 'Old Parent', 'New Parent ID', 'New Parent'
+];
+
+export const exportAuditCsv = (entries: AuditEntry[]): string => {
+  const rows = [
+    AUDIT_CSV_COLUMNS,
+    ...entries.map(entry => [
+      new Date(entry.timestamp).toISOString(),
+      entry.user,
+      entry.action,
+      entry.change,
+      String(entry.itemId),
+      entry.itemName,
+      entry.itemType,
+      entry.before ?? '',
+      entry.after ?? '',
+      entry.oldParentId === undefined ? '' : String(entry.oldParentId),
+      entry.oldParentName ?? '',
+      entry.newParentId === undefined ? '' : String(entry.newParentId),
+      entry.newParentName ?? ''
+    ])
+  ];
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+};
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+const isOptionalId = (value: unknown) => value === undefined || typeof value === 'string' || typeof value === 'number';
+
+const isAuditEntry = (value: unknown): value is AuditEntry => {
+  const entry = value as Partial<AuditEntry> | null;
+  if (typeof entry !== 'object' || entry === null) return false;
+  if (typeof entry.id !== 'string' || typeof entry.timestamp !== 'number') return false;
+  if (typeof entry.user !== 'string' || typeof entry.action !== 'string' || typeof entry.itemName !== 'string') return false;
+  if (entry.itemId === undefined || !isOptionalId(entry.itemId)) return false;
+  if (!ITEM_TYPES.includes(entry.itemType as ItemData['type']) || !(entry.change && entry.change in AUDIT_CHANGE_LABELS)) return false;
+  return [entry.before, entry.after, entry.oldParentName, entry.newParentName].every(isOptionalString) &&
+    isOptionalId(entry.oldParentId) && isOptionalId(entry.newParentId);
+};
+
+// Loads the saved log, or an empty one when there is none or it can't be
+// read. Entries that can't be read are dropped.
+export const loadAuditLog = (): AuditEntry[] => {
+  try {
+    const raw = localStorage.getItem(AUDIT_STORAGE_KEY);
+    if (raw === null) return [];
+
+    const parsed = JSON.parse(raw) as { version?: number; entries?: unknown } | null;
+    if (!parsed || parsed.version !== AUDIT_LOG_VERSION || !Array.isArray(parsed.entries)) return [];
+    return parsed.entries.filter(isAuditEntry);
+  } catch {
+    return [];
+  }
+};
+
+// Write the log, throwing when storage is unavailable or full
+export const saveAuditLog = (entries: AuditEntry[]) => {
+  localStorage.setItem(AUDIT_STORAGE_KEY, JSON.stringify({ version: AUDIT_LOG_VERSION, entries }));
+};
@@ -0,0 +1,11 @@
+import { StrictMode } from 'react';
+import ReactDOM from 'react-dom';
+import BenchmarkPage from './BenchmarkPage.tsx';
+import './index.css';
+
+ReactDOM.render(
+  <StrictMode>
+    <BenchmarkPage />
+  </StrictMode>,
+  document.getElementById('root')
+);
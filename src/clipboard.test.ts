@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { LeagueState, collectSubtree, createLeagueState, leagueReducer } from './leagueStore';
+import { CLIPBOARD_FORMAT, CLIPBOARD_VERSION, buildPastedItems, parseClipboard, placePaste, serializeClipboard } from './clipboard';
+
+const item = (index: string, type: ItemData['type'], children?: string[]): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name: index, type }
+});
+
+const league = (): LeagueItems => ({
+  root: item('root', 'Conference', ['monday', 'friday']),
+  monday: item('monday', 'Conference', ['8u']),
+  '8u': item('8u', 'Division', ['tigers', 'hawks']),
+  tigers: item('tigers', 'Team', ['ava']),
+  ava: item('ava', 'Player'),
+  hawks: item('hawks', 'Team', []),
+  friday: item('friday', 'Conference', ['10u']),
+  '10u': item('10u', 'Division', [])
+});
+
+// Paste clipboard text onto a target the way the app does
+const paste = (state: LeagueState, text: string, targetId: string) => {
+  const nodes = parseClipboard(text);
+  if (!nodes) throw new Error('nothing to paste');
+  const { rootIds, items } = buildPastedItems(nodes, 1);
+  const placement = placePaste(state, targetId, rootIds.map(id => items[id]));
+  if (placement.error !== undefined) throw new Error(placement.error);
+  return {
+    rootIds,
+    state: leagueReducer(state, {
+      type: 'insertSubtrees',
+      rootIds,
+      items,
+      parentId: placement.parentId,
+      position: placement.position
+    })
+  };
+};
+
+describe('parseClipboard', () => {
+  it('reads back what a copy wrote', () => {
+    expect(parseClipboard(serializeClipboard(league(), ['tigers']))).toEqual([
+      { name: 'tigers', type: 'Team', children: [{ name: 'ava', type: 'Player' }] }
+    ]);
+  });
+
+  it('ignores text this app did not write', () => {
+    expect(parseClipboard('Tigers')).toBeNull();
+    expect(parseClipboard('null')).toBeNull();
+    expect(parseClipboard(JSON.stringify({ format: 'other', version: 1, nodes: [] }))).toBeNull();
+    expect(parseClipboard(JSON.stringify({ format: CLIPBOARD_FORMAT, version: CLIPBOARD_VERSION + 1, nodes: [] }))).toBeNull();
+  });
+
+  it('drops invalid nodes and returns null when none are left', () => {
+    const payload = (nodes: unknown) => JSON.stringify({ format: CLIPBOARD_FORMAT, version: CLIPBOARD_VERSION, nodes });
+    expect(parseClipboard(payload([{ name: 'Sharks', type: 'Team' }, { name: 'Oops', type: 'Stadium' }])))
+      .toEqual([{ name: 'Sharks', type: 'Team' }]);
+    expect(parseClipboard(payload([{ type: 'Team' }]))).toBeNull();
+    expect(parseClipboard(payload('Sharks'))).toBeNull();
+  });
+});
+
+describe('buildPastedItems', () => {
+  it('gives every pasted item a new id and makes containers folders', () => {
+    const { rootIds, items } = buildPastedItems([
+      { name: 'Sharks', type: 'Team' },
+      { name: '12U', type: 'Division', children: [{ name: 'Owls', type: 'Team' }] }
+    ], 5);
+    expect(rootIds).toEqual(['paste-5-0', 'paste-5-1']);
+    expect(items['paste-5-0']).toMatchObject({ isFolder: true, children: [] });
+    expect(items['paste-5-1'].children).toEqual(['paste-5-2']);
+    expect(items['paste-5-2'].data.name).toBe('Owls');
+  });
+});
+
+describe('placePaste', () => {
+  const state = createLeagueState(league());
+  const team = buildPastedItems([{ name: 'Sharks', type: 'Team' }], 1).items['paste-1-0'];
+
+  it('pastes into an item that can hold the subtrees', () => {
+    expect(placePaste(state, '10u', [team])).toEqual({ parentId: '10u' });
+  });
+
+  it('pastes next to an item that cannot hold them', () => {
+    expect(placePaste(state, 'tigers', [team])).toEqual({ parentId: '8u', position: 1 });
+    expect(placePaste(state, 'hawks', [team])).toEqual({ parentId: '8u', position: 2 });
+  });
+
+  it('explains where the subtrees cannot go', () => {
+    const division = buildPastedItems([{ name: '12U', type: 'Division' }], 1).items['paste-1-0'];
+    expect(placePaste(state, 'ava', [division]).error).toBeDefined();
+  });
+});
+
+describe('cut and paste', () => {
+  it('moves the subtree under new ids, leaving nothing at the source', () => {
+    const cut = serializeClipboard(league(), ['tigers']);
+    const afterCut = leagueReducer(createLeagueState(league()), { type: 'deleteSubtree', itemId: 'tigers' });
+    const { rootIds, state } = paste(afterCut, cut, '10u');
+
+    expect(state.items.tigers).toBeUndefined();
+    expect(state.items.ava).toBeUndefined();
+    expect(state.items['8u'].children).toEqual(['hawks']);
+    expect(state.items['10u'].children).toEqual(rootIds);
+    expect(collectSubtree(state.items, rootIds[0]).map(id => state.items[id].data.name)).toEqual(['tigers', 'ava']);
+  });
+});
@@ -0,0 +1,125 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { LeagueItem, LeagueItems } from './types';
+import { LeagueState } from './leagueStore';
+import { ImportError, NestedNode, parseNestedNodes, toNestedNode } from './importExport';
+import { allowedChildTypes, canContain, explainPlacement, parentKindOf } from './hierarchyRules';
+import { explainRosterLimit } from './rosterRules';
+
+// Identifies clipboard text written by this app, so other text is ignored on paste
+export const CLIPBOARD_FORMAT = 'league-structure/subtrees';
+
+// Version of the clipboard payload format
+export const CLIPBOARD_VERSION = 1;
+
+/**
+ * What a copy puts on the clipboard, as JSON text. The subtrees are stored in
+ * the nested export format without ids, so pasting them (even in another tab)
+ * always creates new items.
+ */
+export interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  copiedAt: string;
+  nodes: NestedNode[];
+}
+
+export const serializeClipboard = (items: LeagueItems, itemIds: TreeItemIndex[]): string => {
+  const payload: ClipboardPayload = {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    copiedAt: new Date().toISOString(),
+    nodes: itemIds.filter(id => items[id]).map(id => toNestedNode(items, id))
+  };
+  return JSON.stringify(payload);
+};
+
+/**
+ * Read the subtrees from clipboard text. Returns null for text that isn't a
+ * payload of a version this app understands; invalid nodes inside a payload
+ * are dropped.
+ */
+export const parseClipboard = (text: string): NestedNode[] | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const payload = parsed as Partial<ClipboardPayload> | null;
+  if (
+    typeof payload !== 'object' || payload === null ||
+    payload.format !== CLIPBOARD_FORMAT ||
+    typeof payload.version !== 'number' || payload.version > CLIPBOARD_VERSION
+  ) {
+    return null;
+  }
+
+  const errors: ImportError[] = [];
+  const nodes = parseNestedNodes(payload.nodes, 'nodes', errors, null);
+  return nodes.length > 0 ? nodes : null;
+};
+
+// Where pasted subtrees go, or why they can't be pasted at the target
+export type PastePlacement =
+  | { parentId: TreeItemIndex; position?: number; error?: undefined }
+  | { error: string };
+
+/**
+ * Turn pasted nodes into items under fresh ids. Types that can hold children
+ * become folders even when empty, like items created from the context menu.
+ */
+export const buildPastedItems = (nodes: NestedNode[], stamp = Date.now()): { rootIds: TreeItemIndex[]; items: LeagueItems } => {
+  const items: LeagueItems = {};
+  let counter = 0;
+
+  const build = (node: NestedNode): TreeItemIndex => {
+    const id = `paste-${stamp}-${counter++}`;
+    const childIds = (node.children ?? []).map(build);
+    const isFolder = allowedChildTypes(node.type).length > 0 || childIds.length > 0;
+    const item: LeagueItem = {
+      index: id,
+      isFolder,
+      ...(isFolder ? { children: childIds } : {}),
+      data: {
+        name: node.name,
+        type: node.type,
+        ...(node.fields ? { fields: node.fields } : {})
+      },
+      canMove: true,
+      canRename: true
+    };
+    items[id] = item;
+    return id;
+  };
+
+  return { rootIds: nodes.map(build), items };
+};
+
+/**
+ * Pasting onto an item puts the subtrees inside it when it can hold them, or
+ * else right after it among its siblings. Teams also have to have room for
+ * pasted Players.
+ */
+export const placePaste = (state: LeagueState, targetId: TreeItemIndex, pasted: LeagueItem[]): PastePlacement => {
+  const fits = (parentId: TreeItemIndex) => {
+    const kind = parentKindOf(state.items, parentId);
+    return pasted.every(item => canContain(kind, item.data.type));
+  };
+  const withinRoster = (placement: { parentId: TreeItemIndex; position?: number }): PastePlacement => {
+    const full = explainRosterLimit(state, placement.parentId, pasted);
+    return full ? { error: full } : placement;
+  };
+
+  if (fits(targetId)) return withinRoster({ parentId: targetId });
+
+  const parentId = state.parents[targetId];
+  if (parentId !== undefined && fits(parentId)) {
+    const position = (state.items[parentId].children ?? []).indexOf(targetId) + 1;
+    return withinRoster({ parentId, position });
+  }
+
+  const kind = parentKindOf(state.items, targetId);
+  const misplaced = pasted.find(item => !canContain(kind, item.data.type)) ?? pasted[0];
+  return { error: explainPlacement(kind, misplaced.data.type) ?? `Can't paste into ${state.items[targetId]?.data.name}.` };
+};
@@ -0,0 +1,213 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { buildParentIndex, createLeagueState } from './leagueStore';
+import { CollabSession, applyRequests } from './collab';
+import { RelayConnection, createRelaySession } from '../server/relaySession.js';
+
+const item = (index: string, type: ItemData['type'], children?: string[]): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name: index, type }
+});
+
+const league = (): LeagueItems => ({
+  root: item('root', 'Conference', ['8u', '10u']),
+  '8u': item('8u', 'Division', ['tigers', 'hawks']),
+  '10u': item('10u', 'Division', ['lions']),
+  tigers: item('tigers', 'Team', ['ava']),
+  hawks: item('hawks', 'Team'),
+  lions: item('lions', 'Team'),
+  ava: item('ava', 'Player')
+});
+
+describe('applyRequests', () => {
+  it('returns the same state without requests', () => {
+    const state = createLeagueState(league());
+    expect(applyRequests(state, [])).toBe(state);
+  });
+
+  it('creates items and links them through the parent list', () => {
+    const state = applyRequests(createLeagueState(league()), [
+      { type: 'create', item: item('owls', 'Team') },
+      { type: 'setChildren', parentId: '10u', children: ['lions', 'owls'], added: ['owls'] }
+    ]);
+    expect(state.items['10u'].children).toEqual(['lions', 'owls']);
+    expect(state.parents).toEqual(buildParentIndex(state.items));
+  });
+
+  it('lets the later update of an item win', () => {
+    const state = applyRequests(createLeagueState(league()), [
+      { type: 'update', itemId: 'hawks', data: { name: 'Hawks A' } },
+      { type: 'update', itemId: 'hawks', data: { name: 'Hawks B' } }
+    ]);
+    expect(state.items.hawks.data.name).toBe('Hawks B');
+  });
+
+  it('skips requests for items that no longer exist', () => {
+    const start = createLeagueState(league());
+    const state = applyRequests(start, [
+      { type: 'update', itemId: 'ghost', data: { name: 'Ghost' } },
+      { type: 'delete', itemId: 'ghost' }
+    ]);
+    expect(state.items).toEqual(start.items);
+  });
+
+  it('moves an item out of its old parent when it was moved on purpose', () => {
+    const state = applyRequests(createLeagueState(league()), [
+      { type: 'setChildren', parentId: '10u', children: ['lions', 'hawks'], added: ['hawks'] },
+      { type: 'setChildren', parentId: '8u', children: ['tigers'] }
+    ]);
+    expect(state.items['8u'].children).toEqual(['tigers']);
+    expect(state.items['10u'].children).toEqual(['lions', 'hawks']);
+  });
+
+  it('does not pull back an item from an out of date list', () => {
+    // Another client already moved hawks to 10u; this list still names it
+    const moved = applyRequests(createLeagueState(league()), [
+      { type: 'setChildren', parentId: '10u', children: ['lions', 'hawks'], added: ['hawks'] }
+    ]);
+    const state = applyRequests(moved, [
+      { type: 'setChildren', parentId: '8u', children: ['hawks', 'tigers'], added: [] }
+    ]);
+    expect(state.parents.hawks).toBe('10u');
+    expect(state.items['8u'].children).toEqual(['tigers']);
+  });
+
+  it('keeps children that a list leaves out without moving them elsewhere', () => {
+    const withOwls = applyRequests(createLeagueState(league()), [
+      { type: 'create', item: item('owls', 'Team') },
+      { type: 'setChildren', parentId: '8u', children: ['tigers', 'hawks', 'owls'], added: ['owls'] }
+    ]);
+    // A reorder made before the other client saw owls
+    const state = applyRequests(withOwls, [
+      { type: 'setChildren', parentId: '8u', children: ['hawks', 'tigers'], added: [] }
+    ]);
+    expect(state.items['8u'].children).toEqual(['hawks', 'tigers', 'owls']);
+  });
+
+  it('never moves an item inside itself', () => {
+    const state = applyRequests(createLeagueState(league()), [
+      { type: 'setChildren', parentId: 'tigers', children: ['ava', '8u'], added: ['8u'] }
+    ]);
+    expect(state.parents['8u']).toBe('root');
+    expect(state.items.tigers.children).toEqual(['ava']);
+  });
+
+  it('deletes an item with everything below it', () => {
+    const state = applyRequests(createLeagueState(league()), [{ type: 'delete', itemId: 'tigers' }]);
+    expect(state.items.ava).toBeUndefined();
+    expect(state.items['8u'].children).toEqual(['hawks']);
+    expect(state.parents).toEqual(buildParentIndex(state.items));
+  });
+});
+
+// Messages on their way between the clients and the relay, delivered in order by `flush`
+let inFlight: (() => void)[] = [];
+const flush = () => {
+  while (inFlight.length > 0) inFlight.shift()?.();
+};
+
+// Stands in for the browser's WebSocket, connected to an in-memory relay
+const fakeWebSocket = (relay: ReturnType<typeof createRelaySession>) => class FakeWebSocket {
+  static OPEN = 1;
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  private readonly connection: RelayConnection;
+
+  constructor() {
+    this.connection = relay.connect(message => {
+      inFlight.push(() => this.onmessage?.({ data: JSON.stringify(message) }));
+    });
+    inFlight.push(() => {
+      this.readyState = FakeWebSocket.OPEN;
+      this.onopen?.();
+    });
+  }
+
+  send(text: string) {
+    inFlight.push(() => this.connection.receive(JSON.parse(text)));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.connection.disconnect();
+    inFlight.push(() => this.onclose?.());
+  }
+};
+
+// A client of the relay, keeping what its tree would show
+const client = (name: string) => {
+  const shown = { items: league() };
+  const session = new CollabSession('ws://relay', { clientId: name, name, color: '#0D4774' }, shown.items, {
+    onRemoteChange: view => {
+      shown.items = view.items;
+    },
+    onReset: items => {
+      shown.items = items;
+    },
+    onPresence: () => undefined,
+    onStatus: () => undefined
+  });
+  const rename = (itemId: string, name: string) => {
+    shown.items = { ...shown.items, [itemId]: { ...shown.items[itemId], data: { ...shown.items[itemId].data, name } } };
+    session.update(shown.items);
+  };
+  return { session, shown, rename };
+};
+
+describe('CollabSession', () => {
+  const startRelay = (options?: { seenOpsKept?: number }) => {
+    const relay = createRelaySession(options);
+    vi.stubGlobal('WebSocket', fakeWebSocket(relay));
+    return relay;
+  };
+
+  afterEach(() => {
+    inFlight = [];
+    vi.unstubAllGlobals();
+  });
+
+  it('shares changes with everyone in the session', () => {
+    startRelay();
+    const ana = client('ana');
+    const ben = client('ben');
+    ana.session.connect();
+    ben.session.connect();
+    flush();
+
+    ana.rename('hawks', 'Hawks A');
+    ben.rename('lions', 'Lions B');
+    flush();
+    expect(ana.shown.items.hawks.data.name).toBe('Hawks A');
+    expect(ana.shown.items.lions.data.name).toBe('Lions B');
+    expect(ben.shown.items).toEqual(ana.shown.items);
+  });
+
+  it('keeps changes made before joining when another client seeds the league', () => {
+    startRelay();
+    const ana = client('ana');
+    const ben = client('ben');
+    ben.rename('tigers', 'Tigers B');
+
+    // Both join an empty relay and offer their league; Ana's gets there first
+    ana.session.connect();
+    ben.session.connect();
+    flush();
+    expect(ben.shown.items.tigers.data.name).toBe('Tigers B');
+    expect(ana.shown.items).toEqual(ben.shown.items);
+  });
+
+  it('forgets the ids of operations numbered long ago', () => {
+    const relay = startRelay({ seenOpsKept: 2 });
+    const ana = client('ana');
+    ana.session.connect();
+    flush();
+
+    ['A', 'B', 'C'].forEach(suffix => ana.rename('hawks', `Hawks ${suffix}`));
+    flush();
+    expect([...relay.session.seenOpIds.values()]).toEqual([2, 3]);
+  });
+});
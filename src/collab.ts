@@ -0,0 +1,381 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { LeagueItems } from './types';
+import { LeagueState, collectSubtree, createLeagueState, isDescendantOf } from './leagueStore';
+import { SyncRequest, planRequests } from './leagueApi';
+
+// How long to wait before reconnecting after the relay goes away
+export const RECONNECT_DELAY_MS = 2000;
+
+// Every this many operations a client hands the relay a snapshot, so its log stays short
+export const SNAPSHOT_INTERVAL = 50;
+
+const PRESENCE_COLORS = ['#0D4774', '#F57C00', '#24C875', '#7E22CE', '#E02020', '#0891B2', '#CA8A04', '#DB2777'];
+
+const USER_STORAGE_KEY = 'league-collab-user';
+
+export type CollabStatus = 'connecting' | 'live' | 'offline';
+
+export interface CollabUser {
+  clientId: string;
+  name: string;
+  color: string;
+}
+
+// What another coordinator is doing in the tree
+export interface Presence extends CollabUser {
+  selectedItems: TreeItemIndex[];
+  renamingItem?: TreeItemIndex;
+}
+
+/**
+ * A request as sent between clients. New child lists also name the children
+ * the sender moved in, so a list that is out of date can't pull back an item
+ * someone else has since moved out.
+ */
+export type CollabRequest = SyncRequest & { added?: TreeItemIndex[] };
+
+/**
+ * One local change, sent as the requests that bring another copy of the
+ * league in line with it (see `planRequests`). The relay numbers operations
+ * in the order it receives them, and every client applies them in that order.
+ */
+export interface CollabOperation {
+  opId: string;
+  clientId: string;
+  // Name of the user who made the change
+  author: string;
+  seq?: number;
+  requests: CollabRequest[];
+}
+
+// Messages from the relay
+export type ServerMessage =
+  | { type: 'welcome'; seq: number; snapshot: LeagueItems | null; ops: CollabOperation[] }
+  // `clientId` is the client whose league seeded the session
+  | { type: 'reset'; seq: number; items: LeagueItems; clientId?: string }
+  | { type: 'op'; op: CollabOperation }
+  | { type: 'duplicate'; opId: string }
+  | { type: 'presence'; peers: Presence[] };
+
+// Messages to the relay
+export type ClientMessage =
+  | { type: 'hello'; user: CollabUser }
+  | { type: 'op'; op: CollabOperation }
+  // `seed` is set when the relay has no league yet and this one should become it
+  | { type: 'snapshot'; seq: number; items: LeagueItems; seed?: boolean }
+  | { type: 'presence'; selectedItems: TreeItemIndex[]; renamingItem?: TreeItemIndex };
+
+const randomId = () => Math.random().toString(36).slice(2, 10);
+
+/**
+ * The name and color this browser shows up with for others. `?name=` in the
+ * URL overrides the remembered name, which is handy for testing in two tabs.
+ * Each tab gets its own client id.
+ */
+export const loadCollabUser = (): CollabUser => {
+  const nameParam = new URLSearchParams(window.location.search).get('name');
+  let saved: Partial<CollabUser> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(USER_STORAGE_KEY) ?? '{}');
+  } catch {
+    // Fall through to a generated name
+  }
+
+  const name = nameParam || saved.name || `Coordinator ${Math.floor(Math.random() * 900) + 100}`;
+  const color = saved.color || PRESENCE_COLORS[Math.floor(Math.random() * PRESENCE_COLORS.length)];
+  try {
+    localStorage.setItem(USER_STORAGE_KEY, JSON.stringify({ name, color }));
+  } catch {
+    // Remembering the name is optional
+  }
+  return { clientId: randomId(), name, color };
+};
+
+/**
+ * Apply requests made by another client. Conflicts are settled so that every
+ * client ends up with the same league:
+ * - requests for items that no longer exist are skipped,
+ * - the later rename, retype or field edit of an item wins,
+ * - an item moved under a new parent leaves its old one, unless that would
+ *   put it inside itself; items only listed because the list is out of date
+ *   stay where they are,
+ * - children left out of a parent's new list without being moved elsewhere
+ *   (such as a Team another client just added) stay under that parent.
+ */
+export const applyRequests = (state: LeagueState, requests: CollabRequest[]): LeagueState => {
+  if (requests.length === 0) return state;
+
+  const items = { ...state.items };
+  const parents = { ...state.parents };
+  // Updated in place as the requests are applied
+  const working: LeagueState = { items, parents };
+
+  requests.forEach(request => {
+    switch (request.type) {
+      case 'create': {
+        if (items[request.item.index]) return;
+        items[request.item.index] = request.item;
+        (request.item.children ?? []).forEach(childId => {
+          parents[childId] = request.item.index;
+        });
+        break;
+      }
+      case 'update': {
+        const item = items[request.itemId];
+        if (!item) return;
+        items[request.itemId] = { ...item, data: { ...item.data, ...request.data } };
+        break;
+      }
+      case 'setChildren': {
+        const parent = items[request.parentId];
+        if (!parent) return;
+
+        // Items still under another parent only come along when they were moved here on purpose
+        const movesIn = (childId: TreeItemIndex) =>
+          (parents[childId] === undefined || !request.added || request.added.includes(childId)) &&
+          !isDescendantOf(working, request.parentId, childId);
+        const childIds = request.children.filter(childId =>
+          items[childId] && (parents[childId] === request.parentId || movesIn(childId))
+        );
+        childIds.forEach(childId => {
+          const oldParentId = parents[childId];
+          if (oldParentId !== undefined && oldParentId !== request.parentId && items[oldParentId]) {
+            items[oldParentId] = {
+              ...items[oldParentId],
+              children: (items[oldParentId].children ?? []).filter(id => id !== childId)
+            };
+          }
+          parents[childId] = request.parentId;
+        });
+        (parent.children ?? []).forEach(childId => {
+          if (!childIds.includes(childId) && parents[childId] === request.parentId) delete parents[childId];
+        });
+        items[request.parentId] = { ...items[request.parentId], isFolder: parent.isFolder || childIds.length > 0, children: childIds };
+        break;
+      }
+      case 'delete': {
+        const parentId = parents[request.itemId];
+        if (!items[request.itemId]) return;
+        collectSubtree(items, request.itemId).forEach(id => {
+          delete items[id];
+          delete parents[id];
+        });
+        if (parentId !== undefined && items[parentId]) {
+          items[parentId] = {
+            ...items[parentId],
+            children: (items[parentId].children ?? []).filter(id => id !== request.itemId)
+          };
+        }
+        break;
+      }
+    }
+  });
+
+  // Put back children that were dropped from a list without going anywhere else
+  Object.keys(state.parents).forEach(childId => {
+    const oldParentId = state.parents[childId];
+    if (!items[childId] || parents[childId] !== undefined || !items[oldParentId]) return;
+    items[oldParentId] = {
+      ...items[oldParentId],
+      children: [...(items[oldParentId].children ?? []), childId]
+    };
+    parents[childId] = oldParentId;
+  });
+
+  // Created items may list children that were never sent
+  return createLeagueState(Object.fromEntries(Object.entries(items).map(([id, item]) => [
+    id,
+    item.children && item.children.some(childId => !items[childId])
+      ? { ...item, children: item.children.filter(childId => items[childId]) }
+      : item
+  ])));
+};
+
+export interface CollabHandlers {
+  // Remote changes arrived. `view` is the league with this client's own
+  // unconfirmed changes replayed on top of them; `before` and `after` are the
+  // shared league around the remote operation alone.
+  onRemoteChange: (view: LeagueState, op: CollabOperation, before: LeagueItems, after: LeagueItems) => void;
+  // The shared league replaced the local one, e.g. on joining a session
+  onReset: (items: LeagueItems) => void;
+  onPresence: (peers: Presence[]) => void;
+  onStatus: (status: CollabStatus) => void;
+}
+
+/**
+ * A live editing session through the relay server. Local changes are sent
+ * as soon as they are made and stay pending until the relay echoes them back
+ * in its order. Remote operations are applied to the confirmed league and the
+ * pending ones replayed on top, so every client converges on the same result.
+ * Dropped connections are retried, and changes made while offline are sent
+ * once the session is rejoined.
+ */
+export class CollabSession {
+  private socket: WebSocket | null = null;
+  private readonly url: string;
+  private readonly user: CollabUser;
+  private readonly handlers: CollabHandlers;
+  // The league as of the last operation numbered by the relay
+  private confirmed: LeagueState;
+  // The confirmed league with the pending operations applied, as shown locally
+  private view: LeagueState;
+  private pending: CollabOperation[] = [];
+  private seq = 0;
+  private joined = false;
+  private closed = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private presence: { selectedItems: TreeItemIndex[]; renamingItem?: TreeItemIndex } = { selectedItems: [] };
+
+  constructor(url: string, user: CollabUser, items: LeagueItems, handlers: CollabHandlers) {
+    this.url = url;
+    this.user = user;
+    this.handlers = handlers;
+    this.confirmed = createLeagueState(items);
+    this.view = this.confirmed;
+  }
+
+  public get clientId() {
+    return this.user.clientId;
+  }
+
+  public connect() {
+    this.closed = false;
+    this.handlers.onStatus('connecting');
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    socket.onopen = () => this.send({ type: 'hello', user: this.user });
+    socket.onmessage = event => this.receive(JSON.parse(String(event.data)) as ServerMessage);
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.joined = false;
+      this.handlers.onStatus('offline');
+      this.handlers.onPresence([]);
+      if (!this.closed) {
+        this.retryTimer = setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+      }
+    };
+  }
+
+  public close() {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /**
+   * Tell the session about the league as it is now shown locally. Anything
+   * that differs from what the session last saw is sent as an operation.
+   */
+  public update(items: LeagueItems) {
+    if (items === this.view.items) return;
+
+    const before = this.view.items;
+    const requests: CollabRequest[] = planRequests(before, items).map(request => (
+      request.type === 'setChildren'
+        ? { ...request, added: request.children.filter(childId => !(before[request.parentId]?.children ?? []).includes(childId)) }
+        : request
+    ));
+    this.view = createLeagueState(items);
+    if (requests.length === 0) return;
+
+    const op: CollabOperation = {
+      opId: `${this.user.clientId}-${randomId()}`,
+      clientId: this.user.clientId,
+      author: this.user.name,
+      requests
+    };
+    this.pending.push(op);
+    if (this.joined) this.send({ type: 'op', op });
+  }
+
+  public setPresence(presence: Partial<{ selectedItems: TreeItemIndex[]; renamingItem: TreeItemIndex | null }>) {
+    this.presence = {
+      selectedItems: presence.selectedItems ?? this.presence.selectedItems,
+      renamingItem: presence.renamingItem === undefined
+        ? this.presence.renamingItem
+        : presence.renamingItem ?? undefined
+    };
+    if (this.joined) this.send({ type: 'presence', ...this.presence });
+  }
+
+  private send(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private replayPending() {
+    this.view = this.pending.reduce((view, op) => applyRequests(view, op.requests), this.confirmed);
+  }
+
+  private receive(message: ServerMessage) {
+    switch (message.type) {
+      case 'welcome': {
+        this.joined = true;
+        this.handlers.onStatus('live');
+        if (!message.snapshot) {
+          // The relay has no league yet, so this client's one seeds it
+          this.send({ type: 'snapshot', seq: message.seq, items: this.view.items, seed: true });
+          return;
+        }
+
+        this.confirmed = createLeagueState(message.snapshot);
+        this.seq = message.seq;
+        message.ops.forEach(op => this.confirm(op));
+        this.replayPending();
+        this.handlers.onReset(this.view.items);
+        this.pending.forEach(op => this.send({ type: 'op', op }));
+        this.send({ type: 'presence', ...this.presence });
+        break;
+      }
+      case 'reset':
+        this.confirmed = createLeagueState(message.items);
+        this.seq = message.seq;
+        if (message.clientId === this.user.clientId) {
+          // The league seeded from here already has every change made here
+          this.pending = [];
+        }
+        // Otherwise the changes made here are kept on top of the new league
+        // and sent again; the relay ignores any it has already numbered
+        this.replayPending();
+        this.handlers.onReset(this.view.items);
+        this.pending.forEach(op => this.send({ type: 'op', op }));
+        this.send({ type: 'presence', ...this.presence });
+        break;
+      case 'op': {
+        const before = this.confirmed.items;
+        const own = this.confirm(message.op);
+        if (this.seq % SNAPSHOT_INTERVAL === 0) {
+          this.send({ type: 'snapshot', seq: this.seq, items: this.confirmed.items });
+        }
+        if (own) return;
+
+        this.replayPending();
+        this.handlers.onRemoteChange(this.view, message.op, before, this.confirmed.items);
+        break;
+      }
+      case 'duplicate':
+        // The relay already has this operation, it just wasn't echoed to this connection
+        this.pending = this.pending.filter(op => op.opId !== message.opId);
+        break;
+      case 'presence':
+        this.handlers.onPresence(message.peers.filter(peer => peer.clientId !== this.user.clientId));
+        break;
+    }
+  }
+
+  // Apply a numbered operation to the confirmed league. Returns true when it
+  // was this client's own, already shown, operation.
+  private confirm(op: CollabOperation): boolean {
+    this.confirmed = applyRequests(this.confirmed, op.requests);
+    this.seq = op.seq ?? this.seq + 1;
+
+    const index = this.pending.findIndex(pendingOp => pendingOp.opId === op.opId);
+    if (index === -1) return false;
+    this.pending.splice(index, 1);
+    return true;
+  }
+}
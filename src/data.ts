@@ -1,15 +1,6 @@
-import { TreeItem, TreeItemIndex } from 'react-complex-tree';
+import { LeagueItems } from './types';
 
-interface ItemData {
-  name: string;
-  type: 'Conference' | 'Division' | 'Team';
-}
-
-interface LeagueItem extends TreeItem {
-  data: ItemData;
-}
-
-export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
+export const leagueStructure: LeagueItems = {
   root: {
     index: 'root',
     isFolder: true,
@@ -25,7 +16,11 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: ['8u', '10u', '12u', '13u'],
     data: {
       name: 'Monday',
-      type: 'Conference'
+      type: 'Conference',
+      fields: {
+        dayOfWeek: 'Monday',
+        startTime: '18:00'
+      }
     }
   },
   wednesday: {
@@ -34,7 +29,11 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: ['8u-wed', '10u-wed', '12u-wed', '13u-wed'],
     data: {
       name: 'Wednesday',
-      type: 'Conference'
+      type: 'Conference',
+      fields: {
+        dayOfWeek: 'Wednesday',
+        startTime: '18:00'
+      }
     }
   },
   friday: {
@@ -43,7 +42,11 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: ['8u-fri', '10u-fri', '12u-fri', '13u-fri'],
     data: {
       name: 'Friday',
-      type: 'Conference'
+      type: 'Conference',
+      fields: {
+        dayOfWeek: 'Friday',
+        startTime: '18:00'
+      }
     }
   },
   '8u': {
@@ -52,7 +55,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: ['team-8u-1', 'team-8u-2'],
     data: {
       name: '8U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 7,
+        maxAge: 8,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   '10u': {
@@ -61,7 +70,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: [],
     data: {
       name: '10U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 9,
+        maxAge: 10,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   '12u': {
@@ -70,7 +85,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: ['team-12u-1', 'team-12u-2', 'team-12u-3'],
     data: {
       name: '12U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 11,
+        maxAge: 12,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   '13u': {
@@ -79,7 +100,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: [],
     data: {
       name: '13U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 13,
+        maxAge: 13,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   '8u-wed': {
@@ -88,7 +115,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: [],
     data: {
       name: '8U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 7,
+        maxAge: 8,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   '10u-wed': {
@@ -97,7 +130,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: ['team-10u-wed-1', 'team-10u-wed-2'],
     data: {
       name: '10U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 9,
+        maxAge: 10,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   '12u-wed': {
@@ -106,7 +145,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: [],
     data: {
       name: '12U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 11,
+        maxAge: 12,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   '13u-wed': {
@@ -115,7 +160,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: ['team-13u-wed-1'],
     data: {
       name: '13U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 13,
+        maxAge: 13,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   '8u-fri': {
@@ -124,7 +175,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: [],
     data: {
       name: '8U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 7,
+        maxAge: 8,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   '10u-fri': {
@@ -133,7 +190,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: [],
     data: {
       name: '10U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 9,
+        maxAge: 10,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   '12u-fri': {
@@ -142,7 +205,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: ['team-12u-fri-1', 'team-12u-fri-2'],
     data: {
       name: '12U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 11,
+        maxAge: 12,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   '13u-fri': {
@@ -151,16 +220,29 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     children: [],
     data: {
       name: '13U',
-      type: 'Division'
+      type: 'Division',
+      fields: {
+        minAge: 13,
+        maxAge: 13,
+        maxTeams: 6,
+        maxRoster: 12
+      }
     }
   },
   // Teams for Monday 8U
   'team-8u-1': {
     index: 'team-8u-1',
-    isFolder: false,
+    isFolder: true,
+    children: ['player-8u-1-1', 'player-8u-1-2'],
     data: {
       name: 'Tigers',
-      type: 'Team'
+      type: 'Team',
+      fields: {
+        coach: 'Maria Lopez',
+        email: 'maria@example.com',
+        color: '#F57C00',
+        rosterSize: 12
+      }
     }
   },
   'team-8u-2': {
@@ -168,7 +250,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     isFolder: false,
     data: {
       name: 'Lions',
-      type: 'Team'
+      type: 'Team',
+      fields: {
+        coach: 'James Carter',
+        email: 'james@example.com',
+        color: '#FBC02D',
+        rosterSize: 12
+      }
     }
   },
   // Teams for Monday 12U
@@ -177,7 +265,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     isFolder: false,
     data: {
       name: 'Eagles',
-      type: 'Team'
+      type: 'Team',
+      fields: {
+        coach: 'Priya Shah',
+        email: 'priya@example.com',
+        color: '#5D4037',
+        rosterSize: 12
+      }
     }
   },
   'team-12u-2': {
@@ -185,7 +279,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     isFolder: false,
     data: {
       name: 'Hawks',
-      type: 'Team'
+      type: 'Team',
+      fields: {
+        coach: 'Tom Becker',
+        email: 'tom@example.com',
+        color: '#455A64',
+        rosterSize: 12
+      }
     }
   },
   'team-12u-3': {
@@ -193,7 +293,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     isFolder: false,
     data: {
       name: 'Falcons',
-      type: 'Team'
+      type: 'Team',
+      fields: {
+        coach: 'Aisha Khan',
+        email: 'aisha@example.com',
+        color: '#C62828',
+        rosterSize: 12
+      }
     }
   },
   // Teams for Wednesday 10U
@@ -202,7 +308,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     isFolder: false,
     data: {
       name: 'Sharks',
-      type: 'Team'
+      type: 'Team',
+      fields: {
+        coach: 'Daniel Kim',
+        email: 'daniel@example.com',
+        color: '#1565C0',
+        rosterSize: 12
+      }
     }
   },
   'team-10u-wed-2': {
@@ -210,7 +322,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     isFolder: false,
     data: {
       name: 'Dolphins',
-      type: 'Team'
+      type: 'Team',
+      fields: {
+        coach: 'Emma Novak',
+        email: 'emma@example.com',
+        color: '#00ACC1',
+        rosterSize: 12
+      }
     }
   },
   // Team for Wednesday 13U
@@ -219,7 +337,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     isFolder: false,
     data: {
       name: 'Cougars',
-      type: 'Team'
+      type: 'Team',
+      fields: {
+        coach: 'Luis Garcia',
+        email: 'luis@example.com',
+        color: '#6A1B9A',
+        rosterSize: 12
+      }
     }
   },
   // Teams for Friday 12U
@@ -228,7 +352,13 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     isFolder: false,
     data: {
       name: 'Bears',
-      type: 'Team'
+      type: 'Team',
+      fields: {
+        coach: 'Olivia Brown',
+        email: 'olivia@example.com',
+        color: '#3E2723',
+        rosterSize: 12
+      }
     }
   },
   'team-12u-fri-2': {
@@ -236,7 +366,37 @@ export const leagueStructure: Record<TreeItemIndex, LeagueItem> = {
     isFolder: false,
     data: {
       name: 'Wolves',
-      type: 'Team'
+      type: 'Team',
+      fields: {
+        coach: 'Noah Wilson',
+        email: 'noah@example.com',
+        color: '#616161',
+        rosterSize: 12
+      }
+    }
+  },
+  'player-8u-1-1': {
+    index: 'player-8u-1-1',
+    isFolder: false,
+    data: {
+      name: 'Sofia Reyes',
+      type: 'Player',
+      fields: {
+        jerseyNumber: 7,
+        birthdate: '2018-06-02'
+      }
+    }
+  },
+  'player-8u-1-2': {
+    index: 'player-8u-1-2',
+    isFolder: false,
+    data: {
+      name: 'Liam Chen',
+      type: 'Player',
+      fields: {
+        jerseyNumber: 12,
+        birthdate: '2019-03-15'
+      }
     }
   }
 };
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { allowedTypesForItem, explainPlacement, parentKindOf } from './hierarchyRules';
+import { createLeagueState } from './leagueStore';
+import { LeagueItems } from './types';
+
+describe('explainPlacement', () => {
+  it('allows the types the rules list for a parent', () => {
+    expect(explainPlacement('root', 'Conference')).toBeNull();
+    expect(explainPlacement('Conference', 'Division')).toBeNull();
+    expect(explainPlacement('Division', 'Team')).toBeNull();
+    expect(explainPlacement('Team', 'Player')).toBeNull();
+  });
+
+  it('explains placements at the top level', () => {
+    expect(explainPlacement('root', 'Team')).toBe(
+      "A Team can't be placed at the top level: The league can only contain Conferences."
+    );
+  });
+
+  it('explains placements inside another item', () => {
+    expect(explainPlacement('Division', 'Division')).toBe(
+      "A Division can't be placed inside a Division: Divisions can only contain Teams."
+    );
+  });
+
+  it('explains that Players take no children', () => {
+    expect(explainPlacement('Player', 'Player')).toBe(
+      "A Player can't be placed inside a Player: Players can't contain other items."
+    );
+  });
+});
+
+describe('parentKindOf and allowedTypesForItem', () => {
+  const items: LeagueItems = {
+    root: { index: 'root', isFolder: true, children: ['monday'], data: { name: 'League', type: 'Conference' } },
+    monday: { index: 'monday', isFolder: true, children: ['8u'], data: { name: 'Monday', type: 'Conference' } },
+    '8u': { index: '8u', isFolder: true, children: [], data: { name: '8U', type: 'Division' } }
+  };
+
+  it('treats season roots as the top level', () => {
+    expect(parentKindOf(items, 'root')).toBe('root');
+    expect(parentKindOf(items, 'monday')).toBe('Conference');
+  });
+
+  it('only offers types the parent accepts', () => {
+    expect(allowedTypesForItem(createLeagueState(items), '8u')).toEqual(['Division']);
+  });
+});
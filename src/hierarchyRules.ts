@@ -0,0 +1,97 @@
+import { TreeItem, TreeItemIndex, DraggingPosition } from 'react-complex-tree';
+import { ItemData, LeagueItems } from './types';
+import { LeagueState } from './leagueStore';
+import { explainRosterLimit } from './rosterRules';
+import { isSeasonRoot } from './seasons';
+
+type ItemType = ItemData['type'];
+
+// Season roots are not real Conferences, so they get their own entry in the rules
+export type ParentKind = ItemType | 'root';
+
+export const ITEM_TYPES: ItemType[] = ['Conference', 'Division', 'Team', 'Player'];
+
+/**
+ * Which item types may be placed directly under each kind of parent, in
+ * order of preference (the first entry is the default for new children).
+ */
+export const HIERARCHY_RULES: Record<ParentKind, ItemType[]> = {
+  root: ['Conference'],
+  Conference: ['Division'],
+  Division: ['Team'],
+  Team: ['Player'],
+  Player: []
+};
+
+const plural = (kind: ParentKind) => (kind === 'root' ? 'the league' : `${kind}s`);
+
+// Resolve the kind of parent an item acts as
+export const parentKindOf = (items: LeagueItems, parentId: TreeItemIndex): ParentKind =>
+  isSeasonRoot(parentId) ? 'root' : items[parentId]?.data.type ?? 'root';
+
+export const allowedChildTypes = (kind: ParentKind): ItemType[] => HIERARCHY_RULES[kind];
+
+export const canContain = (kind: ParentKind, childType: ItemType) =>
+  HIERARCHY_RULES[kind].includes(childType);
+
+// The type a newly added child should get, or null if the parent takes no children
+export const defaultChildType = (kind: ParentKind): ItemType | null =>
+  HIERARCHY_RULES[kind][0] ?? null;
+
+/**
+ * Explains why a child type can't go under a parent, e.g. "A Conference can't
+ * be placed inside a Team: Teams can't contain other items." Returns null
+ * when the placement is allowed.
+ */
+export const explainPlacement = (kind: ParentKind, childType: ItemType): string | null => {
+  if (canContain(kind, childType)) return null;
+
+  const allowed = HIERARCHY_RULES[kind];
+  const where = kind === 'root' ? 'at the top level' : `inside a ${kind}`;
+  const reason = allowed.length === 0
+    ? `${plural(kind)} can't contain other items`
+    : `${plural(kind)} can only contain ${allowed.map(type => `${type}s`).join(' or ')}`;
+
+  return `A ${childType} can't be placed ${where}: ${reason.charAt(0).toUpperCase()}${reason.slice(1)}.`;
+};
+
+// The parent an item would end up under for a given drop position
+export const dropParentId = (target: DraggingPosition): TreeItemIndex =>
+  target.targetType === 'between-items' ? target.parentItem : target.targetItem;
+
+/**
+ * Explain why the dragged items can't be dropped at the target, or null if
+ * they can. Besides the hierarchy, Players have to fit on the Team's roster.
+ */
+export const explainDrop = (
+  state: LeagueState,
+  draggedItems: TreeItem<ItemData>[],
+  parentId: TreeItemIndex
+): string | null => {
+  const kind = parentKindOf(state.items, parentId);
+  for (const dragged of draggedItems) {
+    const explanation = explainPlacement(kind, dragged.data.type);
+    if (explanation) return explanation;
+  }
+  return explainRosterLimit(state, parentId, draggedItems);
+};
+
+/**
+ * The types an existing item may be changed to: its parent has to accept the
+ * new type and the new type has to accept all of the item's current children.
+ */
+export const allowedTypesForItem = (state: LeagueState, itemId: TreeItemIndex): ItemType[] => {
+  const { items, parents } = state;
+  const item = items[itemId];
+  if (!item) return [];
+
+  const parentId = parents[itemId];
+  const parentKind = parentId === undefined ? 'root' : parentKindOf(items, parentId);
+  const childTypes = (item.children ?? [])
+    .map(childId => items[childId]?.data.type)
+    .filter((type): type is ItemType => Boolean(type));
+
+  return ITEM_TYPES.filter(type =>
+    canContain(parentKind, type) && childTypes.every(childType => canContain(type, childType))
+  );
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { LeagueItems } from './types';
+import { applyImport, exportCsv, joinPath, parseCsv, parseCsvRows, splitPath, toNestedNodes } from './importExport';
+
+describe('parseCsvRows', () => {
+  it('honors quoted fields with separators, quotes and line breaks', () => {
+    expect(parseCsvRows('a,"b,c","say ""hi""","two\r\nlines"\r\n\r\nd')).toEqual([
+      ['a', 'b,c', 'say "hi"', 'two\r\nlines'],
+      ['d']
+    ]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('builds nested nodes from the level columns', () => {
+    const { nodes, errors } = parseCsv([
+      'Night,Division,Team,Player',
+      'Monday,8U,Tigers,',
+      'Monday,8U,Hawks,Ava'
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(nodes).toEqual([{
+      name: 'Monday',
+      type: 'Conference',
+      children: [{
+        name: '8U',
+        type: 'Division',
+        children: [
+          { name: 'Tigers', type: 'Team' },
+          { name: 'Hawks', type: 'Team', children: [{ name: 'Ava', type: 'Player' }] }
+        ]
+      }]
+    }]);
+  });
+
+  it('reads the path and type columns', () => {
+    const { nodes, errors } = parseCsv('Path,Type\nFriday,Conference\nFriday / 12U,Division');
+    expect(errors).toEqual([]);
+    expect(nodes).toEqual([{ name: 'Friday', type: 'Conference', children: [{ name: '12U', type: 'Division' }] }]);
+  });
+
+  it('reports rows that break the hierarchy rules', () => {
+    const { errors } = parseCsv('Path,Type\nTigers,Team');
+    expect(errors).toEqual([{ row: '2', message: expect.stringContaining("A Team can't be placed at the top level") }]);
+  });
+
+  it('reports levels given without the ones above them', () => {
+    const { errors } = parseCsv('Night,Division,Team\nMonday,,Tigers');
+    expect(errors).toEqual([{ row: '2', message: 'A Division, Team or Player is given without the levels above it' }]);
+  });
+
+  it('reports unknown types, duplicate rows and a missing header', () => {
+    expect(parseCsv('Path,Type\nMonday,League').errors[0].message).toContain('Unknown type "League"');
+    expect(parseCsv('Path\nMonday\nMonday').errors).toEqual([{ row: '3', message: 'Duplicate row for "Monday"' }]);
+    expect(parseCsv('Name\nMonday').errors[0].row).toBe('1');
+    expect(parseCsv('').errors).toEqual([{ row: '1', message: 'The file is empty' }]);
+  });
+});
+
+describe('Path column', () => {
+  it('escapes slashes in names so the path splits into the same names', () => {
+    const names = ['Monday', 'U8/U9 Mixed', 'Back\\slash', 'Tigers'];
+    expect(joinPath(names)).toBe('Monday / U8\\/U9 Mixed / Back\\\\slash / Tigers');
+    expect(splitPath(joinPath(names))).toEqual(names);
+  });
+
+  it('splits hand-written paths with or without spaces', () => {
+    expect(splitPath('Monday/8U / Tigers')).toEqual(['Monday', '8U', 'Tigers']);
+  });
+
+  it('reads an escaped path when the level columns are empty', () => {
+    const { nodes } = parseCsv('Path,Type\nMonday,Conference\n"Monday / U8\\/U9 Mixed",Division');
+    expect(nodes[0].children).toEqual([{ name: 'U8/U9 Mixed', type: 'Division' }]);
+  });
+
+  it('prefers the level columns over a path that splits differently', () => {
+    // Written before names in the path were escaped
+    const { nodes, errors } = parseCsv('Night,Division,Team,Player,Path,Type\nMonday,U8/U9 Mixed,Tigers,,Monday / U8/U9 Mixed / Tigers,Team');
+    expect(errors).toEqual([]);
+    expect(nodes[0].children?.[0].name).toBe('U8/U9 Mixed');
+  });
+});
+
+describe('CSV round trip', () => {
+  it('imports its own export unchanged, including names with slashes, commas and quotes', () => {
+    const items: LeagueItems = {
+      root: { index: 'root', isFolder: true, children: ['monday', 'friday'], data: { name: 'League', type: 'Conference' } },
+      monday: { index: 'monday', isFolder: true, children: ['mixed'], data: { name: 'Monday', type: 'Conference' } },
+      friday: { index: 'friday', isFolder: true, children: [], data: { name: 'Friday / Late', type: 'Conference' } },
+      mixed: { index: 'mixed', isFolder: true, children: ['tigers', 'hawks'], data: { name: 'U8/U9 Mixed', type: 'Division' } },
+      tigers: { index: 'tigers', isFolder: true, children: ['ava'], data: { name: 'Tigers, "Red"', type: 'Team' } },
+      hawks: { index: 'hawks', data: { name: 'Hawks\\North', type: 'Team' } },
+      ava: { index: 'ava', data: { name: 'Ava O/Neil', type: 'Player' } }
+    };
+
+    const { nodes, errors } = parseCsv(exportCsv(items));
+    expect(errors).toEqual([]);
+    expect(nodes).toEqual(toNestedNodes(items));
+  });
+});
+
+describe('applyImport', () => {
+  it('creates every Team as a folder, so Players can be added to it', () => {
+    const items = applyImport({}, [{
+      name: '8U',
+      type: 'Division',
+      children: [{ name: 'Tigers', type: 'Team' }, { name: 'Hawks', type: 'Team', children: [{ name: 'Ava', type: 'Player' }] }]
+    }], 'replace');
+    const byName = (name: string) => Object.values(items).find(item => item.data.name === name);
+
+    expect(byName('Tigers')).toMatchObject({ isFolder: true, children: [] });
+    expect(byName('Hawks')?.children).toHaveLength(1);
+    expect(byName('Ava')?.isFolder).toBe(false);
+  });
+});
@@ -0,0 +1,476 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData, ItemFields, LeagueItem, LeagueItems } from './types';
+import { ITEM_TYPES, ParentKind, allowedChildTypes, explainPlacement } from './hierarchyRules';
+import { normalizeFields, validateFields } from './itemSchema';
+import { collectSubtree } from './leagueStore';
+
+// Version of the nested JSON export format
+export const EXPORT_FORMAT_VERSION = 1;
+
+export const CSV_COLUMNS = ['Night', 'Division', 'Team', 'Player', 'Path', 'Type'];
+
+// Separator between names in the CSV Path column
+export const PATH_SEPARATOR = ' / ';
+
+// A "/" inside a name is written as "\/" (and a backslash as "\\") so the
+// Path column can be split into names again
+const escapePathName = (name: string) => name.replace(/[\\/]/g, match => `\\${match}`);
+
+export const joinPath = (names: string[]) => names.map(escapePathName).join(PATH_SEPARATOR);
+
+// Split a Path on unescaped slashes, with or without spaces around them
+export const splitPath = (path: string): string[] => {
+  const names: string[] = [];
+  let name = '';
+  for (let i = 0; i < path.length; i++) {
+    if (path[i] === '\\' && i + 1 < path.length) {
+      name += path[++i];
+    } else if (path[i] === '/') {
+      names.push(name.trim());
+      name = '';
+    } else {
+      name += path[i];
+    }
+  }
+  return [...names, name.trim()];
+};
+
+// One item in the nested JSON format, with its descendants inlined
+export interface NestedNode {
+  name: string;
+  type: ItemData['type'];
+  fields?: ItemFields;
+  children?: NestedNode[];
+}
+
+export interface NestedExport {
+  version: number;
+  exportedAt: string;
+  league: NestedNode[];
+}
+
+export type ImportFormat = 'json' | 'csv';
+export type ImportMode = 'merge' | 'replace';
+
+// A problem with one row (CSV) or node (JSON) of the imported data
+export interface ImportError {
+  row: string;
+  message: string;
+}
+
+export interface ParsedImport {
+  nodes: NestedNode[];
+  errors: ImportError[];
+}
+
+// The type used for a CSV row without a Type, by depth below the root
+const TYPE_BY_DEPTH: ItemData['type'][] = ['Conference', 'Division', 'Team', 'Player'];
+const inferType = (depth: number) => TYPE_BY_DEPTH[Math.min(depth, TYPE_BY_DEPTH.length - 1)];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Walk the tree below the root in display order, reporting each item's ancestor names
+const walk = (
+  items: LeagueItems,
+  parentId: TreeItemIndex,
+  ancestors: string[],
+  visit: (item: LeagueItem, path: string[]) => void
+) => {
+  (items[parentId]?.children ?? []).forEach(childId => {
+    const child = items[childId];
+    if (!child) return;
+    const path = [...ancestors, child.data.name];
+    visit(child, path);
+    walk(items, childId, path, visit);
+  });
+};
+
+// Convert an item and everything below it into the nested JSON format
+export const toNestedNode = (items: LeagueItems, itemId: TreeItemIndex): NestedNode => {
+  const item = items[itemId];
+  const node: NestedNode = { name: item.data.name, type: item.data.type };
+  if (item.data.fields && Object.keys(item.data.fields).length > 0) {
+    node.fields = item.data.fields;
+  }
+  if (item.children && item.children.length > 0) {
+    node.children = toNestedNodes(items, itemId);
+  }
+  return node;
+};
+
+// Convert the items below the root into the nested JSON format
+export const toNestedNodes = (items: LeagueItems, parentId: TreeItemIndex = 'root'): NestedNode[] =>
+  (items[parentId]?.children ?? [])
+    .filter(childId => items[childId])
+    .map(childId => toNestedNode(items, childId));
+
+export const exportJson = (items: LeagueItems): string => {
+  const payload: NestedExport = {
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    league: toNestedNodes(items)
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+// Quote a CSV field when it contains a separator, quote or line break
+export const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// One row per item: the Night/Division/Team/Player columns hold the names at
+// the first four levels, Path holds the full chain of names for deeper trees
+export const exportCsv = (items: LeagueItems): string => {
+  const rows = [CSV_COLUMNS];
+  walk(items, 'root', [], (item, path) => {
+    rows.push([path[0] ?? '', path[1] ?? '', path[2] ?? '', path[3] ?? '', joinPath(path), item.data.type]);
+  });
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+};
+
+// Split CSV text into rows of fields, honoring quoted fields
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+/**
+ * Parses CSV rows into nested nodes. The Night/Division/Team/Player columns
+ * describe the path; the Path column is used when they are empty or when it
+ * goes deeper than they do. Ancestors that have no row of their own are
+ * created with the type implied by their depth.
+ */
+export const parseCsv = (text: string): ParsedImport => {
+  const rows = parseCsvRows(text);
+  const errors: ImportError[] = [];
+  if (rows.length === 0) {
+    return { nodes: [], errors: [{ row: '1', message: 'The file is empty' }] };
+  }
+
+  const header = rows[0].map(column => column.trim().toLowerCase());
+  const columnIndex = (name: string) => header.indexOf(name.toLowerCase());
+  const pathColumn = columnIndex('Path');
+  const typeColumn = columnIndex('Type');
+  const levelColumns = ['Night', 'Division', 'Team', 'Player'].map(columnIndex);
+
+  if (pathColumn === -1 && levelColumns.every(index => index === -1)) {
+    return {
+      nodes: [],
+      errors: [{ row: '1', message: `Expected a header row with the columns ${CSV_COLUMNS.join(', ')}` }]
+    };
+  }
+
+  const roots: NestedNode[] = [];
+  // Nodes already created, keyed by their path. Names may contain the Path
+  // separator, so the key joins them with a character names never have.
+  const pathKey = (path: string[]) => path.join('\u0000');
+  const byPath = new Map<string, NestedNode>();
+  const explicitPaths = new Set<string>();
+
+  rows.slice(1).forEach((row, i) => {
+    const rowNumber = String(i + 2);
+    const cell = (index: number) => (index === -1 ? '' : (row[index] ?? '').trim());
+
+    // Night/Division/Team/Player names up to the first empty column
+    const levels = levelColumns.map(cell);
+    const firstEmpty = levels.findIndex(name => !name);
+    const filledLevels = firstEmpty === -1 ? levels : levels.slice(0, firstEmpty);
+
+    // The level columns name each level exactly, so the Path only wins when
+    // it goes deeper than they do and agrees with them on the way
+    const pathNames = pathColumn !== -1 && cell(pathColumn) ? splitPath(cell(pathColumn)) : [];
+    const usePath = pathNames.length > filledLevels.length &&
+      filledLevels.every((name, depth) => pathNames[depth] === name);
+    const path = usePath ? pathNames : filledLevels;
+
+    if (!usePath && levels.slice(path.length).some(Boolean)) {
+      errors.push({ row: rowNumber, message: 'A Division, Team or Player is given without the levels above it' });
+      return;
+    }
+    if (path.length === 0) {
+      errors.push({ row: rowNumber, message: 'Row has no path or Night/Division/Team/Player names' });
+      return;
+    }
+    if (path.some(name => !name)) {
+      errors.push({ row: rowNumber, message: `Path "${cell(pathColumn)}" contains an empty name` });
+      return;
+    }
+
+    const rawType = cell(typeColumn);
+    const type = rawType
+      ? ITEM_TYPES.find(t => t.toLowerCase() === rawType.toLowerCase())
+      : inferType(path.length - 1);
+    if (!type) {
+      errors.push({ row: rowNumber, message: `Unknown type "${rawType}" (expected ${ITEM_TYPES.join(', ')})` });
+      return;
+    }
+
+    // The parent is either created by an earlier row or implied by its depth
+    const parentKind: ParentKind = path.length === 1
+      ? 'root'
+      : byPath.get(pathKey(path.slice(0, -1)))?.type ?? inferType(path.length - 2);
+    const placement = explainPlacement(parentKind, type);
+    if (placement) {
+      errors.push({ row: rowNumber, message: placement });
+      return;
+    }
+
+    const key = pathKey(path);
+    if (explicitPaths.has(key)) {
+      errors.push({ row: rowNumber, message: `Duplicate row for "${joinPath(path)}"` });
+      return;
+    }
+    explicitPaths.add(key);
+
+    // Create or reuse every node along the path
+    let siblings = roots;
+    path.forEach((name, depth) => {
+      const partialKey = pathKey(path.slice(0, depth + 1));
+      let node = byPath.get(partialKey);
+      const isLast = depth === path.length - 1;
+
+      if (!node) {
+        node = { name, type: isLast ? type : inferType(depth) };
+        byPath.set(partialKey, node);
+        siblings.push(node);
+      } else if (isLast) {
+        // An earlier row implied this node; this row sets its real type
+        node.type = type;
+      }
+
+      if (!isLast) {
+        node.children = node.children ?? [];
+        siblings = node.children;
+      }
+    });
+  });
+
+  return { nodes: roots, errors };
+};
+
+/**
+ * Validate nested JSON nodes, dropping invalid ones (and their subtrees).
+ * With a null `parentKind` the top-level nodes may have any type, for nodes
+ * whose parent isn't known yet.
+ */
+export const parseNestedNodes = (
+  value: unknown,
+  location: string,
+  errors: ImportError[],
+  parentKind: ParentKind | null = 'root'
+): NestedNode[] => {
+  if (!Array.isArray(value)) {
+    errors.push({ row: location, message: 'Expected a list of items' });
+    return [];
+  }
+
+  return value.flatMap((entry, i): NestedNode[] => {
+    const row = `${location}[${i}]`;
+    if (!isObject(entry)) {
+      errors.push({ row, message: 'Expected an object with a name and type' });
+      return [];
+    }
+    if (typeof entry.name !== 'string' || !entry.name.trim()) {
+      errors.push({ row, message: 'Missing name' });
+      return [];
+    }
+    if (!ITEM_TYPES.includes(entry.type as ItemData['type'])) {
+      errors.push({ row, message: `Unknown type "${String(entry.type)}" for "${entry.name}"` });
+      return [];
+    }
+
+    const node: NestedNode = { name: entry.name.trim(), type: entry.type as ItemData['type'] };
+    const placement = parentKind && explainPlacement(parentKind, node.type);
+    if (placement) {
+      errors.push({ row, message: `${placement} ("${node.name}")` });
+      return [];
+    }
+    if (entry.fields !== undefined) {
+      // Invalid values are reported and left out, but don't keep the item out.
+      // Missing values are fine here; they can be filled in later.
+      const fields = isObject(entry.fields) ? (entry.fields as ItemFields) : {};
+      const fieldErrors = validateFields(node.type, fields);
+      const valid: ItemFields = {};
+      Object.keys(fields).forEach(key => {
+        if (fieldErrors[key]) {
+          errors.push({ row, message: `${fieldErrors[key]} ("${node.name}")` });
+        } else {
+          valid[key] = fields[key];
+        }
+      });
+      node.fields = normalizeFields(node.type, valid);
+    }
+    if (entry.children !== undefined) {
+      node.children = parseNestedNodes(entry.children, `${row}.children`, errors, node.type);
+    }
+    return [node];
+  });
+};
+
+// Accepts either the export envelope or a bare list of nodes
+export const parseJson = (text: string): ParsedImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { nodes: [], errors: [{ row: '-', message: `Invalid JSON: ${reason}` }] };
+  }
+
+  const errors: ImportError[] = [];
+  if (isObject(parsed)) {
+    if (typeof parsed.version === 'number' && parsed.version > EXPORT_FORMAT_VERSION) {
+      errors.push({ row: 'version', message: `Format version ${parsed.version} is newer than this app supports` });
+      return { nodes: [], errors };
+    }
+    return { nodes: parseNestedNodes(parsed.league, 'league', errors), errors };
+  }
+  return { nodes: parseNestedNodes(parsed, 'league', errors), errors };
+};
+
+// Pick the format from the file name, falling back to sniffing the content
+export const detectFormat = (fileName: string, text: string): ImportFormat => {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+};
+
+export const parseImport = (text: string, format: ImportFormat): ParsedImport =>
+  format === 'json' ? parseJson(text) : parseCsv(text);
+
+// Count imported nodes per type, for the preview
+export const countNodes = (nodes: NestedNode[]) => {
+  const counts: Record<ItemData['type'], number> = { Conference: 0, Division: 0, Team: 0, Player: 0 };
+  const visit = (list: NestedNode[]) => list.forEach(node => {
+    counts[node.type] += 1;
+    visit(node.children ?? []);
+  });
+  visit(nodes);
+  return counts;
+};
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'item';
+
+/**
+ * Turns nested nodes into `LeagueItem` records linked through `children`.
+ * In replace mode the root's children are swapped for the imported ones,
+ * leaving items outside the root (such as a draft season) alone. In
+ * merge mode a node whose name and type match an existing sibling reuses
+ * that item, so re-importing a sheet only adds what is new.
+ */
+export const applyImport = (items: LeagueItems, nodes: NestedNode[], mode: ImportMode): LeagueItems => {
+  const stamp = Date.now();
+  let counter = 0;
+  const rootItem: LeagueItem = items['root'] ?? {
+    index: 'root',
+    data: { name: 'League Structure', type: 'Conference' }
+  };
+
+  const replaced = new Set(mode === 'replace' ? collectSubtree(items, 'root') : []);
+  const kept: LeagueItems = {};
+  Object.keys(items).filter(id => !replaced.has(id)).forEach(id => {
+    kept[id] = items[id];
+  });
+
+  const newItems: LeagueItems = {
+    ...kept,
+    root: { ...rootItem, isFolder: true, children: mode === 'replace' ? [] : rootItem.children ?? [] }
+  };
+
+  const insert = (list: NestedNode[], parentId: TreeItemIndex) => {
+    list.forEach(node => {
+      const parent = newItems[parentId];
+      const siblings = parent.children ?? [];
+
+      const existingId = mode === 'merge'
+        ? siblings.find(id => {
+          const sibling = newItems[id];
+          return sibling
+            && sibling.data.type === node.type
+            && sibling.data.name.toLowerCase() === node.name.toLowerCase();
+        })
+        : undefined;
+
+      let id = existingId;
+      if (id === undefined) {
+        id = `${slugify(node.name)}-import-${stamp}-${counter++}`;
+        // Types that can hold children are folders even when empty, so Players can be added to a Team
+        const isFolder = allowedChildTypes(node.type).length > 0 || Boolean(node.children?.length);
+        newItems[id] = {
+          index: id,
+          isFolder,
+          ...(isFolder ? { children: [] } : {}),
+          data: {
+            name: node.name,
+            type: node.type,
+            ...(node.fields ? { fields: node.fields } : {})
+          },
+          canMove: true,
+          canRename: true
+        };
+        newItems[parentId] = { ...parent, isFolder: true, children: [...siblings, id] };
+      }
+
+      if (node.children && node.children.length > 0) {
+        const item = newItems[id];
+        if (!item.children) {
+          newItems[id] = { ...item, isFolder: true, children: [] };
+        }
+        insert(node.children, id);
+      }
+    });
+  };
+
+  insert(nodes, 'root');
+  return newItems;
+};
+
+// Offer text content to the user as a file download
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,175 @@
+import { FieldValue, ItemData, ItemFields } from './types';
+
+type ItemType = ItemData['type'];
+
+export type FieldKind = 'text' | 'email' | 'color' | 'number' | 'time' | 'date' | 'select';
+
+// Describes one field of an item type, for both its form input and its validation
+export interface FieldDefinition {
+  key: string;
+  label: string;
+  kind: FieldKind;
+  required?: boolean;
+  // Allowed values of select fields
+  options?: string[];
+  // Bounds of number fields
+  min?: number;
+  max?: number;
+  placeholder?: string;
+  // Show the value next to the item in the tree
+  showInRow?: boolean;
+  // Included in published links. Everything else, such as birthdates and
+  // contact details, stays with the coordinators.
+  public?: boolean;
+}
+
+export const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export const ITEM_SCHEMAS: Record<ItemType, FieldDefinition[]> = {
+  Conference: [
+    { key: 'dayOfWeek', label: 'Day of Week', kind: 'select', options: DAYS_OF_WEEK, required: true, showInRow: true, public: true },
+    { key: 'startTime', label: 'Start Time', kind: 'time', required: true, showInRow: true, public: true }
+  ],
+  Division: [
+    { key: 'minAge', label: 'Minimum Age', kind: 'number', min: 3, max: 19, required: true, showInRow: true, public: true },
+    { key: 'maxAge', label: 'Maximum Age', kind: 'number', min: 3, max: 19, required: true, showInRow: true, public: true },
+    { key: 'maxTeams', label: 'Max Teams', kind: 'number', min: 2, max: 32, required: true, showInRow: true },
+    { key: 'maxRoster', label: 'Max Players per Team', kind: 'number', min: 1, max: 40, showInRow: true }
+  ],
+  Team: [
+    { key: 'coach', label: 'Coach', kind: 'text', required: true, placeholder: 'Coach name', showInRow: true },
+    { key: 'email', label: 'Contact Email', kind: 'email', placeholder: 'coach@example.com' },
+    { key: 'color', label: 'Team Color', kind: 'color', showInRow: true, public: true },
+    { key: 'rosterSize', label: 'Roster Size', kind: 'number', min: 1, max: 40, showInRow: true }
+  ],
+  Player: [
+    { key: 'jerseyNumber', label: 'Jersey Number', kind: 'number', min: 0, max: 99, showInRow: true, public: true },
+    { key: 'birthdate', label: 'Birthdate', kind: 'date', required: true, showInRow: true }
+  ]
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// True for a real calendar date written as YYYY-MM-DD
+export const isValidDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+const isEmpty = (value: FieldValue | undefined) => value === undefined || String(value).trim() === '';
+
+// Check one value against its definition, returning an error message or null
+const validateField = (field: FieldDefinition, value: FieldValue | undefined): string | null => {
+  if (isEmpty(value)) {
+    return field.required ? `${field.label} is required` : null;
+  }
+
+  const text = String(value).trim();
+  switch (field.kind) {
+    case 'number': {
+      const number = Number(text);
+      if (!Number.isInteger(number)) return `${field.label} must be a whole number`;
+      if (field.min !== undefined && number < field.min) return `${field.label} must be at least ${field.min}`;
+      if (field.max !== undefined && number > field.max) return `${field.label} must be at most ${field.max}`;
+      return null;
+    }
+    case 'email':
+      return EMAIL_PATTERN.test(text) ? null : `${field.label} must be a valid email address`;
+    case 'time':
+      return TIME_PATTERN.test(text) ? null : `${field.label} must be a time such as 18:30`;
+    case 'color':
+      return COLOR_PATTERN.test(text) ? null : `${field.label} must be a color such as #1E88E5`;
+    case 'date':
+      return isValidDate(text) ? null : `${field.label} must be a date such as 2016-04-30`;
+    case 'select':
+      return field.options?.includes(text) ? null : `${field.label} must be one of ${field.options?.join(', ')}`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Validate the fields of an item type, returning error messages keyed by
+ * field. An empty result means the values are valid.
+ */
+export const validateFields = (type: ItemType, values: ItemFields): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  ITEM_SCHEMAS[type].forEach(field => {
+    const error = validateField(field, values[field.key]);
+    if (error) errors[field.key] = error;
+  });
+
+  // Rules that involve more than one field
+  if (type === 'Division' && !errors.minAge && !errors.maxAge && Number(values.minAge) > Number(values.maxAge)) {
+    errors.maxAge = 'Maximum Age must not be below Minimum Age';
+  }
+  return errors;
+};
+
+/**
+ * Turn form input into stored values: numbers become numbers, and empty
+ * values and fields that don't belong to the type are left out.
+ */
+export const normalizeFields = (type: ItemType, values: ItemFields): ItemFields => {
+  const fields: ItemFields = {};
+  ITEM_SCHEMAS[type].forEach(field => {
+    const value = values[field.key];
+    if (isEmpty(value)) return;
+    fields[field.key] = field.kind === 'number' ? Number(value) : String(value).trim();
+  });
+  return fields;
+};
+
+// Only the values that may be shown to anyone, e.g. in a published link
+export const publicFields = (type: ItemType, values: ItemFields): ItemFields => {
+  const fields: ItemFields = {};
+  ITEM_SCHEMAS[type].filter(field => field.public).forEach(field => {
+    if (!isEmpty(values[field.key])) fields[field.key] = values[field.key];
+  });
+  return fields;
+};
+
+// Format a 24-hour "18:30" time as "6:30 PM"
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+};
+
+/**
+ * Short descriptions of an item's key fields for its row in the tree, such as
+ * ["Monday", "6:00 PM"] or ["Ages 7–8", "Max 6 teams"]. Colors are left out
+ * since the tree draws them as a swatch.
+ */
+export const summarizeFields = (data: ItemData): string[] => {
+  const fields = data.fields ?? {};
+  const shown = new Set(ITEM_SCHEMAS[data.type].filter(field => field.showInRow).map(field => field.key));
+  const has = (key: string) => shown.has(key) && !isEmpty(fields[key]);
+
+  switch (data.type) {
+    case 'Conference':
+      return [
+        ...(has('dayOfWeek') ? [String(fields.dayOfWeek)] : []),
+        ...(has('startTime') && TIME_PATTERN.test(String(fields.startTime)) ? [formatTime(String(fields.startTime))] : [])
+      ];
+    case 'Division':
+      return [
+        ...(has('minAge') && has('maxAge') ? [`Ages ${fields.minAge}–${fields.maxAge}`] : []),
+        ...(has('maxTeams') ? [`Max ${fields.maxTeams} teams`] : []),
+        ...(has('maxRoster') ? [`Max ${fields.maxRoster} players per team`] : [])
+      ];
+    case 'Team':
+      return [
+        ...(has('coach') ? [`Coach ${fields.coach}`] : []),
+        ...(has('rosterSize') ? [`${fields.rosterSize} players`] : [])
+      ];
+    case 'Player':
+      return [
+        ...(has('jerseyNumber') ? [`#${fields.jerseyNumber}`] : []),
+        ...(has('birthdate') ? [`Born ${fields.birthdate}`] : [])
+      ];
+  }
+};
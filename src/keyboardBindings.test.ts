@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { itemActionFor } from './keyboardBindings';
+
+// A key press with no modifiers unless given
+const press = (key: string, modifiers: Partial<Pick<KeyboardEvent, 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>> = {}) => ({
+  key,
+  ctrlKey: false,
+  metaKey: false,
+  shiftKey: false,
+  altKey: false,
+  ...modifiers
+});
+
+describe('itemActionFor', () => {
+  it('maps the plain keys to their actions', () => {
+    expect(itemActionFor(press('Enter'))).toBe('editItem');
+    expect(itemActionFor(press('Insert'))).toBe('addSubGroup');
+    expect(itemActionFor(press('Delete'))).toBe('deleteItem');
+    expect(itemActionFor(press('ContextMenu'))).toBe('openContextMenu');
+  });
+
+  it('takes Control or Command for control', () => {
+    expect(itemActionFor(press('d', { ctrlKey: true }))).toBe('duplicateItem');
+    expect(itemActionFor(press('D', { metaKey: true }))).toBe('duplicateItem');
+    expect(itemActionFor(press('F10', { shiftKey: true }))).toBe('openContextMenu');
+  });
+
+  it('ignores the keys with missing or extra modifiers', () => {
+    expect(itemActionFor(press('d'))).toBeNull();
+    expect(itemActionFor(press('d', { ctrlKey: true, shiftKey: true }))).toBeNull();
+    expect(itemActionFor(press('F10'))).toBeNull();
+    expect(itemActionFor(press('Enter', { ctrlKey: true }))).toBeNull();
+    expect(itemActionFor(press('Delete', { altKey: true }))).toBeNull();
+  });
+
+  it("ignores keys that aren't bound", () => {
+    expect(itemActionFor(press('F2'))).toBeNull();
+    expect(itemActionFor(press('a'))).toBeNull();
+    expect(itemActionFor(press('Control', { ctrlKey: true }))).toBeNull();
+  });
+
+  it('reads the bindings it is given', () => {
+    const bindings = {
+      editItem: ['e'],
+      addSubGroup: [],
+      duplicateItem: ['alt+d'],
+      deleteItem: ['backspace'],
+      openContextMenu: []
+    };
+    expect(itemActionFor(press('e'), bindings)).toBe('editItem');
+    expect(itemActionFor(press('d', { altKey: true }), bindings)).toBe('duplicateItem');
+    expect(itemActionFor(press('Enter'), bindings)).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import { KeyboardBindings, LiveDescriptors } from 'react-complex-tree';
+
+// Keys for the item actions the app adds to the tree's own bindings
+export interface ItemActionBindings {
+  editItem: string[];
+  addSubGroup: string[];
+  duplicateItem: string[];
+  deleteItem: string[];
+  openContextMenu: string[];
+}
+
+export type ItemAction = keyof ItemActionBindings;
+
+/**
+ * Every key binding of the tree, written the way react-complex-tree writes
+ * them ("control+d"). The tree reads its own; the app reads the item actions.
+ */
+export const KEYBOARD_BINDINGS: KeyboardBindings & ItemActionBindings = {
+  // Disable default search bindings
+  startSearch: [],
+  // Keep rename bindings
+  renameItem: ['f2'],
+  abortRenameItem: ['escape'],
+  // Enter edits the focused item instead (see editItem)
+  primaryAction: [],
+  editItem: ['enter'],
+  addSubGroup: ['insert'],
+  duplicateItem: ['control+d'],
+  deleteItem: ['delete'],
+  // Shift+F10 and the Menu key are how keyboards open a context menu
+  openContextMenu: ['shift+f10', 'contextmenu']
+};
+
+/**
+ * What screen readers are told about the tree. The same as the tree's own
+ * descriptions, but the guide lists the item action keys, since Enter edits
+ * instead of running the primary action.
+ */
+export const TREE_LIVE_DESCRIPTORS: LiveDescriptors = {
+  introduction: `
+    <p>Accessibility guide for tree {treeLabel}.</p>
+    <p>Navigate the tree with the arrow keys. Further keybindings are available:</p>
+    <ul>
+      <li>{keybinding:editItem} to edit the focused item</li>
+      <li>{keybinding:renameItem} to rename it</li>
+      <li>{keybinding:addSubGroup} to add an item inside it</li>
+      <li>{keybinding:duplicateItem} to duplicate it</li>
+      <li>{keybinding:deleteItem} to delete it</li>
+      <li>{keybinding:openContextMenu} to open its menu of actions</li>
+      <li>{keybinding:startProgrammaticDnd} to start dragging selected items</li>
+    </ul>
+  `,
+  renamingItem: `
+    <p>Renaming the item {renamingItem}.</p>
+    <p>Use the keybinding {keybinding:abortRenameItem} to abort renaming.</p>
+  `,
+  searching: '<p>Searching</p>',
+  programmaticallyDragging: `
+    <p>Dragging items {dragItems}.</p>
+    <p>Press the arrow keys to move the drag target.</p>
+    <p>Press {keybinding:completeProgrammaticDnd} to drop or {keybinding:abortProgrammaticDnd} to abort.</p>
+  `,
+  programmaticallyDraggingTarget: '<p>Drop target is {dropTarget}.</p>'
+};
+
+const ITEM_ACTIONS: ItemAction[] = ['editItem', 'addSubGroup', 'duplicateItem', 'deleteItem', 'openContextMenu'];
+
+// The parts of a DOM or React key event that bindings look at
+type KeyPress = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>;
+
+// Whether the event is exactly this combination, e.g. Ctrl+D but not Ctrl+Shift+D.
+// Control also stands for the Command key on Macs.
+const matchesCombination = (e: KeyPress, combination: string) => {
+  const keys = combination.toLowerCase().split('+');
+  const key = keys[keys.length - 1];
+  return e.key.toLowerCase() === key &&
+    (e.ctrlKey || e.metaKey) === keys.includes('control') &&
+    e.shiftKey === keys.includes('shift') &&
+    e.altKey === keys.includes('alt');
+};
+
+// The item action bound to a key, or null when the key isn't one of them
+export const itemActionFor = (e: KeyPress, bindings: ItemActionBindings = KEYBOARD_BINDINGS): ItemAction | null =>
+  ITEM_ACTIONS.find(action => bindings[action].some(combination => matchesCombination(e, combination))) ?? null;
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { planRequests } from './leagueApi';
+
+const item = (index: string, type: ItemData['type'], children?: string[]): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name: index, type }
+});
+
+const league = (): LeagueItems => ({
+  root: item('root', 'Conference', ['8u']),
+  '8u': item('8u', 'Division', ['tigers', 'hawks']),
+  tigers: item('tigers', 'Team', ['ava']),
+  hawks: item('hawks', 'Team'),
+  ava: item('ava', 'Player')
+});
+
+describe('planRequests', () => {
+  it('plans nothing when nothing changed', () => {
+    const items = league();
+    expect(planRequests(items, { ...items })).toEqual([]);
+  });
+
+  it('creates new items before setting the children that refer to them', () => {
+    const prev = league();
+    const next = {
+      ...prev,
+      '8u': item('8u', 'Division', ['tigers', 'hawks', 'owls']),
+      owls: item('owls', 'Team')
+    };
+    expect(planRequests(prev, next)).toEqual([
+      { type: 'create', item: next.owls },
+      { type: 'setChildren', parentId: '8u', children: ['tigers', 'hawks', 'owls'] }
+    ]);
+  });
+
+  it('updates renamed, retyped and edited items', () => {
+    const prev = league();
+    const next = {
+      ...prev,
+      hawks: { ...prev.hawks, data: { ...prev.hawks.data, name: 'Hawks' } },
+      tigers: { ...prev.tigers, data: { ...prev.tigers.data, fields: { coach: 'Sam' } } }
+    };
+    const requests = planRequests(prev, next);
+    expect(requests).toHaveLength(2);
+    expect(requests).toContainEqual({ type: 'update', itemId: 'hawks', data: next.hawks.data });
+    expect(requests).toContainEqual({ type: 'update', itemId: 'tigers', data: next.tigers.data });
+  });
+
+  it('deletes only the top item of a removed subtree, last', () => {
+    const prev = league();
+    const next: LeagueItems = { root: prev.root, '8u': item('8u', 'Division', ['hawks']), hawks: prev.hawks };
+    expect(planRequests(prev, next)).toEqual([
+      { type: 'setChildren', parentId: '8u', children: ['hawks'] },
+      { type: 'delete', itemId: 'tigers' }
+    ]);
+  });
+
+  it('does not delete items that are only missing locally', () => {
+    const prev = league();
+    const next = { ...prev };
+    delete next.ava;
+    expect(planRequests(prev, next)).toEqual([]);
+  });
+
+  it('sends a move as new child lists of both parents', () => {
+    const prev = league();
+    const next = {
+      ...prev,
+      tigers: item('tigers', 'Team', []),
+      hawks: item('hawks', 'Team', ['ava'])
+    };
+    expect(planRequests(prev, next)).toEqual([
+      { type: 'setChildren', parentId: 'tigers', children: [] },
+      { type: 'setChildren', parentId: 'hawks', children: ['ava'] }
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { sameFields } from './leagueStore';
+
+/**
+ * The league service. Items are returned with the ids of their children but
+ * never with the children themselves, so the tree can load one level at a
+ * time as folders are expanded.
+ */
+export interface LeagueApi {
+  fetchItem(itemId: TreeItemIndex): Promise<LeagueItem>;
+  fetchChildren(parentId: TreeItemIndex): Promise<LeagueItem[]>;
+  createItem(item: LeagueItem): Promise<void>;
+  updateItem(itemId: TreeItemIndex, data: Partial<ItemData>): Promise<void>;
+  setChildren(parentId: TreeItemIndex, children: TreeItemIndex[]): Promise<void>;
+  // Deletes the item together with everything below it
+  deleteItem(itemId: TreeItemIndex): Promise<void>;
+}
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// One call needed to bring the service in line with a local change
+export type SyncRequest =
+  | { type: 'create'; item: LeagueItem }
+  | { type: 'update'; itemId: TreeItemIndex; data: Partial<ItemData> }
+  | { type: 'setChildren'; parentId: TreeItemIndex; children: TreeItemIndex[] }
+  | { type: 'delete'; itemId: TreeItemIndex };
+
+const sameIds = (a: TreeItemIndex[] = [], b: TreeItemIndex[] = []) =>
+  a.length === b.length && a.every((id, i) => id === b[i]);
+
+/**
+ * Work out the requests that turn `prev` into `next`. New items are created
+ * first and removed subtrees deleted last, so every request only refers to
+ * items the service already knows about. An item counts as removed only when
+ * its parent no longer lists it; items that are merely missing locally have
+ * just not been loaded yet. Only the top item of a removed subtree is deleted
+ * since the service removes its descendants with it.
+ */
+export const planRequests = (prev: LeagueItems, next: LeagueItems): SyncRequest[] => {
+  const creates: SyncRequest[] = [];
+  const children: SyncRequest[] = [];
+  const updates: SyncRequest[] = [];
+  const deletes: SyncRequest[] = [];
+
+  Object.keys(next).forEach(id => {
+    const before = prev[id];
+    const after = next[id];
+    if (before === after) return;
+
+    if (!before) {
+      creates.push({ type: 'create', item: after });
+      return;
+    }
+    if (!sameIds(before.children, after.children)) {
+      children.push({ type: 'setChildren', parentId: id, children: after.children ?? [] });
+    }
+    if (
+      before.data.name !== after.data.name ||
+      before.data.type !== after.data.type ||
+      !sameFields(before.data.fields, after.data.fields)
+    ) {
+      updates.push({ type: 'update', itemId: id, data: after.data });
+    }
+  });
+
+  Object.keys(prev).forEach(parentId => {
+    const parent = next[parentId];
+    if (!parent) return;
+    (prev[parentId].children ?? [])
+      .filter(id => prev[id] && !next[id] && !parent.children?.includes(id))
+      .forEach(id => deletes.push({ type: 'delete', itemId: id }));
+  });
+
+  return [...creates, ...children, ...updates, ...deletes];
+};
+
+export const sendRequest = (api: LeagueApi, request: SyncRequest): Promise<void> => {
+  switch (request.type) {
+    case 'create':
+      return api.createItem(request.item);
+    case 'update':
+      return api.updateItem(request.itemId, request.data);
+    case 'setChildren':
+      return api.setChildren(request.parentId, request.children);
+    case 'delete':
+      return api.deleteItem(request.itemId);
+  }
+};
+
+// Client for the REST flavour of the league service
+export const createRestLeagueApi = (baseUrl: string): LeagueApi => {
+  const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!response.ok) {
+      throw new ApiError(response.status, `${method} ${path} failed with status ${response.status}`);
+    }
+    return response.status === 204 ? (undefined as T) : response.json();
+  };
+  const itemPath = (itemId: TreeItemIndex) => `/items/${encodeURIComponent(String(itemId))}`;
+
+  return {
+    fetchItem: itemId => request('GET', itemPath(itemId)),
+    fetchChildren: parentId => request('GET', `${itemPath(parentId)}/children`),
+    createItem: item => request('POST', '/items', item),
+    updateItem: (itemId, data) => request('PATCH', itemPath(itemId), data),
+    setChildren: (parentId, children) => request('PUT', `${itemPath(parentId)}/children`, children),
+    deleteItem: itemId => request('DELETE', itemPath(itemId))
+  };
+};
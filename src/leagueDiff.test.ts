@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { describeChange, diffLeagues } from './leagueDiff';
+
+const item = (index: string, type: ItemData['type'], children?: string[], name = index): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name, type }
+});
+
+const league = (): LeagueItems => ({
+  root: item('root', 'Conference', ['8u', '10u']),
+  '8u': item('8u', 'Division', ['tigers', 'hawks', 'bears']),
+  '10u': item('10u', 'Division', ['lions']),
+  tigers: item('tigers', 'Team'),
+  hawks: item('hawks', 'Team'),
+  bears: item('bears', 'Team'),
+  lions: item('lions', 'Team')
+});
+
+describe('diffLeagues', () => {
+  it('finds no changes between equal leagues', () => {
+    expect(diffLeagues(league(), league()).changes).toEqual([]);
+  });
+
+  it('reports added and removed items with their parents', () => {
+    const before = league();
+    const after = { ...before, '10u': item('10u', 'Division', ['owls']), owls: item('owls', 'Team') };
+    delete (after as LeagueItems).lions;
+
+    const diff = diffLeagues(before, after);
+    expect(diff.byItem.owls).toMatchObject({ kinds: ['added'], newParentId: '10u' });
+    expect(diff.byItem.lions).toMatchObject({ kinds: ['removed'], oldParentId: '10u' });
+    expect(diff.removedFrom).toEqual({ '10u': 1 });
+    // Removed items come after the ones still in the tree
+    expect(diff.changes.map(change => change.itemId)).toEqual(['owls', 'lions']);
+  });
+
+  it('reports renames, retypes and moves of one item together', () => {
+    const before = league();
+    const after = {
+      ...before,
+      '8u': item('8u', 'Division', ['tigers', 'bears']),
+      '10u': item('10u', 'Division', ['lions', 'hawks']),
+      hawks: item('hawks', 'Division', undefined, 'Hawks')
+    };
+    const change = diffLeagues(before, after).byItem.hawks;
+    expect(change).toMatchObject({
+      kinds: ['renamed', 'retyped', 'moved'],
+      previousName: 'hawks',
+      previousType: 'Team',
+      oldParentId: '8u',
+      newParentId: '10u'
+    });
+    expect(describeChange(change, before, after)).toBe('Renamed from \'hawks\', changed from Team to Division, moved from 8u to 10u');
+  });
+
+  it('marks only the item that left its place as reordered', () => {
+    const before = league();
+    const after = { ...before, '8u': item('8u', 'Division', ['hawks', 'bears', 'tigers']) };
+    const diff = diffLeagues(before, after);
+    expect(diff.changes.map(change => [change.itemId, change.kinds])).toEqual([['tigers', ['reordered']]]);
+  });
+
+  it('does not count siblings of a moved item as reordered', () => {
+    const before = league();
+    const after = {
+      ...before,
+      '8u': item('8u', 'Division', ['tigers', 'bears']),
+      '10u': item('10u', 'Division', ['hawks', 'lions'])
+    };
+    const diff = diffLeagues(before, after);
+    expect(diff.changes.map(change => change.itemId)).toEqual(['hawks']);
+    expect(diff.byItem.hawks.kinds).toEqual(['moved']);
+  });
+});
@@ -0,0 +1,186 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData, LeagueItems } from './types';
+import { buildParentIndex } from './leagueStore';
+
+export type ChangeKind = 'added' | 'removed' | 'renamed' | 'retyped' | 'moved' | 'reordered';
+
+export const CHANGE_LABELS: Record<ChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  renamed: 'Renamed',
+  retyped: 'Retyped',
+  moved: 'Moved',
+  reordered: 'Reordered'
+};
+
+/**
+ * How one item differs between two snapshots. An item can change in several
+ * ways at once, e.g. be renamed and moved; added and removed items have no
+ * other kinds.
+ */
+export interface ItemChange {
+  itemId: TreeItemIndex;
+  name: string;
+  type: ItemData['type'];
+  kinds: ChangeKind[];
+  previousName?: string;
+  previousType?: ItemData['type'];
+  // Set for moved items, and for added or removed ones where they are or were
+  oldParentId?: TreeItemIndex;
+  newParentId?: TreeItemIndex;
+}
+
+export interface LeagueDiff {
+  // Changed items in tree order, followed by the removed ones
+  changes: ItemChange[];
+  byItem: Record<TreeItemIndex, ItemChange>;
+  // How many items were removed directly from each parent
+  removedFrom: Record<TreeItemIndex, number>;
+}
+
+/**
+ * The items of `sequence` that keep their relative order, found as the
+ * longest increasing run of their positions in `reference`. Everything else
+ * in the sequence has been reordered.
+ */
+export const inOrder = (sequence: TreeItemIndex[], reference: TreeItemIndex[]): Set<TreeItemIndex> => {
+  const positions = sequence.map(id => reference.indexOf(id));
+  // tails[k] is the index into `sequence` ending the best run of length k + 1
+  const tails: number[] = [];
+  const previous: number[] = [];
+
+  positions.forEach((position, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (positions[tails[middle]] < position) low = middle + 1;
+      else high = middle;
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const kept = new Set<TreeItemIndex>();
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index >= 0; index = previous[index]) {
+    kept.add(sequence[index]);
+  }
+  return kept;
+};
+
+// Every item below the parentless ones, parents before children
+const treeOrder = (items: LeagueItems, parents: Record<TreeItemIndex, TreeItemIndex>) => {
+  const order: TreeItemIndex[] = [];
+  const visit = (itemId: TreeItemIndex) => {
+    (items[itemId].children ?? []).filter(childId => items[childId]).forEach(childId => {
+      order.push(childId);
+      visit(childId);
+    });
+  };
+  Object.keys(items)
+    .filter(id => parents[id] === undefined)
+    .forEach(visit);
+  return order;
+};
+
+/**
+ * Compare two snapshots of the league item by item. Parentless items, such
+ * as the season roots, only hold the tree together and are never reported.
+ */
+export const diffLeagues = (before: LeagueItems, after: LeagueItems): LeagueDiff => {
+  const beforeParents = buildParentIndex(before);
+  const afterParents = buildParentIndex(after);
+  const byItem: Record<TreeItemIndex, ItemChange> = {};
+  const removedFrom: Record<TreeItemIndex, number> = {};
+
+  const record = (change: ItemChange) => {
+    byItem[change.itemId] = change;
+  };
+
+  treeOrder(after, afterParents).forEach(itemId => {
+    const item = after[itemId];
+    const newParentId = afterParents[itemId];
+    const previous = before[itemId];
+    const oldParentId = beforeParents[itemId];
+
+    if (!previous || oldParentId === undefined) {
+      record({ itemId, name: item.data.name, type: item.data.type, kinds: ['added'], newParentId });
+      return;
+    }
+
+    const kinds: ChangeKind[] = [];
+    if (previous.data.name !== item.data.name) kinds.push('renamed');
+    if (previous.data.type !== item.data.type) kinds.push('retyped');
+    if (oldParentId !== newParentId) kinds.push('moved');
+    if (kinds.length === 0) return;
+
+    record({
+      itemId,
+      name: item.data.name,
+      type: item.data.type,
+      kinds,
+      ...(kinds.includes('renamed') ? { previousName: previous.data.name } : {}),
+      ...(kinds.includes('retyped') ? { previousType: previous.data.type } : {}),
+      ...(kinds.includes('moved') ? { oldParentId, newParentId } : {})
+    });
+  });
+
+  // Siblings that stayed under the same parent but no longer keep their order
+  Object.keys(after).forEach(parentId => {
+    const staying = (ids: TreeItemIndex[] = []) =>
+      ids.filter(id => beforeParents[id] === parentId && afterParents[id] === parentId);
+    const oldOrder = staying(before[parentId]?.children);
+    const newOrder = staying(after[parentId].children);
+    const kept = inOrder(newOrder, oldOrder);
+
+    newOrder.filter(id => !kept.has(id)).forEach(itemId => {
+      const existing = byItem[itemId];
+      if (existing) {
+        existing.kinds.push('reordered');
+      } else {
+        record({ itemId, name: after[itemId].data.name, type: after[itemId].data.type, kinds: ['reordered'] });
+      }
+    });
+  });
+
+  const removed: ItemChange[] = treeOrder(before, beforeParents)
+    .filter(itemId => !after[itemId] || afterParents[itemId] === undefined)
+    .map(itemId => {
+      const oldParentId = beforeParents[itemId];
+      if (after[oldParentId] && !(after[oldParentId].children ?? []).includes(itemId)) {
+        removedFrom[oldParentId] = (removedFrom[oldParentId] ?? 0) + 1;
+      }
+      return { itemId, name: before[itemId].data.name, type: before[itemId].data.type, kinds: ['removed'], oldParentId };
+    });
+  removed.forEach(record);
+
+  const changes = [
+    ...treeOrder(after, afterParents).filter(itemId => byItem[itemId]).map(itemId => byItem[itemId]),
+    ...removed
+  ];
+  return { changes, byItem, removedFrom };
+};
+
+// Describes a change for the change list, e.g. "Renamed from 'Tigers', moved from 8U to 10U"
+export const describeChange = (change: ItemChange, before: LeagueItems, after: LeagueItems): string => {
+  const nameOf = (itemId?: TreeItemIndex) =>
+    itemId === undefined ? 'the top level' : (after[itemId] ?? before[itemId])?.data.name ?? 'a removed group';
+
+  const description = change.kinds.map(kind => {
+    switch (kind) {
+      case 'added':
+        return `added to ${nameOf(change.newParentId)}`;
+      case 'removed':
+        return `removed from ${nameOf(change.oldParentId)}`;
+      case 'renamed':
+        return `renamed from '${change.previousName}'`;
+      case 'retyped':
+        return `changed from ${change.previousType} to ${change.type}`;
+      case 'moved':
+        return `moved from ${nameOf(change.oldParentId)} to ${nameOf(change.newParentId)}`;
+      case 'reordered':
+        return 'reordered';
+    }
+  }).join(', ');
+  return description.charAt(0).toUpperCase() + description.slice(1);
+};
@@ -0,0 +1,137 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { LeagueItem, LeagueItems } from './types';
+import { DAYS_OF_WEEK } from './itemSchema';
+import { DRAFT_SEASON, createDraftRoot } from './seasons';
+
+// The size of a generated league, e.g. 50 nights × 20 divisions × 50 teams
+export interface LeagueSize {
+  nights: number;
+  divisionsPerNight: number;
+  teamsPerDivision: number;
+  playersPerTeam?: number;
+  // Also fill the draft season with a league of the same size
+  draftSeason?: boolean;
+  // The same seed always generates the same league
+  seed?: number;
+}
+
+const TEAM_NAMES = [
+  'Tigers', 'Lions', 'Eagles', 'Sharks', 'Hawks', 'Bears', 'Wolves', 'Falcons', 'Panthers', 'Comets',
+  'Rockets', 'Storm', 'Thunder', 'Lightning', 'Mustangs', 'Stallions', 'Raptors', 'Vipers', 'Cougars', 'Jaguars'
+];
+const FIRST_NAMES = ['Ana', 'Ben', 'Chloe', 'Dev', 'Elena', 'Farah', 'Gus', 'Hana', 'Ivan', 'Jada', 'Kofi', 'Lena', 'Mateo', 'Nia', 'Omar', 'Priya'];
+const LAST_NAMES = ['Lopez', 'Carter', 'Shah', 'Kim', 'Okafor', 'Novak', 'Rossi', 'Haddad', 'Jensen', 'Moreau', 'Silva', 'Tanaka'];
+const COLORS = ['#F57C00', '#FBC02D', '#5D4037', '#1976D2', '#388E3C', '#7B1FA2', '#C2185B', '#0097A7'];
+
+// Age bands that divisions cycle through, from 6U to 18U
+const AGE_BANDS = [6, 8, 10, 12, 14, 16, 18].map(maxAge => ({ minAge: maxAge - 1, maxAge }));
+
+// Small seeded random number generator (mulberry32), so benchmarks are repeatable
+const createRandom = (seed: number) => {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Generates a league of the given size with plausible names and fields, to
+ * try the tree with as many items as a real league has. Ids are prefixed so
+ * the draft season's items don't collide with the current season's.
+ */
+export const generateLeague = ({
+  nights,
+  divisionsPerNight,
+  teamsPerDivision,
+  playersPerTeam = 0,
+  draftSeason = false,
+  seed = 1
+}: LeagueSize): LeagueItems => {
+  const random = createRandom(seed);
+  const pick = <T>(values: T[]) => values[Math.floor(random() * values.length)];
+  const items: LeagueItems = {};
+
+  const add = (item: LeagueItem) => {
+    items[item.index] = item;
+    return item.index;
+  };
+
+  const season = (prefix: string): TreeItemIndex[] =>
+    Array.from({ length: nights }, (_, n) => {
+      const nightId = `${prefix}night-${n + 1}`;
+      const divisionIds = Array.from({ length: divisionsPerNight }, (_, d) => {
+        const band = AGE_BANDS[d % AGE_BANDS.length];
+        const divisionId = `${nightId}-division-${d + 1}`;
+        const teamIds = Array.from({ length: teamsPerDivision }, (_, t) => {
+          const teamId = `${divisionId}-team-${t + 1}`;
+          const playerIds = Array.from({ length: playersPerTeam }, (_, p) => add({
+            index: `${teamId}-player-${p + 1}`,
+            isFolder: false,
+            data: {
+              name: `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`,
+              type: 'Player',
+              fields: {
+                jerseyNumber: p + 1,
+                birthdate: `${new Date().getFullYear() - band.maxAge}-0${1 + Math.floor(random() * 9)}-1${Math.floor(random() * 10)}`
+              }
+            }
+          }));
+          return add({
+            index: teamId,
+            isFolder: playerIds.length > 0,
+            ...(playerIds.length > 0 ? { children: playerIds } : {}),
+            data: {
+              name: `${pick(TEAM_NAMES)} ${t + 1}`,
+              type: 'Team',
+              fields: {
+                coach: `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`,
+                color: pick(COLORS),
+                rosterSize: 12
+              }
+            }
+          });
+        });
+        return add({
+          index: divisionId,
+          isFolder: true,
+          children: teamIds,
+          data: {
+            name: `${band.maxAge}U ${String.fromCharCode(65 + (Math.floor(d / AGE_BANDS.length) % 26))}`,
+            type: 'Division',
+            fields: { ...band, maxTeams: Math.min(32, Math.max(2, teamsPerDivision)), maxRoster: 12 }
+          }
+        });
+      });
+      return add({
+        index: nightId,
+        isFolder: true,
+        children: divisionIds,
+        data: {
+          name: `${DAYS_OF_WEEK[n % DAYS_OF_WEEK.length]} ${Math.floor(n / DAYS_OF_WEEK.length) + 1}`,
+          type: 'Conference',
+          fields: { dayOfWeek: DAYS_OF_WEEK[n % DAYS_OF_WEEK.length], startTime: `${17 + (n % 3)}:00` }
+        }
+      });
+    });
+
+  items.root = {
+    index: 'root',
+    isFolder: true,
+    children: season(''),
+    data: { name: 'League Structure', type: 'Conference' }
+  };
+  if (draftSeason) {
+    items[DRAFT_SEASON.rootId] = { ...createDraftRoot(), children: season('draft-') };
+  }
+  return items;
+};
+
+// How many items a league of this size has, season roots included
+export const leagueItemCount = ({ nights, divisionsPerNight, teamsPerDivision, playersPerTeam = 0, draftSeason = false }: LeagueSize) => {
+  const perSeason = nights * (1 + divisionsPerNight * (1 + teamsPerDivision * (1 + playersPerTeam)));
+  return (perSeason + 1) * (draftSeason ? 2 : 1);
+};
@@ -0,0 +1,246 @@
+import { describe, expect, it } from 'vitest';
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import {
+  LeagueState,
+  buildParentIndex,
+  collectSubtree,
+  copySubtree,
+  createLeagueState,
+  deleteSubtree,
+  duplicateItem,
+  insertItem,
+  insertSubtree,
+  isDescendantOf,
+  leagueReducer,
+  moveItems,
+  setChildren,
+  unloadedChildren
+} from './leagueStore';
+
+const item = (index: string, type: ItemData['type'], children?: string[]): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name: index, type }
+});
+
+// root > monday > 8u (tigers > ava, hawks, bears) and 10u (lions)
+const league = (): LeagueItems => ({
+  root: item('root', 'Conference', ['monday']),
+  monday: item('monday', 'Conference', ['8u', '10u']),
+  '8u': item('8u', 'Division', ['tigers', 'hawks', 'bears']),
+  '10u': item('10u', 'Division', ['lions']),
+  tigers: item('tigers', 'Team', ['ava']),
+  hawks: item('hawks', 'Team'),
+  bears: item('bears', 'Team'),
+  lions: item('lions', 'Team'),
+  ava: item('ava', 'Player')
+});
+
+const childrenOf = (state: LeagueState, itemId: TreeItemIndex) => state.items[itemId].children;
+
+// The parent index has to describe the items exactly after every operation
+const expectConsistent = (state: LeagueState) => {
+  expect(state.parents).toEqual(buildParentIndex(state.items));
+};
+
+describe('buildParentIndex', () => {
+  it('maps every child to its parent', () => {
+    const parents = buildParentIndex(league());
+    expect(parents.tigers).toBe('8u');
+    expect(parents.ava).toBe('tigers');
+    expect(parents.monday).toBe('root');
+    expect(parents.root).toBeUndefined();
+  });
+});
+
+describe('collectSubtree', () => {
+  it('lists the item and its descendants, parents before children', () => {
+    expect(collectSubtree(league(), '8u')).toEqual(['8u', 'tigers', 'ava', 'hawks', 'bears']);
+  });
+
+  it('skips children that are not loaded and unknown items', () => {
+    const items = { ...league(), '8u': item('8u', 'Division', ['tigers', 'missing']) };
+    expect(collectSubtree(items, '8u')).toEqual(['8u', 'tigers', 'ava']);
+    expect(collectSubtree(items, 'nowhere')).toEqual([]);
+  });
+});
+
+describe('unloadedChildren', () => {
+  it('lists the children below an item that are not loaded', () => {
+    const items = { ...league(), '8u': item('8u', 'Division', ['tigers', 'missing']) };
+    expect(unloadedChildren(items, 'root')).toEqual(['missing']);
+    expect(unloadedChildren(items, 'tigers')).toEqual([]);
+  });
+});
+
+describe('insertItem', () => {
+  it('appends without a position and keeps the index in step', () => {
+    const state = insertItem(createLeagueState(league()), item('owls', 'Team'), '10u');
+    expect(childrenOf(state, '10u')).toEqual(['lions', 'owls']);
+    expect(state.parents.owls).toBe('10u');
+    expectConsistent(state);
+  });
+
+  it('inserts at a position and turns the parent into a folder', () => {
+    const start = createLeagueState(league());
+    const state = insertItem(start, item('zoe', 'Player'), 'hawks', 0);
+    expect(childrenOf(state, 'hawks')).toEqual(['zoe']);
+    expect(state.items.hawks.isFolder).toBe(true);
+    expect(start.items.hawks.children).toBeUndefined();
+    expectConsistent(state);
+  });
+
+  it('ignores unknown parents and ids that are taken', () => {
+    const start = createLeagueState(league());
+    expect(insertItem(start, item('owls', 'Team'), 'nowhere')).toBe(start);
+    expect(insertItem(start, item('lions', 'Team'), '8u')).toBe(start);
+  });
+
+  it('inserts a linked subtree with its parent index', () => {
+    const subtree = { owls: item('owls', 'Team', ['max']), max: item('max', 'Player') };
+    const state = insertSubtree(createLeagueState(league()), 'owls', subtree, '8u', 1);
+    expect(childrenOf(state, '8u')).toEqual(['tigers', 'owls', 'hawks', 'bears']);
+    expect(state.parents.max).toBe('owls');
+    expectConsistent(state);
+  });
+});
+
+describe('deleteSubtree', () => {
+  it('removes the item and everything below it', () => {
+    const state = deleteSubtree(createLeagueState(league()), 'tigers');
+    expect(state.items.tigers).toBeUndefined();
+    expect(state.items.ava).toBeUndefined();
+    expect(childrenOf(state, '8u')).toEqual(['hawks', 'bears']);
+    expectConsistent(state);
+  });
+
+  it('leaves the state it was given alone', () => {
+    const start = createLeagueState(league());
+    deleteSubtree(start, '8u');
+    expect(start.items['8u']).toBeDefined();
+    expect(childrenOf(start, 'monday')).toEqual(['8u', '10u']);
+  });
+
+  it('never deletes a root', () => {
+    const start = createLeagueState(league());
+    expect(deleteSubtree(start, 'root')).toBe(start);
+  });
+});
+
+describe('moveItems', () => {
+  it('moves items under a new parent', () => {
+    const state = moveItems(createLeagueState(league()), ['hawks'], '10u');
+    expect(childrenOf(state, '8u')).toEqual(['tigers', 'bears']);
+    expect(childrenOf(state, '10u')).toEqual(['lions', 'hawks']);
+    expectConsistent(state);
+  });
+
+  it('shifts the position down for items moving forward in the same parent', () => {
+    // Position 3 is after bears in the list as it was before the move
+    const state = moveItems(createLeagueState(league()), ['tigers'], '8u', 3);
+    expect(childrenOf(state, '8u')).toEqual(['hawks', 'bears', 'tigers']);
+    expectConsistent(state);
+  });
+
+  it('leaves the position alone for items moving back in the same parent', () => {
+    const state = moveItems(createLeagueState(league()), ['bears'], '8u', 0);
+    expect(childrenOf(state, '8u')).toEqual(['bears', 'tigers', 'hawks']);
+  });
+
+  it('shifts by the number of moved items before the position', () => {
+    const state = moveItems(createLeagueState(league()), ['tigers', 'hawks'], '8u', 3);
+    expect(childrenOf(state, '8u')).toEqual(['bears', 'tigers', 'hawks']);
+    expectConsistent(state);
+  });
+
+  it('never moves an item into itself or below itself', () => {
+    const start = createLeagueState(league());
+    expect(moveItems(start, ['8u'], 'tigers')).toBe(start);
+    expect(moveItems(start, ['8u'], '8u')).toBe(start);
+  });
+});
+
+describe('setChildren', () => {
+  it('replaces children and moves items between the changed parents', () => {
+    const state = setChildren(createLeagueState(league()), {
+      '8u': ['tigers', 'bears'],
+      '10u': ['hawks', 'lions']
+    });
+    expect(childrenOf(state, '8u')).toEqual(['tigers', 'bears']);
+    expect(childrenOf(state, '10u')).toEqual(['hawks', 'lions']);
+    expect(state.parents.hawks).toBe('10u');
+    expectConsistent(state);
+  });
+
+  it('turns a parent that receives children into a folder', () => {
+    const state = setChildren(createLeagueState(league()), {
+      tigers: [],
+      hawks: ['ava']
+    });
+    expect(state.items.hawks.isFolder).toBe(true);
+    expect(state.parents.ava).toBe('hawks');
+    expectConsistent(state);
+  });
+
+  it('drops ids of items that do not exist', () => {
+    const state = setChildren(createLeagueState(league()), { '10u': ['lions', 'ghost'] });
+    expect(childrenOf(state, '10u')).toEqual(['lions']);
+  });
+
+  it('returns the same state when nothing changes', () => {
+    const start = createLeagueState(league());
+    expect(setChildren(start, { '8u': ['tigers', 'hawks', 'bears'] })).toBe(start);
+  });
+});
+
+describe('copySubtree', () => {
+  it('copies an item and its descendants under new ids, marking the names', () => {
+    const copies = copySubtree(league(), 'tigers', 'tigers-copy');
+    expect(Object.keys(copies)).toHaveLength(2);
+    expect(copies['tigers-copy'].data.name).toBe('tigers (Copy)');
+    const [childId] = copies['tigers-copy'].children ?? [];
+    expect(copies[childId].data.name).toBe('ava (Copy)');
+    expect(childId).not.toBe('ava');
+  });
+
+  it('leaves out skipped items with everything below them', () => {
+    const copies = copySubtree(league(), '8u', '8u-copy', { skip: source => source.index === 'tigers' });
+    expect(Object.values(copies).map(copy => copy.data.name).sort()).toEqual(['8u (Copy)', 'bears (Copy)', 'hawks (Copy)']);
+  });
+
+  it('copies data with the given function', () => {
+    const copies = copySubtree(league(), 'hawks', 'hawks-2', { copyData: data => ({ ...data, name: 'Hawks 2' }) });
+    expect(copies['hawks-2'].data).toEqual({ name: 'Hawks 2', type: 'Team' });
+  });
+});
+
+describe('duplicateItem', () => {
+  it('places the copy right after the original', () => {
+    const state = duplicateItem(createLeagueState(league()), 'tigers', 'tigers-copy');
+    expect(childrenOf(state, '8u')).toEqual(['tigers', 'tigers-copy', 'hawks', 'bears']);
+    expect(isDescendantOf(state, childrenOf(state, 'tigers-copy')?.[0] ?? '', 'tigers-copy')).toBe(true);
+    expectConsistent(state);
+  });
+});
+
+describe('leagueReducer', () => {
+  it('returns the same state for actions that change nothing', () => {
+    const start = createLeagueState(league());
+    expect(leagueReducer(start, { type: 'rename', itemId: 'hawks', name: 'hawks' })).toBe(start);
+    expect(leagueReducer(start, { type: 'retype', itemId: 'ghost', itemType: 'Team' })).toBe(start);
+  });
+
+  it('edits the name, type and fields of an item', () => {
+    const state = leagueReducer(createLeagueState(league()), {
+      type: 'edit',
+      itemId: 'hawks',
+      name: 'Hawks',
+      itemType: 'Team',
+      fields: { coach: 'Sam' }
+    });
+    expect(state.items.hawks.data).toEqual({ name: 'Hawks', type: 'Team', fields: { coach: 'Sam' } });
+    expectConsistent(state);
+  });
+});
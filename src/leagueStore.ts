@@ -0,0 +1,387 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData, ItemFields, LeagueItem, LeagueItems } from './types';
+
+/**
+ * The league items together with an index from each item to its parent, so
+ * looking up a parent never has to scan every item. All operations below are
+ * pure: they return a new state and never modify the one they were given.
+ */
+export interface LeagueState {
+  items: LeagueItems;
+  parents: Record<TreeItemIndex, TreeItemIndex>;
+}
+
+export type LeagueAction =
+  | { type: 'load'; items: LeagueItems }
+  | { type: 'insert'; item: LeagueItem; parentId: TreeItemIndex; position?: number }
+  | { type: 'insertSubtree'; rootId: TreeItemIndex; items: LeagueItems; parentId: TreeItemIndex; position?: number }
+  | { type: 'insertSubtrees'; rootIds: TreeItemIndex[]; items: LeagueItems; parentId: TreeItemIndex; position?: number }
+  | { type: 'move'; itemIds: TreeItemIndex[]; parentId: TreeItemIndex; position?: number }
+  | { type: 'setChildren'; children: Record<TreeItemIndex, TreeItemIndex[]> }
+  | { type: 'deleteSubtree'; itemId: TreeItemIndex }
+  | { type: 'duplicate'; itemId: TreeItemIndex; newId: TreeItemIndex }
+  | { type: 'rename'; itemId: TreeItemIndex; name: string }
+  | { type: 'retype'; itemId: TreeItemIndex; itemType: ItemData['type'] }
+  | { type: 'edit'; itemId: TreeItemIndex; name: string; itemType: ItemData['type']; fields?: ItemFields };
+
+// Build the parent index for a set of items
+export const buildParentIndex = (items: LeagueItems): Record<TreeItemIndex, TreeItemIndex> => {
+  const parents: Record<TreeItemIndex, TreeItemIndex> = {};
+  Object.keys(items).forEach(parentId => {
+    (items[parentId].children ?? []).forEach(childId => {
+      parents[childId] = parentId;
+    });
+  });
+  return parents;
+};
+
+export const createLeagueState = (items: LeagueItems): LeagueState => ({
+  items,
+  parents: buildParentIndex(items)
+});
+
+export const getParentId = (state: LeagueState, itemId: TreeItemIndex): TreeItemIndex | undefined =>
+  state.parents[itemId];
+
+// The item and all of its descendants, parents before children
+export const collectSubtree = (items: LeagueItems, itemId: TreeItemIndex): TreeItemIndex[] => {
+  const item = items[itemId];
+  if (!item) return [];
+
+  return [
+    itemId,
+    ...(item.children ?? []).flatMap(childId => collectSubtree(items, childId))
+  ];
+};
+
+// Children listed somewhere below an item that aren't in `items`, such as
+// those the league service hasn't sent yet
+export const unloadedChildren = (items: LeagueItems, itemId: TreeItemIndex): TreeItemIndex[] =>
+  collectSubtree(items, itemId).flatMap(id => (items[id].children ?? []).filter(childId => !items[childId]));
+
+// True when `itemId` is `ancestorId` or lies somewhere below it
+export const isDescendantOf = (state: LeagueState, itemId: TreeItemIndex, ancestorId: TreeItemIndex) => {
+  let current: TreeItemIndex | undefined = itemId;
+  while (current !== undefined) {
+    if (current === ancestorId) return true;
+    current = state.parents[current];
+  }
+  return false;
+};
+
+// Insert ids into a children array, appending when no position is given
+const spliceChildren = (children: TreeItemIndex[], ids: TreeItemIndex[], position?: number) => {
+  const next = [...children];
+  const at = position === undefined ? next.length : Math.max(0, Math.min(position, next.length));
+  next.splice(at, 0, ...ids);
+  return next;
+};
+
+// Add child ids to a parent, turning the parent into a folder if it wasn't one
+const withChildren = (
+  items: LeagueItems,
+  parentId: TreeItemIndex,
+  ids: TreeItemIndex[],
+  position?: number
+): LeagueItems => {
+  const parent = items[parentId];
+  return {
+    ...items,
+    [parentId]: {
+      ...parent,
+      isFolder: true,
+      children: spliceChildren(parent.children ?? [], ids, position)
+    }
+  };
+};
+
+export const insertItem = (
+  state: LeagueState,
+  item: LeagueItem,
+  parentId: TreeItemIndex,
+  position?: number
+): LeagueState => insertSubtree(state, item.index, { [item.index]: item }, parentId, position);
+
+// Insert an already linked set of items whose top items are `rootIds`, side by side
+export const insertSubtrees = (
+  state: LeagueState,
+  rootIds: TreeItemIndex[],
+  subtree: LeagueItems,
+  parentId: TreeItemIndex,
+  position?: number
+): LeagueState => {
+  if (!state.items[parentId] || rootIds.length === 0 || rootIds.some(id => state.items[id] || !subtree[id])) {
+    return state;
+  }
+
+  const items = withChildren({ ...state.items, ...subtree }, parentId, rootIds, position);
+  const parents = { ...state.parents, ...buildParentIndex(subtree) };
+  rootIds.forEach(id => {
+    parents[id] = parentId;
+  });
+  return { items, parents };
+};
+
+// Insert an already linked set of items whose top item is `rootId`
+export const insertSubtree = (
+  state: LeagueState,
+  rootId: TreeItemIndex,
+  subtree: LeagueItems,
+  parentId: TreeItemIndex,
+  position?: number
+): LeagueState => insertSubtrees(state, [rootId], subtree, parentId, position);
+
+/**
+ * Move items under a new parent. `position` is an index into the new parent's
+ * children as they are before the move (the same convention as the tree's
+ * drop positions); without one the items are appended.
+ */
+export const moveItems = (
+  state: LeagueState,
+  itemIds: TreeItemIndex[],
+  parentId: TreeItemIndex,
+  position?: number
+): LeagueState => {
+  const target = state.items[parentId];
+  // Never move an item into itself or one of its own descendants
+  const movable = itemIds.filter(id =>
+    state.items[id] && state.parents[id] !== undefined && !isDescendantOf(state, parentId, id)
+  );
+  if (!target || movable.length === 0) return state;
+
+  // Items that sat before the insertion point in the same parent shift it up
+  const targetChildren = target.children ?? [];
+  const shift = position === undefined
+    ? 0
+    : movable.filter(id => {
+      const index = targetChildren.indexOf(id);
+      return index !== -1 && index < position;
+    }).length;
+
+  const items = { ...state.items };
+  const parents = { ...state.parents };
+  movable.forEach(id => {
+    const oldParentId = state.parents[id];
+    const oldParent = items[oldParentId];
+    items[oldParentId] = {
+      ...oldParent,
+      children: (oldParent.children ?? []).filter(childId => childId !== id)
+    };
+    parents[id] = parentId;
+  });
+
+  return {
+    items: withChildren(items, parentId, movable, position === undefined ? undefined : position - shift),
+    parents
+  };
+};
+
+/**
+ * Replace the children of several parents at once, as reported by the tree
+ * after a drop. Parents that receive children become folders. Ids of items
+ * that don't exist are dropped.
+ */
+export const setChildren = (
+  state: LeagueState,
+  children: Record<TreeItemIndex, TreeItemIndex[]>
+): LeagueState => {
+  const sameChildren = (a: TreeItemIndex[], b: TreeItemIndex[]) =>
+    a.length === b.length && a.every((id, i) => id === b[i]);
+
+  const parentIds = Object.keys(children).filter(parentId =>
+    state.items[parentId] && !sameChildren(state.items[parentId].children ?? [], children[parentId])
+  );
+  if (parentIds.length === 0) return state;
+
+  const items = { ...state.items };
+  const parents = { ...state.parents };
+
+  // Unlink the old children first so an item moving between two of the
+  // changed parents ends up under the one that now lists it
+  parentIds.forEach(parentId => {
+    (state.items[parentId].children ?? []).forEach(childId => {
+      if (parents[childId] === parentId) delete parents[childId];
+    });
+  });
+  parentIds.forEach(parentId => {
+    const parent = items[parentId];
+    const childIds = children[parentId].filter(id => state.items[id]);
+    items[parentId] = {
+      ...parent,
+      isFolder: parent.isFolder || childIds.length > 0,
+      children: childIds
+    };
+    childIds.forEach(childId => {
+      parents[childId] = parentId;
+    });
+  });
+
+  return { items, parents };
+};
+
+// Remove an item together with every item below it
+export const deleteSubtree = (state: LeagueState, itemId: TreeItemIndex): LeagueState => {
+  const parentId = state.parents[itemId];
+  if (parentId === undefined) return state;
+
+  const items = { ...state.items };
+  const parents = { ...state.parents };
+  collectSubtree(state.items, itemId).forEach(id => {
+    delete items[id];
+    delete parents[id];
+  });
+
+  const parent = items[parentId];
+  items[parentId] = {
+    ...parent,
+    children: (parent.children ?? []).filter(id => id !== itemId)
+  };
+  return { items, parents };
+};
+
+/**
+ * Add items fetched from the league service. Items that are already known
+ * locally win, since they may carry changes the service hasn't confirmed yet.
+ */
+export const mergeLoadedItems = (state: LeagueState, loaded: LeagueItems): LeagueState => ({
+  items: { ...loaded, ...state.items },
+  parents: { ...buildParentIndex(loaded), ...state.parents }
+});
+
+/**
+ * Undo the change from `before` to `after` on top of `current`, leaving
+ * anything else that changed since untouched. Used when the league service
+ * rejects a change that was already applied locally.
+ */
+export const revertChanges = (current: LeagueState, before: LeagueItems, after: LeagueItems): LeagueState => {
+  const items = { ...current.items };
+  const ids = new Set([...Object.keys(before), ...Object.keys(after)]);
+  ids.forEach(id => {
+    if (before[id] === after[id]) return;
+    if (before[id]) {
+      items[id] = before[id];
+    } else {
+      delete items[id];
+    }
+  });
+  return createLeagueState(items);
+};
+
+export interface CopyOptions {
+  // The data of the copy made from an item's data
+  copyData?: (data: ItemData) => ItemData;
+  // Items left out of the copy, together with everything below them
+  skip?: (item: LeagueItem) => boolean;
+  // The id of a child's copy, by default the parent copy's id followed by the child's id
+  copyId?: (sourceId: TreeItemIndex, parentCopyId: TreeItemIndex) => TreeItemIndex;
+}
+
+const markAsCopy = (data: ItemData): ItemData => ({ ...data, name: `${data.name} (Copy)` });
+
+/**
+ * Copy an item and its descendants under new ids. By default " (Copy)" is
+ * appended to each name; templates pass their own `copyData` to keep names.
+ */
+export const copySubtree = (
+  items: LeagueItems,
+  itemId: TreeItemIndex,
+  newId: TreeItemIndex,
+  {
+    copyData = markAsCopy,
+    skip = () => false,
+    copyId: childCopyId = (sourceId, parentCopyId) => `${String(parentCopyId)}-${String(sourceId)}`
+  }: CopyOptions = {}
+): LeagueItems => {
+  const copies: LeagueItems = {};
+
+  const copy = (sourceId: TreeItemIndex, copyId: TreeItemIndex) => {
+    const source = items[sourceId];
+    const childIds = (source.children ?? [])
+      .filter(childId => items[childId] && !skip(items[childId]))
+      .map(childId => ({ sourceId: childId, copyId: childCopyId(childId, copyId) }));
+
+    copies[copyId] = {
+      index: copyId,
+      isFolder: source.isFolder,
+      ...(source.children ? { children: childIds.map(child => child.copyId) } : {}),
+      data: copyData(source.data),
+      canMove: true,
+      canRename: true
+    };
+    childIds.forEach(child => copy(child.sourceId, child.copyId));
+  };
+
+  copy(itemId, newId);
+  return copies;
+};
+
+// Place a deep copy of an item directly after the original
+export const duplicateItem = (state: LeagueState, itemId: TreeItemIndex, newId: TreeItemIndex): LeagueState => {
+  const parentId = state.parents[itemId];
+  if (parentId === undefined || !state.items[itemId] || state.items[newId]) return state;
+
+  const position = (state.items[parentId].children ?? []).indexOf(itemId) + 1;
+  return insertSubtree(state, newId, copySubtree(state.items, itemId, newId), parentId, position);
+};
+
+// Compare two sets of field values key by key
+export const sameFields = (a: ItemFields = {}, b: ItemFields = {}) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+const updateData = (state: LeagueState, itemId: TreeItemIndex, data: Partial<ItemData>): LeagueState => {
+  const item = state.items[itemId];
+  if (!item) return state;
+
+  const unchanged = (Object.keys(data) as (keyof ItemData)[]).every(key =>
+    key === 'fields' ? sameFields(item.data.fields, data.fields) : item.data[key] === data[key]
+  );
+  if (unchanged) return state;
+
+  return {
+    ...state,
+    items: {
+      ...state.items,
+      [itemId]: { ...item, data: { ...item.data, ...data } }
+    }
+  };
+};
+
+export const renameItem = (state: LeagueState, itemId: TreeItemIndex, name: string) =>
+  updateData(state, itemId, { name });
+
+export const retypeItem = (state: LeagueState, itemId: TreeItemIndex, itemType: ItemData['type']) =>
+  updateData(state, itemId, { type: itemType });
+
+// Apply an action. Actions that change nothing return the same state object.
+export const leagueReducer = (state: LeagueState, action: LeagueAction): LeagueState => {
+  switch (action.type) {
+    case 'load':
+      return createLeagueState(action.items);
+    case 'insert':
+      return insertItem(state, action.item, action.parentId, action.position);
+    case 'insertSubtree':
+      return insertSubtree(state, action.rootId, action.items, action.parentId, action.position);
+    case 'insertSubtrees':
+      return insertSubtrees(state, action.rootIds, action.items, action.parentId, action.position);
+    case 'move':
+      return moveItems(state, action.itemIds, action.parentId, action.position);
+    case 'setChildren':
+      return setChildren(state, action.children);
+    case 'deleteSubtree':
+      return deleteSubtree(state, action.itemId);
+    case 'duplicate':
+      return duplicateItem(state, action.itemId, action.newId);
+    case 'rename':
+      return renameItem(state, action.itemId, action.name);
+    case 'retype':
+      return retypeItem(state, action.itemId, action.itemType);
+    case 'edit':
+      return updateData(state, action.itemId, {
+        name: action.name,
+        type: action.itemType,
+        ...(action.fields ? { fields: action.fields } : {})
+      });
+  }
+};
@@ -0,0 +1,108 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { ApiError, LeagueApi } from './leagueApi';
+import { collectSubtree } from './leagueStore';
+
+export interface MockLeagueApiOptions {
+  // Delay before every response, in milliseconds
+  latency?: number;
+  // Chance between 0 and 1 that a write fails, for trying out rollbacks
+  failureRate?: number;
+}
+
+const copyItem = (item: LeagueItem): LeagueItem => ({
+  ...item,
+  ...(item.children ? { children: [...item.children] } : {}),
+  data: { ...item.data }
+});
+
+/**
+ * An in-process stand-in for the league service so the app can be developed
+ * and tried out offline. It behaves like the REST API: it keeps its own copy
+ * of the items, answers after a delay and fails with an ApiError for unknown
+ * items or, randomly, for writes when a failure rate is set.
+ */
+export class MockLeagueApi implements LeagueApi {
+  private items: LeagueItems = {};
+  private readonly latency: number;
+  private readonly failureRate: number;
+
+  constructor(seed: LeagueItems, options: MockLeagueApiOptions = {}) {
+    Object.keys(seed).forEach(id => {
+      this.items[id] = copyItem(seed[id]);
+    });
+    this.latency = options.latency ?? 400;
+    this.failureRate = options.failureRate ?? 0;
+  }
+
+  public async fetchItem(itemId: TreeItemIndex): Promise<LeagueItem> {
+    await this.respond();
+    return copyItem(this.find(itemId));
+  }
+
+  public async fetchChildren(parentId: TreeItemIndex): Promise<LeagueItem[]> {
+    await this.respond();
+    return (this.find(parentId).children ?? [])
+      .filter(id => this.items[id])
+      .map(id => copyItem(this.items[id]));
+  }
+
+  public async createItem(item: LeagueItem): Promise<void> {
+    await this.respond(true);
+    if (this.items[item.index]) {
+      throw new ApiError(409, `Item '${item.index}' already exists`);
+    }
+    this.items[item.index] = copyItem(item);
+  }
+
+  public async updateItem(itemId: TreeItemIndex, data: Partial<ItemData>): Promise<void> {
+    await this.respond(true);
+    const item = this.find(itemId);
+    this.items[itemId] = { ...item, data: { ...item.data, ...data } };
+  }
+
+  public async setChildren(parentId: TreeItemIndex, children: TreeItemIndex[]): Promise<void> {
+    await this.respond(true);
+    const parent = this.find(parentId);
+    const unknown = children.find(id => !this.items[id]);
+    if (unknown !== undefined) {
+      throw new ApiError(422, `Item '${unknown}' does not exist`);
+    }
+    this.items[parentId] = { ...parent, isFolder: parent.isFolder || children.length > 0, children: [...children] };
+  }
+
+  public async deleteItem(itemId: TreeItemIndex): Promise<void> {
+    await this.respond(true);
+    this.find(itemId);
+    collectSubtree(this.items, itemId).forEach(id => {
+      delete this.items[id];
+    });
+    Object.keys(this.items).forEach(id => {
+      const item = this.items[id];
+      if (item.children?.includes(itemId)) {
+        this.items[id] = { ...item, children: item.children.filter(childId => childId !== itemId) };
+      }
+    });
+  }
+
+  // Wait out the simulated network delay, failing some writes when configured to
+  private respond(isWrite = false) {
+    return new Promise<void>((resolve, reject) => {
+      setTimeout(() => {
+        if (isWrite && Math.random() < this.failureRate) {
+          reject(new ApiError(503, 'The league service is unavailable'));
+        } else {
+          resolve();
+        }
+      }, this.latency);
+    });
+  }
+
+  private find(itemId: TreeItemIndex): LeagueItem {
+    const item = this.items[itemId];
+    if (!item) {
+      throw new ApiError(404, `Item '${itemId}' was not found`);
+    }
+    return item;
+  }
+}
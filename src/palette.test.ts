@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ItemData, LeagueItem } from './types';
+import { createLeagueState } from './leagueStore';
+import {
+  PaletteCommand,
+  RECENT_COMMANDS_LIMIT,
+  RECENT_COMMANDS_STORAGE_KEY,
+  addRecentCommand,
+  fuzzyScore,
+  goToCommands,
+  loadRecentCommands,
+  rankCommands,
+  saveRecentCommands
+} from './palette';
+
+const item = (index: string, name: string, type: ItemData['type'], children?: string[]): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name, type }
+});
+
+const state = createLeagueState({
+  root: item('root', 'League', 'Conference', ['monday']),
+  monday: item('monday', 'Monday', 'Conference', ['8u']),
+  '8u': item('8u', '8U A', 'Division', ['tigers', 'lions']),
+  tigers: item('tigers', 'Tigers', 'Team', []),
+  lions: item('lions', 'Mountain Lions', 'Team', [])
+});
+
+const command = (id: string, label: string): PaletteCommand => ({ id, label, run: () => undefined });
+
+describe('fuzzyScore', () => {
+  it('ranks the whole text, then its start, then a word start, then inside a word, then letters in order', () => {
+    expect(fuzzyScore('Tigers', 'tigers')).toBe(4);
+    expect(fuzzyScore('Tigers', 'tig')).toBe(3);
+    expect(fuzzyScore('Mountain Lions', 'lio')).toBe(2);
+    expect(fuzzyScore('Mountain Lions', 'tain')).toBe(1);
+    expect(fuzzyScore('Duplicate selected', 'dup sel')).toBe(0);
+    expect(fuzzyScore('Tigers', 'tx')).toBeNull();
+  });
+
+  it('fits everything to an empty query', () => {
+    expect(fuzzyScore('Tigers', '  ')).toBe(0);
+  });
+});
+
+describe('rankCommands', () => {
+  it('puts the best fits first and keeps ties in their own order', () => {
+    const commands = [
+      command('rename', 'Rename selected'),
+      command('delete', 'Delete selected'),
+      command('select', 'Select all'),
+      command('undo', 'Undo')
+    ];
+    expect(rankCommands(commands, 'sel').map(found => found.id)).toEqual(['select', 'rename', 'delete']);
+    expect(rankCommands(commands, '').map(found => found.id)).toEqual(['rename', 'delete', 'select', 'undo']);
+  });
+});
+
+describe('goToCommands', () => {
+  const goTo = vi.fn();
+
+  it('finds items by name, with or without "go to"', () => {
+    expect(goToCommands(state, 'lions', goTo).map(found => found.id)).toEqual(['goto:lions']);
+    expect(goToCommands(state, 'go to lions', goTo).map(found => found.id)).toEqual(['goto:lions']);
+    expect(goToCommands(state, 'Go lions', goTo).map(found => found.id)).toEqual(['goto:lions']);
+  });
+
+  it('describes where the item is and goes there when run', () => {
+    const [found] = goToCommands(state, 'tigers', goTo);
+    expect(found).toMatchObject({ label: 'Go to Tigers', hint: 'Team in Monday › 8U A' });
+    found.run();
+    expect(goTo).toHaveBeenCalledWith('tigers');
+  });
+
+  it('leaves out the season roots and stops at the limit', () => {
+    expect(goToCommands(state, 'league', goTo)).toEqual([]);
+    expect(goToCommands(state, 'i', goTo, 2)).toHaveLength(2);
+    expect(goToCommands(state, ' ', goTo)).toEqual([]);
+  });
+});
+
+describe('recent commands', () => {
+  const stubStorage = (stored: Record<string, string>) => {
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored[key] ?? null,
+      setItem: (key: string, value: string) => {
+        stored[key] = value;
+      }
+    });
+    return stored;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the newest first without repeats, up to the limit', () => {
+    let recent: string[] = [];
+    ['a', 'b', 'c', 'd', 'e', 'f', 'c'].forEach(id => {
+      recent = addRecentCommand(recent, id);
+    });
+    expect(recent).toEqual(['c', 'f', 'e', 'd', 'b']);
+    expect(recent).toHaveLength(RECENT_COMMANDS_LIMIT);
+  });
+
+  it('reads back what it saves', () => {
+    stubStorage({});
+    saveRecentCommands(['goto:tigers', 'undo']);
+    expect(loadRecentCommands()).toEqual(['goto:tigers', 'undo']);
+  });
+
+  it('ignores lists of another version and ids that are not strings', () => {
+    stubStorage({ [RECENT_COMMANDS_STORAGE_KEY]: JSON.stringify({ version: 2, ids: ['undo'] }) });
+    expect(loadRecentCommands()).toEqual([]);
+    stubStorage({ [RECENT_COMMANDS_STORAGE_KEY]: JSON.stringify({ version: 1, ids: ['undo', 3, null, 'redo'] }) });
+    expect(loadRecentCommands()).toEqual(['undo', 'redo']);
+    stubStorage({ [RECENT_COMMANDS_STORAGE_KEY]: '{not json' });
+    expect(loadRecentCommands()).toEqual([]);
+  });
+
+  it('reads no more than the limit', () => {
+    stubStorage({ [RECENT_COMMANDS_STORAGE_KEY]: JSON.stringify({ version: 1, ids: ['a', 'b', 'c', 'd', 'e', 'f', 'g'] }) });
+    expect(loadRecentCommands()).toHaveLength(RECENT_COMMANDS_LIMIT);
+  });
+});
@@ -0,0 +1,142 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { LeagueState } from './leagueStore';
+import { isSeasonRoot } from './seasons';
+
+export const RECENT_COMMANDS_STORAGE_KEY = 'league-recent-commands';
+const RECENT_COMMANDS_VERSION = 1;
+
+// Recent commands shown before anything is typed
+export const RECENT_COMMANDS_LIMIT = 5;
+
+// Results shown at once, so a search of a large league stays quick
+export const PALETTE_RESULTS_LIMIT = 50;
+
+// Ids of commands that go to an item start with this
+const GO_TO_PREFIX = 'goto:';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  // Shown next to the label, e.g. the item an action works on or where an item is
+  hint?: string;
+  shortcut?: string;
+  // Why the command can't be run right now, or null when it can
+  disabled?: string | null;
+  run: () => void;
+}
+
+/**
+ * How well `query` fits `text`, or null when it doesn't. The whole text beats
+ * a match at the start, then one at the start of a word, then one inside a
+ * word, then letters that merely appear in order ("dup sel" for "Duplicate selected").
+ */
+export const fuzzyScore = (text: string, query: string): number | null => {
+  const lower = text.toLowerCase();
+  const value = query.trim().toLowerCase();
+  if (!value) return 0;
+
+  if (lower === value) return 4;
+  const index = lower.indexOf(value);
+  if (index === 0) return 3;
+  if (index > 0) return /\s/.test(lower[index - 1]) ? 2 : 1;
+
+  let position = 0;
+  for (const char of value.replace(/\s+/g, '')) {
+    position = lower.indexOf(char, position);
+    if (position === -1) return null;
+    position += 1;
+  }
+  return 0;
+};
+
+// The commands that fit the query, best first and in their own order when tied
+export const rankCommands = (commands: PaletteCommand[], query: string): PaletteCommand[] =>
+  commands
+    .map((command, order) => ({ command, order, score: fuzzyScore(command.label, query) }))
+    .filter((entry): entry is { command: PaletteCommand; order: number; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(entry => entry.command);
+
+// Where an item sits in the league, e.g. "Monday › 8U A"
+const pathOf = (state: LeagueState, itemId: TreeItemIndex) => {
+  const names: string[] = [];
+  let parentId = state.parents[itemId];
+  while (parentId !== undefined && !isSeasonRoot(parentId)) {
+    names.unshift(state.items[parentId].data.name);
+    parentId = state.parents[parentId];
+  }
+  return names.join(' › ');
+};
+
+export const goToCommand = (state: LeagueState, itemId: TreeItemIndex, goTo: (itemId: TreeItemIndex) => void): PaletteCommand => {
+  const item = state.items[itemId];
+  const path = pathOf(state, itemId);
+  return {
+    id: `${GO_TO_PREFIX}${String(itemId)}`,
+    label: `Go to ${item.data.name}`,
+    hint: path ? `${item.data.type} in ${path}` : item.data.type,
+    run: () => goTo(itemId)
+  };
+};
+
+// "Go to" commands for the items whose names fit the query, best first
+export const goToCommands = (
+  state: LeagueState,
+  query: string,
+  goTo: (itemId: TreeItemIndex) => void,
+  limit = PALETTE_RESULTS_LIMIT
+): PaletteCommand[] => {
+  if (!query.trim()) return [];
+
+  // Match on the name alone, so "go to" in the query is optional
+  const nameQuery = query.trim().replace(/^go(\s+to)?\s+/i, '') || query;
+  const scored: { itemId: TreeItemIndex; score: number }[] = [];
+  Object.values(state.items).forEach(item => {
+    if (isSeasonRoot(item.index)) return;
+    const score = fuzzyScore(item.data.name, nameQuery);
+    if (score !== null) scored.push({ itemId: item.index, score });
+  });
+
+  // Stable sort, so items with the same score stay in the order the league holds them
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ itemId }) => goToCommand(state, itemId, goTo));
+};
+
+// The command a recent id stands for, if its item or action is still there
+export const resolveRecentCommand = (
+  id: string,
+  state: LeagueState,
+  commands: PaletteCommand[],
+  goTo: (itemId: TreeItemIndex) => void
+): PaletteCommand | undefined => {
+  if (id.startsWith(GO_TO_PREFIX)) {
+    const itemId = id.slice(GO_TO_PREFIX.length);
+    return state.items[itemId] ? goToCommand(state, itemId, goTo) : undefined;
+  }
+  return commands.find(command => command.id === id);
+};
+
+// Put a command at the front of the recent list
+export const addRecentCommand = (recent: string[], id: string) =>
+  [id, ...recent.filter(recentId => recentId !== id)].slice(0, RECENT_COMMANDS_LIMIT);
+
+// Loads the recent commands, or none when they can't be read
+export const loadRecentCommands = (): string[] => {
+  try {
+    const raw = localStorage.getItem(RECENT_COMMANDS_STORAGE_KEY);
+    if (raw === null) return [];
+
+    const parsed = JSON.parse(raw) as { version?: number; ids?: unknown } | null;
+    if (!parsed || parsed.version !== RECENT_COMMANDS_VERSION || !Array.isArray(parsed.ids)) return [];
+    return parsed.ids.filter((id): id is string => typeof id === 'string').slice(0, RECENT_COMMANDS_LIMIT);
+  } catch {
+    return [];
+  }
+};
+
+// Write the recent commands, throwing when storage is unavailable or full
+export const saveRecentCommands = (ids: string[]) => {
+  localStorage.setItem(RECENT_COMMANDS_STORAGE_KEY, JSON.stringify({ version: RECENT_COMMANDS_VERSION, ids }));
+};
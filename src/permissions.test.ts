@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ItemData, LeagueItem } from './types';
+import { createLeagueState } from './leagueStore';
+import { ADMIN_GRANT, GRANT_STORAGE_KEY, Grant, explainMove, explainPermission, loadGrant } from './permissions';
+
+const item = (index: string, type: ItemData['type'], children?: string[]): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name: index, type }
+});
+
+const state = createLeagueState({
+  root: item('root', 'Conference', ['monday', 'tuesday']),
+  monday: item('monday', 'Conference', ['8u']),
+  '8u': item('8u', 'Division', ['tigers', 'hawks']),
+  tigers: item('tigers', 'Team', ['ava']),
+  ava: item('ava', 'Player'),
+  hawks: item('hawks', 'Team', []),
+  tuesday: item('tuesday', 'Conference', ['10u']),
+  '10u': item('10u', 'Division', [])
+});
+
+const coordinator: Grant = { role: 'coordinator', scope: ['monday'] };
+const coach: Grant = { role: 'coach', scope: ['tigers'] };
+
+describe('explainPermission', () => {
+  it('lets an admin do anything anywhere', () => {
+    expect(explainPermission(state, ADMIN_GRANT, 'delete', 'monday')).toBeNull();
+    expect(explainPermission(state, ADMIN_GRANT, 'move', 'root')).toBeNull();
+  });
+
+  it('passes a grant down to everything below its scope', () => {
+    expect(explainPermission(state, coordinator, 'edit', 'monday')).toBeNull();
+    expect(explainPermission(state, coordinator, 'delete', 'ava')).toBeNull();
+    expect(explainPermission(state, coordinator, 'rename', 'tuesday')).toBe('You can only rename items in monday.');
+    expect(explainPermission(state, coordinator, 'add', 'root')).toBe('You can only add items in monday.');
+  });
+
+  it('keeps the top of a scope for admins to move or delete', () => {
+    expect(explainPermission(state, coordinator, 'move', 'monday')).toContain('Only an Admin can move monday');
+    expect(explainPermission(state, coordinator, 'delete', '8u')).toBeNull();
+  });
+
+  it('refuses what the role may not do at all', () => {
+    expect(explainPermission(state, coach, 'move', 'ava')).toBe("As a Coach you can't move items.");
+    expect(explainPermission(state, { role: 'viewer', scope: [] }, 'edit', 'ava')).toBe("As a Viewer you can't edit items.");
+    expect(explainPermission(state, { role: 'coach', scope: [] }, 'edit', 'ava')).toBe('No part of the league has been assigned to you.');
+  });
+});
+
+describe('explainMove', () => {
+  it('needs both the moved items and the new parent in scope', () => {
+    expect(explainMove(state, coordinator, ['tigers'], '8u')).toBeNull();
+    expect(explainMove(state, coordinator, ['tigers'], '10u')).toBe('You can only move items into monday.');
+    expect(explainMove(state, { role: 'coordinator', scope: ['tuesday'] }, ['tigers'], '10u')).toBe('You can only move items in tuesday.');
+  });
+
+  it('reports the first item that may not move', () => {
+    expect(explainMove(state, coordinator, ['hawks', 'monday'], '8u')).toContain('Only an Admin can move monday');
+  });
+});
+
+describe('loadGrant', () => {
+  const stub = (search: string, saved?: string) => {
+    vi.stubGlobal('window', { location: { search } });
+    vi.stubGlobal('localStorage', { getItem: (key: string) => (key === GRANT_STORAGE_KEY ? saved ?? null : null) });
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('takes the role and scope from the URL first', () => {
+    stub('?role=coordinator&scope=monday,tuesday', JSON.stringify(coach));
+    expect(loadGrant()).toEqual({ role: 'coordinator', scope: ['monday', 'tuesday'] });
+  });
+
+  it('falls back to the remembered grant', () => {
+    stub('?role=owner', JSON.stringify(coach));
+    expect(loadGrant()).toEqual(coach);
+  });
+
+  it('acts as an admin when the remembered grant is damaged', () => {
+    stub('', '{not json');
+    expect(loadGrant()).toBe(ADMIN_GRANT);
+    stub('', JSON.stringify({ role: 'owner', scope: ['monday'] }));
+    expect(loadGrant()).toBe(ADMIN_GRANT);
+    stub('', JSON.stringify({ role: 'coach', scope: [{}] }));
+    expect(loadGrant()).toBe(ADMIN_GRANT);
+  });
+});
@@ -0,0 +1,135 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData } from './types';
+import { LeagueState, isDescendantOf } from './leagueStore';
+
+export type Role = 'admin' | 'coordinator' | 'coach' | 'viewer';
+
+export const ROLES: Role[] = ['admin', 'coordinator', 'coach', 'viewer'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  coordinator: 'Night Coordinator',
+  coach: 'Coach',
+  viewer: 'Viewer'
+};
+
+export type Permission = 'add' | 'edit' | 'rename' | 'move' | 'delete';
+
+/**
+ * What each role may do inside its scope. Coaches look after a Team's roster
+ * but can't move Players to other Teams.
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ['add', 'edit', 'rename', 'move', 'delete'],
+  coordinator: ['add', 'edit', 'rename', 'move', 'delete'],
+  coach: ['add', 'edit', 'rename', 'delete'],
+  viewer: []
+};
+
+// The type of item a scoped role is given, e.g. a coordinator gets a night's Conference
+export const SCOPE_TYPES: Partial<Record<Role, ItemData['type']>> = {
+  coordinator: 'Conference',
+  coach: 'Team'
+};
+
+/**
+ * A role and the subtrees it applies to. Admins have the whole league, so
+ * their scope is ignored.
+ */
+export interface Grant {
+  role: Role;
+  scope: TreeItemIndex[];
+}
+
+export const GRANT_STORAGE_KEY = 'league-role';
+
+export const ADMIN_GRANT: Grant = { role: 'admin', scope: [] };
+export const VIEWER_GRANT: Grant = { role: 'viewer', scope: [] };
+
+// True when the item is one of the grant's subtrees or lies below one
+export const inScope = (state: LeagueState, grant: Grant, itemId: TreeItemIndex) =>
+  grant.role === 'admin' || grant.scope.some(scopeId => isDescendantOf(state, itemId, scopeId));
+
+// The grant's subtrees by name, e.g. "Wednesday" or "Tigers and Sharks"
+export const describeScope = (state: LeagueState, grant: Grant) => {
+  const names = grant.scope.map(scopeId => state.items[scopeId]?.data.name).filter(Boolean);
+  return names.length <= 1 ? names[0] ?? '' : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+};
+
+/**
+ * Explains why the grant doesn't allow an action on an item, or null when it
+ * does. Adding, editing and renaming need the item itself in scope. Moving
+ * and deleting take the item out of its parent, so they need the parent in
+ * scope: the top of a scope can only be moved or deleted by an admin.
+ */
+export const explainPermission = (
+  state: LeagueState,
+  grant: Grant,
+  permission: Permission,
+  itemId: TreeItemIndex
+): string | null => {
+  if (!ROLE_PERMISSIONS[grant.role].includes(permission)) {
+    return `As a ${ROLE_LABELS[grant.role]} you can't ${permission} items.`;
+  }
+  if (grant.role === 'admin') return null;
+  if (grant.scope.length === 0) return 'No part of the league has been assigned to you.';
+
+  const scope = describeScope(state, grant);
+  if (!inScope(state, grant, itemId)) {
+    return `You can only ${permission} items in ${scope}.`;
+  }
+  if ((permission === 'move' || permission === 'delete') && grant.scope.includes(itemId)) {
+    return `Only an Admin can ${permission} ${state.items[itemId]?.data.name ?? 'this item'}, since it holds everything you look after.`;
+  }
+  return null;
+};
+
+// Explains why the grant doesn't allow moving the items under a parent, or null when it does
+export const explainMove = (
+  state: LeagueState,
+  grant: Grant,
+  itemIds: TreeItemIndex[],
+  parentId: TreeItemIndex
+): string | null => {
+  for (const itemId of itemIds) {
+    const explanation = explainPermission(state, grant, 'move', itemId);
+    if (explanation) return explanation;
+  }
+  return inScope(state, grant, parentId) ? null : `You can only move items into ${describeScope(state, grant)}.`;
+};
+
+const isGrant = (value: unknown): value is Grant => {
+  const grant = value as Partial<Grant> | null;
+  return Boolean(grant) &&
+    ROLES.includes(grant?.role as Role) &&
+    Array.isArray(grant?.scope) &&
+    (grant?.scope ?? []).every(id => typeof id === 'string' || typeof id === 'number');
+};
+
+/**
+ * The role this browser acts in, admin unless another was chosen.
+ * `?role=coordinator&scope=wednesday` in the URL overrides the remembered one;
+ * `scope` may list several comma-separated ids.
+ */
+export const loadGrant = (): Grant => {
+  const params = new URLSearchParams(window.location.search);
+  const roleParam = params.get('role');
+  if (roleParam && ROLES.includes(roleParam as Role)) {
+    return { role: roleParam as Role, scope: (params.get('scope') ?? '').split(',').filter(Boolean) };
+  }
+
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(GRANT_STORAGE_KEY) ?? 'null');
+    return isGrant(saved) ? saved : ADMIN_GRANT;
+  } catch {
+    return ADMIN_GRANT;
+  }
+};
+
+export const saveGrant = (grant: Grant) => {
+  try {
+    localStorage.setItem(GRANT_STORAGE_KEY, JSON.stringify(grant));
+  } catch {
+    // Remembering the role is optional
+  }
+};
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LeagueItems } from './types';
+import { SCHEMA_VERSION, STORAGE_KEY, loadLeague, saveLeague } from './persistence';
+
+const seed: LeagueItems = {
+  root: { index: 'root', isFolder: true, children: [], data: { name: 'Seed', type: 'Conference' } }
+};
+
+// The league as version 1 saved it: Teams were plain items and nothing had fields
+const versionOneItems = {
+  root: { index: 'root', isFolder: true, children: ['8u'], data: { name: 'League', type: 'Conference' } },
+  '8u': { index: '8u', isFolder: true, children: ['tigers'], data: { name: '8U', type: 'Division' } },
+  tigers: { index: 'tigers', data: { name: 'Tigers', type: 'Team' } }
+};
+
+// localStorage backed by a plain object
+const stubStorage = (stored: Record<string, string>) => {
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored[key] ?? null,
+    setItem: (key: string, value: string) => {
+      stored[key] = value;
+    }
+  });
+  return stored;
+};
+
+describe('loadLeague', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('upgrades a version 1 league so its Teams can take Players', () => {
+    stubStorage({ [STORAGE_KEY]: JSON.stringify({ version: 1, savedAt: 0, items: versionOneItems }) });
+    const { items, warning } = loadLeague(seed);
+    expect(warning).toBeUndefined();
+    expect(items.tigers).toEqual({ ...versionOneItems.tigers, isFolder: true, children: [] });
+    expect(items['8u']).toEqual(versionOneItems['8u']);
+  });
+
+  it('upgrades the bare items saved before the envelope', () => {
+    stubStorage({ [STORAGE_KEY]: JSON.stringify(versionOneItems) });
+    expect(loadLeague(seed).items.tigers.children).toEqual([]);
+  });
+
+  it('reads back what it saves under the current version', () => {
+    const stored = stubStorage({});
+    saveLeague(versionOneItems as LeagueItems);
+    expect(JSON.parse(stored[STORAGE_KEY]).version).toBe(SCHEMA_VERSION);
+    expect(loadLeague(seed).items).toEqual(versionOneItems);
+  });
+
+  it('falls back to the seed for leagues saved by a newer version', () => {
+    stubStorage({ [STORAGE_KEY]: JSON.stringify({ version: SCHEMA_VERSION + 1, savedAt: 0, items: versionOneItems }) });
+    const { items, warning } = loadLeague(seed);
+    expect(items).toBe(seed);
+    expect(warning).toContain('newer than this app supports');
+  });
+});
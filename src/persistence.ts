@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { ItemData, LeagueItems } from './types';
+
+export const STORAGE_KEY = 'league-structure';
+
+// Bump this whenever the shape of `ItemData` changes, and add a migration
+// below that upgrades data saved under the previous version
+export const SCHEMA_VERSION = 2;
+
+// How long to wait after the last change before writing to storage
+export const SAVE_DELAY_MS = 500;
+
+// The envelope written to storage
+export interface PersistedLeague {
+  version: number;
+  savedAt: number;
+  items: LeagueItems;
+}
+
+const ITEM_TYPES: ItemData['type'][] = ['Conference', 'Division', 'Team', 'Player'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Upgrades items saved under version `n` to version `n + 1`
+type Migration = (items: unknown) => unknown;
+
+export const migrations: Record<number, Migration> = {
+  // Version 0 was the bare items record, saved without an envelope. The item
+  // shape itself is unchanged, so the items carry over as they are.
+  0: items => items,
+  // Version 2 added `fields` to items and Players on Teams. Items saved before
+  // have no fields, which are optional, but their Teams were plain items and
+  // become folders so Players can be added to them.
+  1: items => {
+    if (!isObject(items)) return items;
+    return Object.fromEntries(Object.entries(items).map(([id, item]) => [
+      id,
+      isObject(item) && isObject(item.data) && item.data.type === 'Team' && item.children === undefined
+        ? { ...item, isFolder: true, children: [] }
+        : item
+    ]));
+  }
+};
+
+export interface LoadResult {
+  items: LeagueItems;
+  // Set when stored data could not be used and the seed data was loaded instead
+  warning?: string;
+}
+
+
+// Check that the data is a well-formed items record with a root and no dangling children
+export const validateItems = (value: unknown): value is LeagueItems => {
+  if (!isObject(value) || !isObject(value['root'])) return false;
+
+  return Object.keys(value).every(key => {
+    const item = value[key];
+    if (!isObject(item) || String(item.index) !== key || !isObject(item.data)) return false;
+    if (typeof item.data.name !== 'string') return false;
+    if (!ITEM_TYPES.includes(item.data.type as ItemData['type'])) return false;
+    if (item.data.fields !== undefined && !isObject(item.data.fields)) return false;
+    if (item.children === undefined) return true;
+
+    return Array.isArray(item.children) && item.children.every(childId => String(childId) in value);
+  });
+};
+
+// Run every migration between the saved version and the current one
+export const migrate = (items: unknown, fromVersion: number): unknown => {
+  let migrated = items;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+    migrated = migration(migrated);
+  }
+  return migrated;
+};
+
+/**
+ * Loads the saved league from localStorage, migrating it to the current
+ * schema. Falls back to the seed data (with a warning) when nothing usable is
+ * stored.
+ */
+export const loadLeague = (seed: LeagueItems): LoadResult => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return { items: seed, warning: 'Local storage is unavailable, so changes will not be saved.' };
+  }
+  if (raw === null) return { items: seed };
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+
+    // Data saved before the envelope existed is treated as version 0
+    const isEnvelope = isObject(parsed) && typeof parsed.version === 'number' && 'items' in parsed;
+    const version = isEnvelope ? (parsed.version as number) : 0;
+    const storedItems = isEnvelope ? parsed.items : parsed;
+
+    if (version > SCHEMA_VERSION) {
+      throw new Error(`Saved data uses schema version ${version}, which is newer than this app supports`);
+    }
+
+    const items = migrate(storedItems, version);
+    if (!validateItems(items)) {
+      throw new Error('Saved data does not describe a valid league structure');
+    }
+    return { items };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return {
+      items: seed,
+      warning: `Your saved league could not be loaded (${reason}). The default structure is shown instead.`
+    };
+  }
+};
+
+// Write the items under the current schema version
+export const saveLeague = (items: LeagueItems) => {
+  const payload: PersistedLeague = {
+    version: SCHEMA_VERSION,
+    savedAt: Date.now(),
+    items
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+};
+
+// Save the items whenever they change, debounced so bursts of edits write once
+export function useAutoSave(
+  items: LeagueItems,
+  onError: (message: string) => void,
+  delay: number = SAVE_DELAY_MS,
+  enabled = true
+) {
+  const isFirstRender = useRef(true);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  // Changed items the delay hasn't let through yet
+  const unsaved = useRef<LeagueItems | null>(null);
+
+  const flush = useCallback(() => {
+    const pending = unsaved.current;
+    if (!pending) return;
+    unsaved.current = null;
+    try {
+      saveLeague(pending);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      onErrorRef.current(`Changes could not be saved (${reason}).`);
+    }
+  }, []);
+
+  useEffect(() => {
+    // Nothing changed yet, so don't overwrite stored data with what was just loaded
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    if (!enabled) {
+      unsaved.current = null;
+      return;
+    }
+
+    unsaved.current = items;
+    const timeout = setTimeout(flush, delay);
+    return () => clearTimeout(timeout);
+  }, [items, delay, enabled, flush]);
+
+  // Write right away when the page goes away, so closing the tab within the
+  // delay keeps the last change. Mobile browsers may skip beforeunload, but
+  // they fire pagehide.
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      window.removeEventListener('beforeunload', flush);
+    };
+  }, [flush]);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { LeagueItems } from './types';
+import { createPublishLink, publishedItems, readPublishedLeague } from './publish';
+
+const items: LeagueItems = {
+  root: { index: 'root', isFolder: true, children: ['monday'], data: { name: 'League', type: 'Conference' } },
+  'draft-root': { index: 'draft-root', isFolder: true, children: ['friday'], data: { name: 'Draft', type: 'Conference' } },
+  monday: {
+    index: 'monday',
+    isFolder: true,
+    children: ['8u'],
+    data: { name: 'Monday', type: 'Conference', fields: { dayOfWeek: 'Monday', startTime: '18:30' } }
+  },
+  '8u': { index: '8u', isFolder: true, children: ['tigers'], data: { name: '8U', type: 'Division', fields: { maxRoster: 12 } } },
+  tigers: {
+    index: 'tigers',
+    isFolder: true,
+    children: ['ava'],
+    data: { name: 'Tigers', type: 'Team', fields: { coach: 'Sam Lee', email: 'sam@example.com', color: '#ff8800' } }
+  },
+  ava: { index: 'ava', data: { name: 'Ava', type: 'Player', fields: { jerseyNumber: 7, birthdate: '2017-03-04' } } },
+  friday: { index: 'friday', isFolder: true, children: [], data: { name: 'Friday', type: 'Conference' } }
+};
+
+describe('publishedItems', () => {
+  it('keeps the current season with only its public fields', () => {
+    expect(publishedItems(items)).toEqual({
+      root: { index: 'root', isFolder: true, children: ['monday'], data: { name: 'League', type: 'Conference' } },
+      monday: {
+        index: 'monday',
+        isFolder: true,
+        children: ['8u'],
+        data: { name: 'Monday', type: 'Conference', fields: { dayOfWeek: 'Monday', startTime: '18:30' } }
+      },
+      '8u': { index: '8u', isFolder: true, children: ['tigers'], data: { name: '8U', type: 'Division' } },
+      tigers: { index: 'tigers', isFolder: true, children: ['ava'], data: { name: 'Tigers', type: 'Team', fields: { color: '#ff8800' } } },
+      ava: { index: 'ava', data: { name: 'Ava', type: 'Player', fields: { jerseyNumber: 7 } } }
+    });
+  });
+});
+
+describe('createPublishLink', () => {
+  it('opens as the published league and leaves out private details', () => {
+    const link = createPublishLink(items, 'https://league.example/#old', 1700000000000);
+    expect(link.startsWith('https://league.example/#published=')).toBe(true);
+    expect(readPublishedLeague(link.slice(link.indexOf('#')))).toEqual({
+      items: publishedItems(items),
+      publishedAt: 1700000000000
+    });
+    expect(atob(link.split('=')[1].replace(/-/g, '+').replace(/_/g, '/'))).not.toMatch(/sam@example|2017-03-04|Sam Lee/);
+  });
+});
+
+describe('readPublishedLeague', () => {
+  it('opens links published under an older schema version', () => {
+    const league = {
+      version: 1,
+      publishedAt: 1,
+      items: {
+        root: { index: 'root', isFolder: true, children: ['tigers'], data: { name: 'League', type: 'Conference' } },
+        tigers: { index: 'tigers', data: { name: 'Tigers', type: 'Team' } }
+      }
+    };
+    const loaded = readPublishedLeague(`#published=${btoa(JSON.stringify(league))}`);
+    expect(loaded?.warning).toBeUndefined();
+    expect(loaded?.items.tigers).toEqual({ index: 'tigers', isFolder: true, children: [], data: { name: 'Tigers', type: 'Team' } });
+  });
+
+  it('opens damaged links empty, with a warning', () => {
+    expect(readPublishedLeague('#published=not-json')?.warning).toContain('damaged');
+    expect(readPublishedLeague('#other=1')).toBeNull();
+  });
+});
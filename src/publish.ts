@@ -0,0 +1,86 @@
+import { LeagueItem, LeagueItems } from './types';
+import { collectSubtree } from './leagueStore';
+import { publicFields } from './itemSchema';
+import { CURRENT_SEASON } from './seasons';
+import { LoadResult, SCHEMA_VERSION, migrate, validateItems } from './persistence';
+
+// Published leagues travel in the URL hash, which browsers never send to a server
+export const PUBLISH_HASH_KEY = 'published';
+
+// Links longer than this get cut off by some email and chat apps
+export const PUBLISH_LINK_WARN_LENGTH = 8000;
+
+// The league as it is encoded in a published link
+export interface PublishedLeague {
+  version: number;
+  publishedAt: number;
+  items: LeagueItems;
+}
+
+export interface PublishedLoad extends LoadResult {
+  publishedAt?: number;
+}
+
+// UTF-8 text as URL-safe base64, so names with accents survive the trip
+const encodeBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+// What parents get to see of an item: its name, type, place in the tree and public fields
+const publicItem = (items: LeagueItems, item: LeagueItem): LeagueItem => {
+  const fields = publicFields(item.data.type, item.data.fields ?? {});
+  return {
+    index: item.index,
+    isFolder: item.isFolder,
+    ...(item.children ? { children: item.children.filter(childId => items[childId]) } : {}),
+    data: {
+      name: item.data.name,
+      type: item.data.type,
+      ...(Object.keys(fields).length > 0 ? { fields } : {})
+    }
+  };
+};
+
+// Only the current season is published; the draft season and private fields stay behind
+export const publishedItems = (items: LeagueItems): LeagueItems =>
+  Object.fromEntries(collectSubtree(items, CURRENT_SEASON.rootId).map(id => [id, publicItem(items, items[id])]));
+
+// A link that opens the current season read-only, for sharing with parents
+export const createPublishLink = (items: LeagueItems, baseUrl: string, publishedAt = Date.now()) => {
+  const league: PublishedLeague = { version: SCHEMA_VERSION, publishedAt, items: publishedItems(items) };
+  return `${baseUrl.split('#')[0]}#${PUBLISH_HASH_KEY}=${encodeBase64Url(JSON.stringify(league))}`;
+};
+
+/**
+ * Reads the league from a published link's hash. Returns null when the hash
+ * holds no published league, and an empty league with a warning when the
+ * link is damaged, so a broken link still opens read-only.
+ */
+export const readPublishedLeague = (hash: string): PublishedLoad | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(PUBLISH_HASH_KEY);
+  if (encoded === null) return null;
+
+  try {
+    const parsed = JSON.parse(decodeBase64Url(encoded)) as Partial<PublishedLeague> | null;
+    // Links published by older versions are upgraded like saved leagues
+    const version = parsed?.version;
+    if (typeof version === 'number' && version >= 1 && version <= SCHEMA_VERSION) {
+      const items = migrate(parsed?.items, version);
+      if (validateItems(items)) return { items, publishedAt: parsed?.publishedAt };
+    }
+  } catch {
+    // Reported below like any other damaged link
+  }
+  return {
+    items: { root: { index: 'root', isFolder: true, children: [], data: { name: 'League Structure', type: 'Conference' } } },
+    warning: 'This published league link is incomplete or damaged. Ask for a new link.'
+  };
+};
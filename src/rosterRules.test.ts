@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { ItemFields, LeagueItem, LeagueItems } from './types';
+import { createLeagueState } from './leagueStore';
+import {
+  ageBandOf,
+  ageOn,
+  explainAddPlayer,
+  explainCopyRoster,
+  explainIneligible,
+  explainRosterLimit,
+  rosterWarnings
+} from './rosterRules';
+
+const player = (index: string, birthdate = '2016-05-01'): LeagueItem => ({
+  index,
+  data: { name: index, type: 'Player', fields: { birthdate } }
+});
+
+const league = (divisionFields: ItemFields, players: string[] = []): LeagueItems => ({
+  root: { index: 'root', isFolder: true, children: ['monday'], data: { name: 'League', type: 'Conference' } },
+  monday: { index: 'monday', isFolder: true, children: ['8u'], data: { name: 'Monday', type: 'Conference' } },
+  '8u': { index: '8u', isFolder: true, children: ['tigers'], data: { name: '8U', type: 'Division', fields: divisionFields } },
+  tigers: { index: 'tigers', isFolder: true, children: players, data: { name: 'Tigers', type: 'Team' } },
+  ...Object.fromEntries(players.map(id => [id, player(id)]))
+});
+
+describe('explainAddPlayer', () => {
+  it('allows players while the roster has room', () => {
+    expect(explainAddPlayer(createLeagueState(league({ maxRoster: 2 })), 'tigers')).toBeNull();
+    expect(explainAddPlayer(createLeagueState(league({ maxRoster: 2 }, ['ava'])), 'tigers')).toBeNull();
+  });
+
+  it('explains a full roster', () => {
+    const state = createLeagueState(league({ maxRoster: 2 }, ['ava', 'ben']));
+    expect(explainAddPlayer(state, 'tigers')).toBe('Tigers is full: 8U Teams can have at most 2 players.');
+  });
+
+  it('has no limit without a maximum roster', () => {
+    expect(explainAddPlayer(createLeagueState(league({}, ['ava', 'ben'])), 'tigers')).toBeNull();
+  });
+
+  it('only applies to Teams', () => {
+    expect(explainAddPlayer(createLeagueState(league({ maxRoster: 0 })), '8u')).toBeNull();
+  });
+});
+
+describe('explainRosterLimit', () => {
+  it('counts only players that are new to the Team', () => {
+    const state = createLeagueState(league({ maxRoster: 2 }, ['ava', 'ben']));
+    expect(explainRosterLimit(state, 'tigers', [state.items.ava])).toBeNull();
+    expect(explainRosterLimit(state, 'tigers', [player('cal'), player('dee')])).toBe(
+      'Tigers is full: 8U Teams can have at most 2 players.'
+    );
+  });
+
+  it('says how many more players fit', () => {
+    const state = createLeagueState(league({ maxRoster: 3 }, ['ava']));
+    expect(explainRosterLimit(state, 'tigers', [player('cal'), player('dee'), player('eve')])).toBe(
+      'Only 2 more players fit on Tigers: 8U Teams can have at most 3 players.'
+    );
+  });
+});
+
+describe('explainCopyRoster', () => {
+  it('needs room on the Team for a copied Player', () => {
+    expect(explainCopyRoster(createLeagueState(league({ maxRoster: 2 }, ['ava'])), 'ava')).toBeNull();
+    expect(explainCopyRoster(createLeagueState(league({ maxRoster: 2 }, ['ava', 'ben'])), 'ava')).toBe(
+      'Tigers is full: 8U Teams can have at most 2 players.'
+    );
+  });
+
+  it('lets a Team within its limit be copied', () => {
+    expect(explainCopyRoster(createLeagueState(league({ maxRoster: 2 }, ['ava', 'ben'])), 'tigers')).toBeNull();
+  });
+
+  it('refuses copies of groups with a Team over its limit', () => {
+    const state = createLeagueState(league({ maxRoster: 1 }, ['ava', 'ben']));
+    const explanation = 'A copy of Tigers would have 2 players: 8U Teams can have at most 1 players.';
+    expect(explainCopyRoster(state, 'tigers')).toBe(explanation);
+    expect(explainCopyRoster(state, '8u')).toBe(explanation);
+  });
+});
+
+describe('age bands', () => {
+  it('reads the band from the age fields or a name such as 8U', () => {
+    const state = createLeagueState(league({ minAge: 6, maxAge: 8 }, []));
+    expect(ageBandOf(state.items['8u'])).toEqual({ min: 6, max: 8 });
+    expect(ageBandOf(createLeagueState(league({}, [])).items['8u'])).toEqual({ min: 7, max: 8 });
+  });
+
+  it('counts whole years up to the birthday', () => {
+    expect(ageOn('2016-05-01', new Date(2024, 3, 30))).toBe(7);
+    expect(ageOn('2016-05-01', new Date(2024, 4, 1))).toBe(8);
+  });
+
+  it('flags players outside the band and the Teams that have them', () => {
+    const state = createLeagueState(league({ maxRoster: 1 }, ['ava', 'ben']));
+    const today = new Date(2026, 5, 1);
+    expect(explainIneligible(state, 'ava', today)).toBe('Age 10 is outside the 8U age band (7–8)');
+    expect(rosterWarnings(state, 'tigers', today)).toEqual(['Over capacity: 2 of 1 players', '2 ineligible players']);
+  });
+});
@@ -0,0 +1,147 @@
+import { TreeItem, TreeItemIndex } from 'react-complex-tree';
+import { ItemData, LeagueItem } from './types';
+import { LeagueState, collectSubtree } from './leagueStore';
+import { isValidDate } from './itemSchema';
+import { isSeasonRoot } from './seasons';
+
+// The ages a Division's players must be, inclusive
+export interface AgeBand {
+  min: number;
+  max: number;
+}
+
+// The closest Division above an item, or null when it isn't inside one
+export const divisionOf = (state: LeagueState, itemId: TreeItemIndex): LeagueItem | null => {
+  let current = state.parents[itemId];
+  while (current !== undefined) {
+    const item = state.items[current];
+    if (item?.data.type === 'Division' && !isSeasonRoot(current)) return item;
+    current = state.parents[current];
+  }
+  return null;
+};
+
+/**
+ * The age band of a Division, from its age fields or, for Divisions without
+ * them, from a name such as "10U" (which means 9 and 10 year olds).
+ */
+export const ageBandOf = (division: LeagueItem): AgeBand | null => {
+  const { minAge, maxAge } = division.data.fields ?? {};
+  if (typeof minAge === 'number' && typeof maxAge === 'number') return { min: minAge, max: maxAge };
+
+  const under = /(\d+)U\b/i.exec(division.data.name);
+  if (!under) return null;
+  const max = Number(under[1]);
+  return { min: max - 1, max };
+};
+
+// Age in whole years on a given day, for a YYYY-MM-DD birthdate
+export const ageOn = (birthdate: string, on: Date): number => {
+  const [year, month, day] = birthdate.split('-').map(Number);
+  const hadBirthday = on.getMonth() + 1 > month || (on.getMonth() + 1 === month && on.getDate() >= day);
+  return on.getFullYear() - year - (hadBirthday ? 0 : 1);
+};
+
+export const playerIds = (state: LeagueState, teamId: TreeItemIndex): TreeItemIndex[] =>
+  (state.items[teamId]?.children ?? []).filter(id => state.items[id]?.data.type === 'Player');
+
+// The most players the Division of a Team allows on it, or null for no limit
+export const rosterLimit = (state: LeagueState, teamId: TreeItemIndex): number | null => {
+  const maxRoster = divisionOf(state, teamId)?.data.fields?.maxRoster;
+  return typeof maxRoster === 'number' ? maxRoster : null;
+};
+
+// Explains why `count` more players don't fit on a Team, or null if they do
+const explainRosterSpace = (state: LeagueState, teamId: TreeItemIndex, count: number): string | null => {
+  const team = state.items[teamId];
+  const limit = rosterLimit(state, teamId);
+  if (!team || team.data.type !== 'Team' || limit === null) return null;
+
+  const space = limit - playerIds(state, teamId).length;
+  if (count === 0 || count <= space) return null;
+
+  const rule = `${divisionOf(state, teamId)?.data.name} Teams can have at most ${limit} players.`;
+  return space <= 0
+    ? `${team.data.name} is full: ${rule}`
+    : `Only ${space} more player${space === 1 ? '' : 's'} fit on ${team.data.name}: ${rule}`;
+};
+
+/**
+ * Explains why `adding` don't fit on a Team, e.g. "Tigers is full: 8U Teams
+ * can have at most 12 players." Players that are already on the Team (when
+ * reordering) don't count. Returns null when they fit.
+ */
+export const explainRosterLimit = (
+  state: LeagueState,
+  teamId: TreeItemIndex,
+  adding: TreeItem<ItemData>[]
+): string | null => {
+  const current = playerIds(state, teamId);
+  const added = adding.filter(item => item.data.type === 'Player' && !current.includes(item.index)).length;
+  return explainRosterSpace(state, teamId, added);
+};
+
+// Explains why a new Player can't be added to a Team, or null if it can
+export const explainAddPlayer = (state: LeagueState, teamId: TreeItemIndex): string | null =>
+  explainRosterSpace(state, teamId, 1);
+
+/**
+ * Explains why a copy of an item placed next to it would break a roster
+ * limit, or null if it wouldn't. A copied Player needs room on its Team, and
+ * every Team in a copied group brings its whole roster along.
+ */
+export const explainCopyRoster = (state: LeagueState, itemId: TreeItemIndex): string | null => {
+  const item = state.items[itemId];
+  const parentId = state.parents[itemId];
+  if (!item || parentId === undefined) return null;
+  if (item.data.type === 'Player') return explainAddPlayer(state, parentId);
+
+  const overLimit = collectSubtree(state.items, itemId).find(id => {
+    const limit = state.items[id].data.type === 'Team' ? rosterLimit(state, id) : null;
+    return limit !== null && playerIds(state, id).length > limit;
+  });
+  if (overLimit === undefined) return null;
+
+  const team = state.items[overLimit];
+  const rule = `${divisionOf(state, overLimit)?.data.name} Teams can have at most ${rosterLimit(state, overLimit)} players.`;
+  return `A copy of ${team.data.name} would have ${playerIds(state, overLimit).length} players: ${rule}`;
+};
+
+// Why a Player doesn't belong in its Division's age band, or null if they do
+export const explainIneligible = (state: LeagueState, playerId: TreeItemIndex, today = new Date()): string | null => {
+  const player = state.items[playerId];
+  const birthdate = player?.data.fields?.birthdate;
+  const division = divisionOf(state, playerId);
+  const band = division && ageBandOf(division);
+  if (!band || typeof birthdate !== 'string' || !isValidDate(birthdate)) return null;
+
+  const age = ageOn(birthdate, today);
+  if (age >= band.min && age <= band.max) return null;
+  return `Age ${age} is outside the ${division.data.name} age band (${band.min}–${band.max})`;
+};
+
+/**
+ * Roster problems to flag on an item's row: Teams with more players than
+ * their Division allows or with ineligible players, and the ineligible
+ * Players themselves.
+ */
+export const rosterWarnings = (state: LeagueState, itemId: TreeItemIndex, today = new Date()): string[] => {
+  const item = state.items[itemId];
+  if (item?.data.type === 'Player') {
+    const ineligible = explainIneligible(state, itemId, today);
+    return ineligible ? [ineligible] : [];
+  }
+  if (item?.data.type !== 'Team') return [];
+
+  const warnings: string[] = [];
+  const players = playerIds(state, itemId);
+  const limit = rosterLimit(state, itemId);
+  if (limit !== null && players.length > limit) {
+    warnings.push(`Over capacity: ${players.length} of ${limit} players`);
+  }
+  const ineligible = players.filter(id => explainIneligible(state, id, today)).length;
+  if (ineligible > 0) {
+    warnings.push(`${ineligible} ineligible player${ineligible === 1 ? '' : 's'}`);
+  }
+  return warnings;
+};
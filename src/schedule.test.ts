@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { LeagueItems } from './types';
+import { generateSchedule, roundRobinRounds } from './schedule';
+
+// Every pairing of a round, ignoring home and away
+const pairings = (rounds: [string | null, string | null][][]) =>
+  rounds.flat().map(pair => [...pair].sort().join(' v '));
+
+describe('roundRobinRounds', () => {
+  it('has every team meet every other team once in n - 1 rounds', () => {
+    const rounds = roundRobinRounds(['a', 'b', 'c', 'd']);
+    expect(rounds).toHaveLength(3);
+    expect(rounds.every(round => new Set(round.flat()).size === 4)).toBe(true);
+    expect(new Set(pairings(rounds))).toEqual(new Set(['a v b', 'a v c', 'a v d', 'b v c', 'b v d', 'c v d']));
+  });
+
+  it('gives each team one bye with an odd number of teams', () => {
+    const rounds = roundRobinRounds(['a', 'b', 'c']);
+    expect(rounds).toHaveLength(3);
+    const byes = rounds.map(round => round.find(pair => pair.includes(null))?.find(team => team !== null));
+    expect(byes.sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('does not keep any team at home every round', () => {
+    const teams = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const rounds = roundRobinRounds(teams);
+    teams.forEach(team => {
+      const home = rounds.filter(round => round.some(([first]) => first === team)).length;
+      expect(home).toBeGreaterThan(0);
+      expect(home).toBeLessThan(rounds.length);
+    });
+  });
+});
+
+describe('generateSchedule', () => {
+  const items: LeagueItems = {
+    root: { index: 'root', isFolder: true, children: ['monday'], data: { name: 'League', type: 'Conference' } },
+    monday: {
+      index: 'monday',
+      isFolder: true,
+      children: ['8u', '10u'],
+      data: { name: 'Monday', type: 'Conference', fields: { dayOfWeek: 'Monday', startTime: '18:30' } }
+    },
+    '8u': { index: '8u', isFolder: true, children: ['a', 'b', 'c'], data: { name: '8U', type: 'Division' } },
+    '10u': { index: '10u', isFolder: true, children: ['d'], data: { name: '10U', type: 'Division' } },
+    a: { index: 'a', data: { name: 'A', type: 'Team' } },
+    b: { index: 'b', data: { name: 'B', type: 'Team' } },
+    c: { index: 'c', data: { name: 'C', type: 'Team' } },
+    d: { index: 'd', data: { name: 'D', type: 'Team' } }
+  };
+
+  it('plays on the Conference night from the first one on or after the start date', () => {
+    // 2026-09-02 is a Wednesday, so the first Monday is 2026-09-07
+    const [eightU] = generateSchedule(items, { startDate: '2026-09-02', weeks: 3 });
+    expect([...new Set(eightU.fixtures.map(fixture => fixture.date))]).toEqual(['2026-09-07', '2026-09-14', '2026-09-21']);
+    expect(eightU.fixtures.every(fixture => fixture.startTime === '18:30')).toBe(true);
+    expect(eightU.fixtures).toHaveLength(3);
+    expect(eightU.byes.map(bye => bye.week)).toEqual([1, 2, 3]);
+  });
+
+  it('swaps home and away when the rotation starts over', () => {
+    const [eightU] = generateSchedule(items, { startDate: '2026-09-07', weeks: 6 });
+    const first = eightU.fixtures.filter(fixture => fixture.week === 1);
+    const repeat = eightU.fixtures.filter(fixture => fixture.week === 4);
+    expect(repeat.map(({ home, away }) => [away, home])).toEqual(first.map(({ home, away }) => [home, away]));
+  });
+
+  it('notes Divisions that cannot be scheduled', () => {
+    const [, tenU] = generateSchedule(items, { startDate: '2026-09-07', weeks: 2 });
+    expect(tenU.fixtures).toEqual([]);
+    expect(tenU.note).toBe('Needs at least two Teams to schedule games.');
+  });
+});
@@ -0,0 +1,202 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { LeagueItem, LeagueItems } from './types';
+import { DAYS_OF_WEEK } from './itemSchema';
+import { escapeCsvField } from './importExport';
+
+// Start time used for Conferences that don't have one
+export const DEFAULT_START_TIME = '18:00';
+
+// How long a game is blocked out for in calendar exports
+export const GAME_LENGTH_MINUTES = 60;
+
+export interface ScheduleOptions {
+  // First day of the season as YYYY-MM-DD; each night starts on its first
+  // weekday on or after it
+  startDate: string;
+  weeks: number;
+}
+
+export interface Fixture {
+  week: number;
+  date: string;
+  startTime: string;
+  home: string;
+  away: string;
+}
+
+export interface Bye {
+  week: number;
+  date: string;
+  team: string;
+}
+
+// The games of one Division, played on its Conference's night
+export interface DivisionSchedule {
+  divisionId: TreeItemIndex;
+  division: string;
+  night: string;
+  fixtures: Fixture[];
+  byes: Bye[];
+  // Why the Division has no games, e.g. when it has fewer than two Teams
+  note?: string;
+}
+
+/**
+ * Pair up teams with the circle method: one team stays put while the others
+ * rotate, so every team meets every other team once over `n - 1` rounds.
+ * With an odd number of teams a null stands in, and whoever meets it has a
+ * bye that round. Home and away alternate so no team is always at home or
+ * always away: the fixed team swaps every round, and the rotating teams swap
+ * as they move from one pair to the next.
+ */
+export const roundRobinRounds = <T>(teams: T[]): [T | null, T | null][][] => {
+  const slots: (T | null)[] = teams.length % 2 === 0 ? [...teams] : [...teams, null];
+  const rounds: [T | null, T | null][][] = [];
+
+  for (let round = 0; round < slots.length - 1; round++) {
+    const pairs: [T | null, T | null][] = [];
+    for (let i = 0; i < slots.length / 2; i++) {
+      const first = slots[i];
+      const second = slots[slots.length - 1 - i];
+      pairs.push((i === 0 ? round : i) % 2 === 0 ? [first, second] : [second, first]);
+    }
+    rounds.push(pairs);
+    // Keep the first slot fixed and rotate the rest one place
+    slots.splice(1, 0, slots.pop() as T | null);
+  }
+  return rounds;
+};
+
+// The night a Conference plays on, from its day field or else its name
+const nightOf = (conference: LeagueItem): string | null => {
+  const day = conference.data.fields?.dayOfWeek ?? conference.data.name;
+  return DAYS_OF_WEEK.find(name => name.toLowerCase() === String(day).trim().toLowerCase()) ?? null;
+};
+
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// The date of each week's game night, starting with the first `night` on or after `startDate`
+const gameDates = (startDate: string, night: string, weeks: number): string[] => {
+  const first = parseDate(startDate);
+  // DAYS_OF_WEEK starts on Monday, Date#getDay on Sunday
+  const weekday = (DAYS_OF_WEEK.indexOf(night) + 1) % 7;
+  first.setDate(first.getDate() + ((weekday - first.getDay() + 7) % 7));
+
+  return Array.from({ length: weeks }, (_, week) => {
+    const date = new Date(first);
+    date.setDate(first.getDate() + week * 7);
+    return formatDate(date);
+  });
+};
+
+const childrenOfType = (items: LeagueItems, parentId: TreeItemIndex, type: LeagueItem['data']['type']) =>
+  (items[parentId]?.children ?? [])
+    .map(id => items[id])
+    .filter((item): item is LeagueItem => item?.data.type === type);
+
+/**
+ * Build a round-robin schedule for every Division, in tree order. A Division
+ * plays on its Conference's night; when the season has more weeks than
+ * rounds the rotation starts over with home and away swapped.
+ */
+export const generateSchedule = (items: LeagueItems, { startDate, weeks }: ScheduleOptions): DivisionSchedule[] =>
+  childrenOfType(items, 'root', 'Conference').flatMap(conference => {
+    const night = nightOf(conference);
+    const startTime = String(conference.data.fields?.startTime ?? DEFAULT_START_TIME);
+
+    return childrenOfType(items, conference.index, 'Division').map(division => {
+      const schedule: DivisionSchedule = {
+        divisionId: division.index,
+        division: division.data.name,
+        night: night ?? conference.data.name,
+        fixtures: [],
+        byes: []
+      };
+      const teams = childrenOfType(items, division.index, 'Team').map(team => team.data.name);
+
+      if (!night) {
+        schedule.note = `${conference.data.name} has no day of the week to play on.`;
+        return schedule;
+      }
+      if (teams.length < 2) {
+        schedule.note = 'Needs at least two Teams to schedule games.';
+        return schedule;
+      }
+
+      const rounds = roundRobinRounds(teams);
+      gameDates(startDate, night, weeks).forEach((date, index) => {
+        const week = index + 1;
+        const swapped = Math.floor(index / rounds.length) % 2 === 1;
+        rounds[index % rounds.length].forEach(([first, second]) => {
+          if (first === null || second === null) {
+            schedule.byes.push({ week, date, team: (first ?? second) as string });
+            return;
+          }
+          const [home, away] = swapped ? [second, first] : [first, second];
+          schedule.fixtures.push({ week, date, startTime, home, away });
+        });
+      });
+      return schedule;
+    });
+  });
+
+// One row per game and one per bye, in week order for each Division
+export const exportScheduleCsv = (schedule: DivisionSchedule[]): string => {
+  const rows = [['Week', 'Date', 'Time', 'Night', 'Division', 'Home', 'Away']];
+  schedule.forEach(division => {
+    const entries = [
+      ...division.fixtures.map(fixture => ({ ...fixture, row: [fixture.startTime, fixture.home, fixture.away] })),
+      ...division.byes.map(bye => ({ ...bye, row: ['', bye.team, 'Bye'] }))
+    ].sort((a, b) => a.week - b.week);
+
+    entries.forEach(({ week, date, row: [time, home, away] }) => {
+      rows.push([String(week), date, time, division.night, division.division, home, away]);
+    });
+  });
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+};
+
+// Escape text for an iCalendar property value
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// A local date and time in iCalendar's basic format, e.g. 20260907T180000
+const icsDateTime = (date: string, time: string, addMinutes = 0) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const start = parseDate(date);
+  start.setHours(hours, minutes + addMinutes);
+  return `${formatDate(start).replace(/-/g, '')}T${String(start.getHours()).padStart(2, '0')}${String(start.getMinutes()).padStart(2, '0')}00`;
+};
+
+/**
+ * Every game as an iCalendar event. Times are written without a time zone
+ * so calendar apps show them at the league's local start time.
+ */
+export const exportScheduleIcs = (schedule: DivisionSchedule[], now = new Date()): string => {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//League Structure//Schedule//EN', 'CALSCALE:GREGORIAN'];
+
+  schedule.forEach(division => {
+    division.fixtures.forEach((fixture, index) => {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${escapeIcsText(`${String(division.divisionId)}-${fixture.week}-${index}`)}@league-structure`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsDateTime(fixture.date, fixture.startTime)}`,
+        `DTEND:${icsDateTime(fixture.date, fixture.startTime, GAME_LENGTH_MINUTES)}`,
+        `SUMMARY:${escapeIcsText(`${division.division}: ${fixture.home} vs ${fixture.away}`)}`,
+        `DESCRIPTION:${escapeIcsText(`${division.night} ${division.division}, week ${fixture.week}`)}`,
+        'END:VEVENT'
+      );
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.join('\r\n');
+};
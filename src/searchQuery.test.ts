@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { createLeagueState } from './leagueStore';
+import { findMatches, highlightRanges, parseSearchQuery, visibleItemsForMatches } from './searchQuery';
+
+const item = (index: string, name: string, type: ItemData['type'], children?: string[]): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name, type }
+});
+
+const league = (): LeagueItems => ({
+  root: item('root', 'League', 'Conference', ['monday', 'friday']),
+  monday: item('monday', 'Monday', 'Conference', ['m8']),
+  friday: item('friday', 'Friday', 'Conference', ['f12']),
+  m8: item('m8', '8U Red', 'Division', ['tigers', 'hawks']),
+  f12: item('f12', '12U Red', 'Division', ['lions']),
+  tigers: item('tigers', 'Tigers', 'Team'),
+  hawks: item('hawks', 'Hawks', 'Team'),
+  lions: item('lions', 'Lions', 'Team')
+});
+
+const search = (query: string) => {
+  const parsed = parseSearchQuery(query);
+  if (!parsed) throw new Error(`Nothing to search for in "${query}"`);
+  return findMatches(createLeagueState(league()), parsed).matches;
+};
+
+describe('parseSearchQuery', () => {
+  it('reads fields, negation, fuzziness, quotes and OR groups', () => {
+    expect(parseSearchQuery('type:Team -name:"8u red"~ OR tigers')).toEqual({
+      groups: [
+        [
+          { field: 'type', value: 'team', negated: false, fuzzy: false },
+          { field: 'name', value: '8u red', negated: true, fuzzy: true }
+        ],
+        [{ field: 'name', value: 'tigers', negated: false, fuzzy: false }]
+      ]
+    });
+  });
+
+  it('searches unknown prefixes as part of the name', () => {
+    expect(parseSearchQuery('12:30')?.groups).toEqual([[{ field: 'name', value: '12:30', negated: false, fuzzy: false }]]);
+  });
+
+  it('returns null when there is nothing to search for', () => {
+    expect(parseSearchQuery('  ')).toBeNull();
+    expect(parseSearchQuery('OR')).toBeNull();
+  });
+});
+
+describe('findMatches', () => {
+  it('finds matches in tree order and never the root', () => {
+    expect(search('e')).toEqual(['m8', 'tigers', 'f12']);
+  });
+
+  it('filters by type, night and division', () => {
+    expect(search('type:Team night:Monday')).toEqual(['tigers', 'hawks']);
+    expect(search('division:12u')).toEqual(['f12', 'lions']);
+    expect(search('type:Team -division:8u')).toEqual(['lions']);
+  });
+
+  it('matches any of the OR groups and fuzzy terms', () => {
+    expect(search('tigers OR lions')).toEqual(['tigers', 'lions']);
+    expect(search('hwks~')).toEqual(['hawks']);
+  });
+
+  it('reports the items that contain matches', () => {
+    const state = createLeagueState(league());
+    const found = findMatches(state, parseSearchQuery('hawks')!);
+    expect([...found.containsMatches].sort()).toEqual(['m8', 'monday', 'root']);
+    expect([...visibleItemsForMatches(state, found, false)].sort()).toEqual(['hawks', 'm8', 'monday', 'root']);
+  });
+});
+
+describe('highlightRanges', () => {
+  it('merges the ranges of every name term', () => {
+    expect(highlightRanges('Red Redwoods', parseSearchQuery('red wood')!)).toEqual([[0, 3], [4, 11]]);
+  });
+
+  it('highlights the letters of fuzzy terms', () => {
+    expect(highlightRanges('Hawks', parseSearchQuery('hks~')!)).toEqual([[0, 1], [3, 5]]);
+  });
+});
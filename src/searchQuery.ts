@@ -0,0 +1,240 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData } from './types';
+import { LeagueState, collectSubtree } from './leagueStore';
+import { isSeasonRoot } from './seasons';
+
+export type SearchField = 'name' | 'type' | 'night' | 'division';
+
+export const SEARCH_FIELDS: SearchField[] = ['name', 'type', 'night', 'division'];
+
+// A single condition such as `-type:Division` or `name:"12U"~`
+export interface SearchTerm {
+  field: SearchField;
+  value: string;
+  negated: boolean;
+  fuzzy: boolean;
+}
+
+/**
+ * A parsed search. The terms of a group must all hold; an item matches when
+ * any of the groups does, so `type:Team OR night:Friday` has two groups.
+ */
+export interface SearchQuery {
+  groups: SearchTerm[][];
+}
+
+export interface SearchMatches {
+  // Matching items in the order they appear in the tree
+  matches: TreeItemIndex[];
+  matchSet: Set<TreeItemIndex>;
+  // Items with at least one match somewhere below them
+  containsMatches: Set<TreeItemIndex>;
+}
+
+// Split a query into tokens, keeping quoted values (with their field prefix) together
+const tokenize = (query: string): string[] =>
+  query.match(/-?(?:[a-zA-Z]+:)?"[^"]*"?~?|\S+/g) ?? [];
+
+const parseTerm = (token: string): SearchTerm | null => {
+  let rest = token;
+  const negated = rest.startsWith('-') && rest.length > 1;
+  if (negated) rest = rest.slice(1);
+
+  const fuzzy = rest.endsWith('~') && rest.length > 1;
+  if (fuzzy) rest = rest.slice(0, -1);
+
+  // Unknown prefixes such as "12:30" are searched for as part of the name
+  let field: SearchField = 'name';
+  const prefix = /^([a-zA-Z]+):/.exec(rest);
+  if (prefix && SEARCH_FIELDS.includes(prefix[1].toLowerCase() as SearchField)) {
+    field = prefix[1].toLowerCase() as SearchField;
+    rest = rest.slice(prefix[0].length);
+  }
+
+  const value = rest.replace(/^"|"$/g, '').trim().toLowerCase();
+  return value ? { field, value, negated, fuzzy } : null;
+};
+
+/**
+ * Parse a search such as `type:Team night:Monday`, `name:"12U Red"`,
+ * `-type:Division`, `Tigers OR Lions` or `tigrs~` (fuzzy). Bare words search
+ * the name. Returns null when there is nothing to search for.
+ */
+export const parseSearchQuery = (query: string): SearchQuery | null => {
+  const groups: SearchTerm[][] = [[]];
+  tokenize(query).forEach(token => {
+    if (token === 'OR' || token === '|') {
+      groups.push([]);
+      return;
+    }
+    const term = parseTerm(token);
+    if (term) groups[groups.length - 1].push(term);
+  });
+
+  const nonEmpty = groups.filter(group => group.length > 0);
+  return nonEmpty.length > 0 ? { groups: nonEmpty } : null;
+};
+
+// True when the letters of `value` appear in `text` in order, e.g. "tgrs" in "tigers"
+const fuzzyIncludes = (text: string, value: string) => {
+  let position = 0;
+  for (const char of value) {
+    position = text.indexOf(char, position);
+    if (position === -1) return false;
+    position += 1;
+  }
+  return true;
+};
+
+const textMatches = (text: string, term: SearchTerm) => {
+  const lower = text.toLowerCase();
+  return term.fuzzy ? fuzzyIncludes(lower, term.value) : lower.includes(term.value);
+};
+
+// The name of the closest item of the given type, starting at the item itself
+const ancestorName = (state: LeagueState, itemId: TreeItemIndex, type: ItemData['type']) => {
+  let current: TreeItemIndex | undefined = itemId;
+  while (current !== undefined) {
+    const item = state.items[current];
+    if (item?.data.type === type && !isSeasonRoot(current)) return item.data.name;
+    current = state.parents[current];
+  }
+  return null;
+};
+
+const termMatches = (state: LeagueState, itemId: TreeItemIndex, term: SearchTerm) => {
+  const item = state.items[itemId];
+  let matches: boolean;
+
+  switch (term.field) {
+    case 'name':
+      matches = textMatches(item.data.name, term);
+      break;
+    case 'type':
+      matches = term.fuzzy
+        ? textMatches(item.data.type, term)
+        : item.data.type.toLowerCase().startsWith(term.value);
+      break;
+    case 'night': {
+      const night = ancestorName(state, itemId, 'Conference');
+      matches = night !== null && textMatches(night, term);
+      break;
+    }
+    case 'division': {
+      const division = ancestorName(state, itemId, 'Division');
+      matches = division !== null && textMatches(division, term);
+      break;
+    }
+  }
+
+  return term.negated ? !matches : matches;
+};
+
+export const itemMatchesQuery = (state: LeagueState, itemId: TreeItemIndex, query: SearchQuery) =>
+  !isSeasonRoot(itemId) &&
+  Boolean(state.items[itemId]) &&
+  query.groups.some(group => group.every(term => termMatches(state, itemId, term)));
+
+// Matches found per league state, keyed by root and query. States are never
+// changed in place, so an entry holds until the league changes.
+const matchCache = new WeakMap<LeagueState, Map<string, SearchMatches>>();
+
+// Queries remembered per state, enough for typing a search one letter at a time
+const MATCH_CACHE_SIZE = 16;
+
+// Every match below `rootId` in tree order, together with the items that
+// contain matches. Remembered per query, so the tree, the search bar and the
+// filter all share one search of a large league.
+export const findMatches = (state: LeagueState, query: SearchQuery, rootId: TreeItemIndex = 'root'): SearchMatches => {
+  const key = `${String(rootId)}\u0000${JSON.stringify(query.groups)}`;
+  const cached = matchCache.get(state)?.get(key);
+  if (cached) return cached;
+
+  const cache = matchCache.get(state) ?? new Map<string, SearchMatches>();
+  if (cache.size >= MATCH_CACHE_SIZE) cache.delete(cache.keys().next().value as string);
+  const found = collectMatches(state, query, rootId);
+  matchCache.set(state, cache.set(key, found));
+  return found;
+};
+
+const collectMatches = (state: LeagueState, query: SearchQuery, rootId: TreeItemIndex): SearchMatches => {
+  const matches: TreeItemIndex[] = [];
+  const containsMatches = new Set<TreeItemIndex>();
+
+  const visit = (itemId: TreeItemIndex): boolean => {
+    const item = state.items[itemId];
+    if (!item) return false;
+
+    if (itemMatchesQuery(state, itemId, query)) matches.push(itemId);
+    let below = false;
+    (item.children ?? []).forEach(childId => {
+      if (visit(childId)) below = true;
+    });
+    if (below) containsMatches.add(itemId);
+    return below || matches[matches.length - 1] === itemId;
+  };
+
+  visit(rootId);
+  return { matches, matchSet: new Set(matches), containsMatches };
+};
+
+/**
+ * The items left in the tree when it is filtered down to the matches: every
+ * match and its ancestors, plus everything below the matches when
+ * `includeSubtrees` is set.
+ */
+export const visibleItemsForMatches = (
+  state: LeagueState,
+  { matches, containsMatches }: SearchMatches,
+  includeSubtrees: boolean,
+  rootId: TreeItemIndex = 'root'
+): Set<TreeItemIndex> => {
+  const visible = new Set<TreeItemIndex>([rootId, ...matches, ...containsMatches]);
+  if (includeSubtrees) {
+    matches.forEach(id => collectSubtree(state.items, id).forEach(childId => visible.add(childId)));
+  }
+  return visible;
+};
+
+/**
+ * The parts of a name to highlight for a query: every occurrence of each name
+ * term that has to match, or the individual letters of fuzzy terms. Returned
+ * as sorted, non-overlapping [start, end) ranges.
+ */
+export const highlightRanges = (name: string, query: SearchQuery): [number, number][] => {
+  const lower = name.toLowerCase();
+  const ranges: [number, number][] = [];
+
+  query.groups.flat()
+    .filter(term => term.field === 'name' && !term.negated)
+    .forEach(term => {
+      if (!term.fuzzy) {
+        let start = lower.indexOf(term.value);
+        while (start !== -1) {
+          ranges.push([start, start + term.value.length]);
+          start = lower.indexOf(term.value, start + term.value.length);
+        }
+        return;
+      }
+      if (!fuzzyIncludes(lower, term.value)) return;
+      let position = 0;
+      for (const char of term.value) {
+        position = lower.indexOf(char, position);
+        ranges.push([position, position + 1]);
+        position += 1;
+      }
+    });
+
+  // Sort and merge overlapping or touching ranges
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([range[0], range[1]]);
+      }
+      return merged;
+    }, []);
+};
@@ -0,0 +1,40 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { LeagueItem } from './types';
+import { LeagueState } from './leagueStore';
+
+/**
+ * One of the trees shown side by side. Each season has its own root item in
+ * the same set of items, so items can be dragged from one season to the other.
+ */
+export interface SeasonPane {
+  treeId: string;
+  rootId: TreeItemIndex;
+  label: string;
+}
+
+export const CURRENT_SEASON: SeasonPane = { treeId: 'current-season', rootId: 'root', label: 'Current Season' };
+export const DRAFT_SEASON: SeasonPane = { treeId: 'draft-season', rootId: 'draft-root', label: 'Draft Season' };
+
+export const SEASON_PANES: SeasonPane[] = [CURRENT_SEASON, DRAFT_SEASON];
+
+// True for the root item of a season, which isn't a real Conference
+export const isSeasonRoot = (itemId: TreeItemIndex) => SEASON_PANES.some(pane => pane.rootId === itemId);
+
+// The pane an item is shown in, found by walking up to its season's root
+export const paneOf = (state: LeagueState, itemId: TreeItemIndex): SeasonPane => {
+  let current = itemId;
+  while (state.parents[current] !== undefined) {
+    current = state.parents[current];
+  }
+  return SEASON_PANES.find(pane => pane.rootId === current) ?? CURRENT_SEASON;
+};
+
+export const createDraftRoot = (): LeagueItem => ({
+  index: DRAFT_SEASON.rootId,
+  isFolder: true,
+  children: [],
+  data: {
+    name: DRAFT_SEASON.label,
+    type: 'Conference'
+  }
+});
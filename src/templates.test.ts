@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { collectSubtree } from './leagueStore';
+import { applyTemplate, createTemplate } from './templates';
+
+const item = (index: string, type: ItemData['type'], children?: string[]): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name: index, type, ...(type === 'Team' ? { fields: { coach: 'Ann' } } : {}) }
+});
+
+const league = (): LeagueItems => ({
+  root: item('root', 'Conference', ['monday']),
+  'draft-root': item('draft-root', 'Conference', ['old']),
+  monday: item('monday', 'Conference', ['8u']),
+  '8u': item('8u', 'Division', ['tigers']),
+  tigers: item('tigers', 'Team', ['ava']),
+  ava: item('ava', 'Player'),
+  old: item('old', 'Conference', [])
+});
+
+describe('createTemplate', () => {
+  it('copies the groups of a season with Teams handled as chosen', () => {
+    const template = createTemplate(league(), 'root', 'Fall', 'reset', 1);
+    expect(template.rootIds).toEqual(['template-1-0']);
+    expect(Object.values(template.items).map(copy => copy.data)).toEqual([
+      { name: 'monday', type: 'Conference' },
+      { name: '8u', type: 'Division' },
+      { name: 'tigers', type: 'Team' }
+    ]);
+  });
+});
+
+describe('applyTemplate', () => {
+  it('replaces the groups of the season with copies of the template', () => {
+    const items = applyTemplate(league(), createTemplate(league(), 'root', 'Fall', 'keep', 1), 'draft-root', 2);
+    expect(items.old).toBeUndefined();
+    expect(collectSubtree(items, 'draft-root').map(id => items[id].data.name)).toEqual(['draft-root', 'monday', '8u', 'tigers', 'ava']);
+    expect(collectSubtree(items, 'root')).toEqual(collectSubtree(league(), 'root'));
+  });
+
+  it('keeps ids short however many seasons were copied before', () => {
+    let items = league();
+    for (let season = 1; season <= 5; season++) {
+      const template = createTemplate(items, 'draft-root', `Season ${season}`, 'keep', season * 10);
+      items = applyTemplate(items, template, 'draft-root', season * 10 + 1);
+    }
+    expect(collectSubtree(items, 'draft-root').slice(1)).toEqual(['season-51-0']);
+
+    items = applyTemplate(items, createTemplate(items, 'root', 'Fall', 'keep', 60), 'draft-root', 61);
+    expect(collectSubtree(items, 'draft-root').slice(1)).toEqual(['season-61-0', 'season-61-1', 'season-61-2', 'season-61-3']);
+  });
+});
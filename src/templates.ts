@@ -0,0 +1,159 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData, LeagueItems } from './types';
+import { CopyOptions, collectSubtree, copySubtree } from './leagueStore';
+import { validateItems } from './persistence';
+
+export const TEMPLATES_STORAGE_KEY = 'league-templates';
+
+// Version of the stored templates envelope
+export const TEMPLATES_VERSION = 1;
+
+/**
+ * What happens to Teams when a season is saved as a template: kept with their
+ * rosters, kept by name with their fields cleared and rosters dropped, or
+ * left out so only Conferences and Divisions remain.
+ */
+export type TeamHandling = 'keep' | 'reset' | 'strip';
+
+export const TEAM_HANDLING_LABELS: Record<TeamHandling, string> = {
+  keep: 'Keep Teams and their rosters',
+  reset: 'Keep Teams, reset their details and rosters',
+  strip: 'Leave Teams out'
+};
+
+/**
+ * The structure of a season saved for reuse. Its items are copies under
+ * their own ids, so later edits to the league don't change the template.
+ */
+export interface SeasonTemplate {
+  id: string;
+  name: string;
+  createdAt: number;
+  teams: TeamHandling;
+  rootIds: TreeItemIndex[];
+  items: LeagueItems;
+}
+
+// The envelope written to storage
+interface PersistedTemplates {
+  version: number;
+  templates: SeasonTemplate[];
+}
+
+const TEAM_HANDLING_OPTIONS: Record<TeamHandling, CopyOptions> = {
+  keep: {},
+  reset: {
+    skip: item => item.data.type === 'Player',
+    copyData: data => (data.type === 'Team' ? { name: data.name, type: data.type } : { ...data })
+  },
+  strip: {
+    skip: item => item.data.type === 'Team' || item.data.type === 'Player'
+  }
+};
+
+// Names are copied as they are, unlike a duplicate which marks them as a copy
+const keepData = (data: ItemData): ItemData => ({ ...data });
+
+// Ids for copies from a counter, e.g. season-1700000000000-3, so that ids
+// don't grow with every season copied from a template copied from a season
+const counterIds = (prefix: string) => {
+  let counter = 0;
+  return () => `${prefix}-${counter++}`;
+};
+
+/**
+ * Save the groups of a season as a template, copying each top-level group
+ * with the Teams handled as chosen.
+ */
+export const createTemplate = (
+  items: LeagueItems,
+  seasonRootId: TreeItemIndex,
+  name: string,
+  teams: TeamHandling,
+  stamp = Date.now()
+): SeasonTemplate => {
+  const id = `template-${stamp}`;
+  const options = TEAM_HANDLING_OPTIONS[teams];
+  const copyData = options.copyData ?? keepData;
+  const groupIds = (items[seasonRootId]?.children ?? []).filter(childId => items[childId]);
+  const nextId = counterIds(id);
+
+  const template: SeasonTemplate = { id, name, createdAt: stamp, teams, rootIds: [], items: {} };
+  groupIds.forEach(groupId => {
+    const copyId = nextId();
+    template.rootIds.push(copyId);
+    Object.assign(template.items, copySubtree(items, groupId, copyId, { ...options, copyData, copyId: nextId }));
+  });
+  return template;
+};
+
+/**
+ * Replace everything in a season with a fresh copy of a template's groups.
+ * Returns the new items; the season root has to exist already.
+ */
+export const applyTemplate = (
+  items: LeagueItems,
+  template: SeasonTemplate,
+  seasonRootId: TreeItemIndex,
+  stamp = Date.now()
+): LeagueItems => {
+  const seasonRoot = items[seasonRootId];
+  if (!seasonRoot) return items;
+
+  const next = { ...items };
+  (seasonRoot.children ?? []).forEach(childId => {
+    collectSubtree(items, childId).forEach(id => {
+      delete next[id];
+    });
+  });
+
+  const rootIds = template.rootIds.filter(rootId => template.items[rootId]);
+  const nextId = counterIds(`season-${stamp}`);
+  const groupIds = rootIds.map(rootId => {
+    const copyId = nextId();
+    Object.assign(next, copySubtree(template.items, rootId, copyId, { copyData: keepData, copyId: nextId }));
+    return copyId;
+  });
+
+  next[seasonRootId] = { ...seasonRoot, children: groupIds };
+  return next;
+};
+
+const isTemplate = (value: unknown): value is SeasonTemplate => {
+  const template = value as Partial<SeasonTemplate> | null;
+  if (typeof template !== 'object' || template === null) return false;
+  if (typeof template.id !== 'string' || typeof template.name !== 'string') return false;
+  if (typeof template.createdAt !== 'number' || !(template.teams && template.teams in TEAM_HANDLING_OPTIONS)) return false;
+  if (!Array.isArray(template.rootIds)) return false;
+
+  // The templates' items are checked like a league, under a stand-in root
+  const rootIds = template.rootIds;
+  const root = { index: 'root', isFolder: true, children: rootIds, data: { name: template.name, type: 'Conference' } };
+  return validateItems({ ...template.items, root });
+};
+
+/**
+ * Loads the saved templates. Templates that can't be read are left out, so
+ * one damaged entry doesn't hide the others.
+ */
+export const loadTemplates = (): SeasonTemplate[] => {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    if (raw === null) return [];
+
+    const parsed = JSON.parse(raw) as Partial<PersistedTemplates> | null;
+    if (!parsed || typeof parsed.version !== 'number' || parsed.version > TEMPLATES_VERSION) return [];
+    return Array.isArray(parsed.templates) ? parsed.templates.filter(isTemplate) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Write the templates, throwing when storage is unavailable or full
+export const saveTemplates = (templates: SeasonTemplate[]) => {
+  const payload: PersistedTemplates = {
+    version: TEMPLATES_VERSION,
+    templates
+  };
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(payload));
+};
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ItemData, LeagueItem, LeagueItems } from './types';
+import { createLeagueState, deleteSubtree, leagueReducer } from './leagueStore';
+import { TRASH_STORAGE_KEY, createTrashEntry, loadTrash, restoreAction, saveTrash } from './trash';
+import { SCHEMA_VERSION } from './persistence';
+
+const item = (index: string, type: ItemData['type'], children?: string[]): LeagueItem => ({
+  index,
+  isFolder: Boolean(children),
+  ...(children ? { children } : {}),
+  data: { name: index, type }
+});
+
+const league = (): LeagueItems => ({
+  root: item('root', 'Conference', ['monday']),
+  'draft-root': item('draft-root', 'Conference', ['friday']),
+  monday: item('monday', 'Conference', ['8u']),
+  '8u': item('8u', 'Division', ['tigers', 'hawks']),
+  tigers: item('tigers', 'Team'),
+  hawks: item('hawks', 'Team'),
+  friday: item('friday', 'Conference', ['12u']),
+  '12u': item('12u', 'Division', [])
+});
+
+// Delete an item the way the app does, keeping its trash entry
+const trashed = (items: LeagueItems, itemId: string) => {
+  const state = createLeagueState(items);
+  const entry = createTrashEntry(state, itemId);
+  if (!entry) throw new Error(`${itemId} has no parent`);
+  return { state: deleteSubtree(state, itemId), entry };
+};
+
+describe('restoreAction', () => {
+  it('puts an item back at its original parent and position', () => {
+    const { state, entry } = trashed(league(), 'tigers');
+    const plan = restoreAction(state, entry);
+    expect(plan).toEqual({ action: expect.objectContaining({ parentId: '8u', position: 0 }) });
+    if (plan && 'action' in plan) {
+      expect(leagueReducer(state, plan.action).items['8u'].children).toEqual(['tigers', 'hawks']);
+    }
+  });
+
+  it('does nothing once the item is back in the tree', () => {
+    const { entry } = trashed(league(), 'tigers');
+    expect(restoreAction(createLeagueState(league()), entry)).toBeNull();
+  });
+
+  it('falls back to the season the item came from when its parent is gone', () => {
+    const { state, entry } = trashed(league(), 'friday');
+    expect(entry.seasonRootId).toBe('draft-root');
+    expect(restoreAction(state, { ...entry, parentId: 'gone' })).toEqual({
+      action: expect.objectContaining({ parentId: 'draft-root', position: undefined })
+    });
+  });
+
+  it('refuses to put a Team at the top level when its Division is gone', () => {
+    const { state, entry } = trashed(league(), 'tigers');
+    const plan = restoreAction(deleteSubtree(state, '8u'), entry);
+    expect(plan).toEqual({
+      error: "tigers can't be restored: the group it was in no longer exists, and it can't go at the top level " +
+        "of the Current Season instead. A Team can't be placed at the top level: The league can only contain Conferences."
+    });
+  });
+
+  it('refuses when the original parent no longer takes the item', () => {
+    const { state, entry } = trashed(league(), 'tigers');
+    const retyped = leagueReducer(state, { type: 'retype', itemId: '8u', itemType: 'Conference' });
+    expect(restoreAction(retyped, entry)).toEqual({
+      error: "A Team can't be placed inside a Conference: Conferences can only contain Divisions."
+    });
+  });
+});
+
+describe('loadTrash', () => {
+  // localStorage backed by a plain object
+  const stubStorage = (stored: Record<string, string>) => {
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored[key] ?? null,
+      setItem: (key: string, value: string) => {
+        stored[key] = value;
+      }
+    });
+    return stored;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads back what it saves, so deleted items survive a reload', () => {
+    const { entry } = trashed(league(), '8u');
+    stubStorage({});
+    saveTrash([entry]);
+    expect(loadTrash()).toEqual([entry]);
+  });
+
+  it('upgrades items trashed under an older schema version', () => {
+    const { entry } = trashed(league(), 'tigers');
+    stubStorage({ [TRASH_STORAGE_KEY]: JSON.stringify({ version: 1, entries: [entry] }) });
+    expect(loadTrash()[0].items.tigers).toMatchObject({ isFolder: true, children: [] });
+  });
+
+  it('drops entries that are damaged', () => {
+    const { entry } = trashed(league(), 'tigers');
+    const entries = [entry, null, { ...entry, deletedAt: 'today' }, { ...entry, rootId: 'gone' }, { ...entry, items: { tigers: { index: 'x' } } }];
+    stubStorage({ [TRASH_STORAGE_KEY]: JSON.stringify({ version: SCHEMA_VERSION, entries }) });
+    expect(loadTrash()).toEqual([entry]);
+  });
+
+  it('starts empty when the trash is unreadable or saved by a newer version', () => {
+    const { entry } = trashed(league(), 'tigers');
+    stubStorage({ [TRASH_STORAGE_KEY]: JSON.stringify({ version: SCHEMA_VERSION + 1, entries: [entry] }) });
+    expect(loadTrash()).toEqual([]);
+    stubStorage({ [TRASH_STORAGE_KEY]: '{not json' });
+    expect(loadTrash()).toEqual([]);
+  });
+});
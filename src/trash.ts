@@ -0,0 +1,153 @@
+import { TreeItemIndex } from 'react-complex-tree';
+import { ItemData, LeagueItems } from './types';
+import { LeagueAction, LeagueState, collectSubtree } from './leagueStore';
+import { explainPlacement, parentKindOf } from './hierarchyRules';
+import { SEASON_PANES, paneOf } from './seasons';
+import { SCHEMA_VERSION, migrate, validateItems } from './persistence';
+
+export const TRASH_STORAGE_KEY = 'league-trash';
+
+// A deleted subtree together with where it used to live in the tree
+export interface TrashEntry {
+  rootId: TreeItemIndex;
+  parentId: TreeItemIndex;
+  // Root of the season the subtree was deleted from
+  seasonRootId: TreeItemIndex;
+  position: number;
+  items: LeagueItems;
+  deletedAt: number;
+}
+
+// Count the descendants of an item (excluding the item itself) per type
+export const countDescendantsByType = (items: LeagueItems, itemId: TreeItemIndex) => {
+  const counts: Record<ItemData['type'], number> = { Conference: 0, Division: 0, Team: 0, Player: 0 };
+  collectSubtree(items, itemId)
+    .slice(1)
+    .forEach(id => {
+      counts[items[id].data.type] += 1;
+    });
+  return counts;
+};
+
+// Human readable summary such as "4 Divisions and 5 Teams"
+export const describeCounts = (counts: Record<ItemData['type'], number>) => {
+  const parts = (Object.keys(counts) as ItemData['type'][])
+    .filter(type => counts[type] > 0)
+    .map(type => `${counts[type]} ${type}${counts[type] === 1 ? '' : 's'}`);
+
+  if (parts.length <= 1) return parts.join('');
+  return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+};
+
+/**
+ * Captures an item's subtree and its place in the tree before it is deleted.
+ * Returns null when the item has no parent (e.g. the root).
+ */
+export const createTrashEntry = (state: LeagueState, itemId: TreeItemIndex): TrashEntry | null => {
+  const parentId = state.parents[itemId];
+  if (parentId === undefined) return null;
+
+  const items: LeagueItems = {};
+  collectSubtree(state.items, itemId).forEach(id => {
+    items[id] = state.items[id];
+  });
+
+  return {
+    rootId: itemId,
+    parentId,
+    seasonRootId: paneOf(state, itemId).rootId,
+    position: state.items[parentId].children?.indexOf(itemId) ?? 0,
+    items,
+    deletedAt: Date.now()
+  };
+};
+
+// Either the action that restores a trashed subtree, or why it can't be restored
+export type RestorePlan =
+  | { action: Extract<LeagueAction, { type: 'insertSubtree' }> }
+  | { error: string };
+
+/**
+ * Plans putting a trashed subtree back at its original parent and position.
+ * When that parent no longer exists, the subtree goes at the end of the
+ * season it came from, as long as the hierarchy allows it there. Returns null
+ * when the subtree is already back in the tree (e.g. the delete was undone).
+ */
+export const restoreAction = (state: LeagueState, entry: TrashEntry): RestorePlan | null => {
+  if (state.items[entry.rootId]) return null;
+
+  const root = entry.items[entry.rootId];
+  const insert = (parentId: TreeItemIndex, position?: number): RestorePlan => ({
+    action: { type: 'insertSubtree', rootId: entry.rootId, items: entry.items, parentId, position }
+  });
+
+  if (state.items[entry.parentId]) {
+    const placement = explainPlacement(parentKindOf(state.items, entry.parentId), root.data.type);
+    return placement ? { error: placement } : insert(entry.parentId, entry.position);
+  }
+
+  const season = SEASON_PANES.find(pane => pane.rootId === entry.seasonRootId);
+  if (!season || !state.items[season.rootId]) {
+    return { error: `${root.data.name} can't be restored: the season it was deleted from no longer exists.` };
+  }
+  const placement = explainPlacement('root', root.data.type);
+  if (placement) {
+    return {
+      error: `${root.data.name} can't be restored: the group it was in no longer exists, ` +
+        `and it can't go at the top level of the ${season.label} instead. ${placement}`
+    };
+  }
+  return insert(season.rootId);
+};
+
+// The envelope written to storage. The trashed items are league items, so
+// they are saved under the league's schema version and migrated with it.
+interface PersistedTrash {
+  version: number;
+  entries: TrashEntry[];
+}
+
+const isIndex = (value: unknown): value is TreeItemIndex => typeof value === 'string' || typeof value === 'number';
+
+const isTrashEntry = (value: unknown): value is TrashEntry => {
+  const entry = value as Partial<TrashEntry> | null;
+  if (typeof entry !== 'object' || entry === null) return false;
+  if (!isIndex(entry.rootId) || !isIndex(entry.parentId) || !isIndex(entry.seasonRootId)) return false;
+  if (typeof entry.position !== 'number' || typeof entry.deletedAt !== 'number') return false;
+  if (typeof entry.items !== 'object' || entry.items === null || !(String(entry.rootId) in entry.items)) return false;
+
+  // The subtree is checked like a league, under a stand-in root
+  const root = { index: 'root', isFolder: true, children: [entry.rootId], data: { name: '', type: 'Conference' } };
+  return validateItems({ ...entry.items, root });
+};
+
+// Loads the saved trash, or an empty one when there is none or it can't be
+// read. Entries that can't be read are dropped.
+export const loadTrash = (): TrashEntry[] => {
+  try {
+    const raw = localStorage.getItem(TRASH_STORAGE_KEY);
+    if (raw === null) return [];
+
+    const parsed = JSON.parse(raw) as Partial<PersistedTrash> | null;
+    if (!parsed || typeof parsed.version !== 'number' || parsed.version > SCHEMA_VERSION || !Array.isArray(parsed.entries)) {
+      return [];
+    }
+    const version = parsed.version;
+    return parsed.entries
+      .map((entry: unknown) => (typeof entry === 'object' && entry !== null
+        ? { ...entry, items: migrate((entry as Partial<TrashEntry>).items, version) }
+        : entry))
+      .filter(isTrashEntry);
+  } catch {
+    return [];
+  }
+};
+
+// Write the trash, throwing when storage is unavailable or full
+export const saveTrash = (entries: TrashEntry[]) => {
+  const payload: PersistedTrash = {
+    version: SCHEMA_VERSION,
+    entries
+  };
+  localStorage.setItem(TRASH_STORAGE_KEY, JSON.stringify(payload));
+};
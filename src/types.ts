@@ -0,0 +1,18 @@
+import { TreeItem, TreeItemIndex } from 'react-complex-tree';
+
+// Values of the per-type fields described in itemSchema.ts
+export type FieldValue = string | number;
+export type ItemFields = Record<string, FieldValue>;
+
+export interface ItemData {
+  name: string;
+  type: 'Conference' | 'Division' | 'Team' | 'Player';
+  fields?: ItemFields;
+}
+
+export interface LeagueItem extends TreeItem {
+  data: ItemData;
+}
+
+// The full league hierarchy, keyed by item index
+export type LeagueItems = Record<TreeItemIndex, LeagueItem>;
@@ -0,0 +1,22 @@
+import { useCallback, useState } from 'react';
+
+export interface Announcement {
+  // Changes with every announcement, so the same message is read out again
+  id: number;
+  message: string;
+}
+
+/**
+ * Messages for screen readers, shown in a polite live region. Announcing is
+ * stable across renders, so handlers created once can hold on to it.
+ */
+export function useAnnouncer() {
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+
+  const announce = useCallback((message: string) => {
+    if (!message) return;
+    setAnnouncement(current => ({ id: (current?.id ?? 0) + 1, message }));
+  }, []);
+
+  return { announcement, announce };
+}
@@ -0,0 +1,59 @@
+import { RefObject, useEffect, useRef } from 'react';
+
+const FOCUSABLE = 'a[href], button:not(:disabled), input:not(:disabled), select:not(:disabled), textarea:not(:disabled), [tabindex]:not([tabindex="-1"])';
+
+const focusableIn = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+
+/**
+ * Keeps keyboard focus inside a modal while it is open: focus starts on its
+ * first field (unless something in it already took focus), Tab and
+ * Shift+Tab wrap around, and Escape cancels. Once the modal closes, focus
+ * goes back to where it was before, e.g. the tree item being edited.
+ */
+export function useModalFocus(containerRef: RefObject<HTMLElement>, onCancel: () => void) {
+  // The latest handler, so the listener doesn't need to be bound again on every render
+  const onCancelRef = useRef(onCancel);
+  onCancelRef.current = onCancel;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const opener = document.activeElement as HTMLElement | null;
+
+    if (!container.contains(document.activeElement)) {
+      focusableIn(container).find(element => element.matches('input, select, textarea'))?.focus();
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancelRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+
+      const focusable = focusableIn(container);
+      if (focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && (document.activeElement === first || !container.contains(document.activeElement))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (document.activeElement === last || !container.contains(document.activeElement))) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      // Only take focus back when it would otherwise be lost with the modal
+      const active = document.activeElement;
+      if (opener?.isConnected && (!active || active === document.body || container.contains(active))) {
+        opener.focus();
+      }
+    };
+  }, [containerRef]);
+}
@@ -0,0 +1,224 @@
+import { RefObject, useCallback, useRef, useState } from 'react';
+import { TreeItemIndex, TreeRef } from 'react-complex-tree';
+import { LeagueItems } from './types';
+import { LeagueAction, LeagueState, createLeagueState, leagueReducer } from './leagueStore';
+
+// Maximum number of steps kept on each of the undo and redo stacks
+export const HISTORY_LIMIT = 50;
+
+// How one tree looked: what was expanded, selected and focused
+export interface TreeView {
+  expandedItems: TreeItemIndex[];
+  selectedItems: TreeItemIndex[];
+  focusedItem?: TreeItemIndex;
+}
+
+// Everything needed to put the trees back the way they looked at one point in time
+export interface HistorySnapshot {
+  state: LeagueState;
+  // Keyed by tree id
+  views: Record<string, TreeView>;
+}
+
+export interface HistoryEntry {
+  label: string;
+  snapshot: HistorySnapshot;
+}
+
+// Told about every step that changes the league, including undo and redo.
+// Steps made by dispatching an action come with it.
+export type CommitListener = (label: string, before: LeagueState, after: LeagueState, action?: LeagueAction) => void;
+
+// Keep only the newest entries so the stack stays bounded
+const pushBounded = (stack: HistoryEntry[], entry: HistoryEntry, limit: number) =>
+  [...stack, entry].slice(-limit);
+
+// Label for undoing or redoing steps, e.g. "Undo: Move 'Tigers' and 2 more"
+const stepsLabel = (verb: string, labels: string[]) =>
+  `${verb}: ${labels[0]}${labels.length > 1 ? ` and ${labels.length - 1} more` : ''}`;
+
+/**
+ * Owns the league state together with an undo/redo history. Every mutation
+ * is dispatched as a store action, which records the state before the change
+ * under a human readable label such as "Delete 'Tigers'". Undo and redo
+ * restore both the items and the expansion, selection and focus of every
+ * tree in `treeRefs` (keyed by tree id). `onCommit` hears about every step,
+ * e.g. to keep an audit log.
+ */
+export function useTreeHistory(
+  initialItems: LeagueItems,
+  treeRefs: Record<string, RefObject<TreeRef>>,
+  limit: number = HISTORY_LIMIT,
+  onCommit?: CommitListener
+) {
+  const [state, setState] = useState<LeagueState>(() => createLeagueState(initialItems));
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+
+  // Latest committed state, updated synchronously so that several dispatches
+  // in the same tick build on one another
+  const stateRef = useRef<LeagueState>(state);
+  // Mirrors of the stacks so undo/redo can run several steps in one call
+  const pastRef = useRef<HistoryEntry[]>([]);
+  const futureRef = useRef<HistoryEntry[]>([]);
+  const onCommitRef = useRef(onCommit);
+  onCommitRef.current = onCommit;
+
+  const writeState = useCallback((next: LeagueState) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  const writeStacks = useCallback((nextPast: HistoryEntry[], nextFuture: HistoryEntry[]) => {
+    pastRef.current = nextPast;
+    futureRef.current = nextFuture;
+    setPast(nextPast);
+    setFuture(nextFuture);
+  }, []);
+
+  // Capture the current view state of the trees alongside the given state
+  const takeSnapshot = useCallback((snapshotState: LeagueState): HistorySnapshot => {
+    const views: Record<string, TreeView> = {};
+    Object.keys(treeRefs).forEach(treeId => {
+      const viewState = treeRefs[treeId].current?.treeEnvironmentContext.viewState[treeId];
+      views[treeId] = {
+        expandedItems: [...(viewState?.expandedItems ?? [])],
+        selectedItems: [...(viewState?.selectedItems ?? [])],
+        focusedItem: viewState?.focusedItem
+      };
+    });
+    return { state: snapshotState, views };
+  }, [treeRefs]);
+
+  // Re-apply expansion, selection and focus once the trees have picked up the restored items
+  const restoreViewState = useCallback((snapshot: HistorySnapshot) => {
+    Promise.resolve().then(() => {
+      requestAnimationFrame(() => {
+        const exists = (id: TreeItemIndex) => Boolean(snapshot.state.items[id]);
+
+        Object.keys(snapshot.views).forEach(treeId => {
+          const tree = treeRefs[treeId]?.current;
+          const view = snapshot.views[treeId];
+          if (!tree) return;
+
+          const currentlyExpanded = tree.treeEnvironmentContext.viewState[treeId]?.expandedItems ?? [];
+          currentlyExpanded
+            .filter(id => !view.expandedItems.includes(id))
+            .forEach(id => tree.collapseItem(id));
+          view.expandedItems
+            .filter(id => exists(id) && !currentlyExpanded.includes(id))
+            .forEach(id => tree.expandItem(id));
+
+          tree.selectItems(view.selectedItems.filter(exists));
+          if (view.focusedItem !== undefined && exists(view.focusedItem)) {
+            tree.focusItem(view.focusedItem, false);
+          }
+        });
+      });
+    });
+  }, [treeRefs]);
+
+  // Apply an action as a single undoable step. Actions that change nothing
+  // are not recorded.
+  const dispatch = useCallback((label: string, action: LeagueAction) => {
+    const prev = stateRef.current;
+    const next = leagueReducer(prev, action);
+    if (next === prev) return;
+
+    const entry = { label, snapshot: takeSnapshot(prev) };
+    writeStacks(pushBounded(pastRef.current, entry, limit), []);
+    writeState(next);
+    onCommitRef.current?.(label, prev, next, action);
+  }, [limit, takeSnapshot, writeState, writeStacks]);
+
+  // Change the state without recording a step, for changes the user didn't
+  // make (such as items loaded from or rolled back by the league service).
+  // With `applyToHistory` the update is made to every snapshot as well, so
+  // undo and redo keep it; pass a function to update the snapshots differently.
+  const patch = useCallback((
+    update: (current: LeagueState) => LeagueState,
+    applyToHistory: boolean | ((snapshot: LeagueState) => LeagueState) = false
+  ) => {
+    if (applyToHistory) {
+      const updateSnapshot = applyToHistory === true ? update : applyToHistory;
+      const patchEntry = (entry: HistoryEntry): HistoryEntry => ({
+        ...entry,
+        snapshot: { ...entry.snapshot, state: updateSnapshot(entry.snapshot.state) }
+      });
+      writeStacks(pastRef.current.map(patchEntry), futureRef.current.map(patchEntry));
+    }
+    writeState(update(stateRef.current));
+  }, [writeState, writeStacks]);
+
+  // Replace the league and forget the history, for when the league was swapped
+  // out from under the user (such as on joining a live session). Undoing past
+  // that point would otherwise bring back a league nobody else has.
+  const reset = useCallback((items: LeagueItems) => {
+    writeStacks([], []);
+    writeState(createLeagueState(items));
+  }, [writeState, writeStacks]);
+
+  // Step back `steps` entries (used by the history menu to jump several at once)
+  const undo = useCallback((steps = 1) => {
+    let nextPast = pastRef.current;
+    let nextFuture = futureRef.current;
+    let current = takeSnapshot(stateRef.current);
+    let target: HistorySnapshot | null = null;
+    const labels: string[] = [];
+
+    for (let i = 0; i < steps && nextPast.length > 0; i++) {
+      const entry = nextPast[nextPast.length - 1];
+      nextPast = nextPast.slice(0, -1);
+      nextFuture = pushBounded(nextFuture, { label: entry.label, snapshot: current }, limit);
+      current = entry.snapshot;
+      target = entry.snapshot;
+      labels.push(entry.label);
+    }
+    if (!target) return;
+
+    const before = stateRef.current;
+    writeStacks(nextPast, nextFuture);
+    writeState(target.state);
+    restoreViewState(target);
+    onCommitRef.current?.(stepsLabel('Undo', labels), before, target.state);
+  }, [limit, restoreViewState, takeSnapshot, writeState, writeStacks]);
+
+  const redo = useCallback((steps = 1) => {
+    let nextPast = pastRef.current;
+    let nextFuture = futureRef.current;
+    let current = takeSnapshot(stateRef.current);
+    let target: HistorySnapshot | null = null;
+    const labels: string[] = [];
+
+    for (let i = 0; i < steps && nextFuture.length > 0; i++) {
+      const entry = nextFuture[nextFuture.length - 1];
+      nextFuture = nextFuture.slice(0, -1);
+      nextPast = pushBounded(nextPast, { label: entry.label, snapshot: current }, limit);
+      current = entry.snapshot;
+      target = entry.snapshot;
+      labels.push(entry.label);
+    }
+    if (!target) return;
+
+    const before = stateRef.current;
+    writeStacks(nextPast, nextFuture);
+    writeState(target.state);
+    restoreViewState(target);
+    onCommitRef.current?.(stepsLabel('Redo', labels), before, target.state);
+  }, [limit, restoreViewState, takeSnapshot, writeState, writeStacks]);
+
+  return {
+    state,
+    items: state.items,
+    dispatch,
+    patch,
+    reset,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    // Labels ordered from most recent to oldest
+    undoLabels: past.map(entry => entry.label).reverse(),
+    redoLabels: future.map(entry => entry.label).reverse()
+  };
+}
@@ -0,0 +1,181 @@
+import React, { RefObject, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { TreeItemIndex, TreeRef } from 'react-complex-tree';
+import { LeagueState } from './leagueStore';
+import { SeasonPane } from './seasons';
+import { findMatches, parseSearchQuery, visibleItemsForMatches } from './searchQuery';
+import { describeSearchResults } from './announcements';
+
+// How long typing has to pause before the number of matches is read out
+const ANNOUNCE_DELAY_MS = 600;
+
+/**
+ * The search of one tree: its query and matches, the match the user is on,
+ * filter mode and the expansion to go back to once the search is cleared.
+ * Every pane has its own, so searching one season leaves the other alone.
+ * Results are read out to screen readers through `announce`.
+ */
+export function useTreeSearch(
+  state: LeagueState,
+  treeRef: RefObject<TreeRef>,
+  pane: SeasonPane,
+  announce?: (message: string) => void
+) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterMode, setFilterMode] = useState(false);
+  // In filter mode, also keep everything below a match visible
+  const [keepMatchSubtrees, setKeepMatchSubtrees] = useState(false);
+  // Index into the matches of the one that is currently highlighted
+  const [activeMatch, setActiveMatch] = useState(0);
+  // Expanded items from before the current search, restored when it is cleared
+  const expansionBeforeSearch = useRef<TreeItemIndex[] | null>(null);
+
+  const { treeId, rootId } = pane;
+
+  // Parse the search once and find every match for it
+  const searchQuery = useMemo(() => parseSearchQuery(searchTerm), [searchTerm]);
+  const searchMatches = useMemo(
+    () => (searchQuery ? findMatches(state, searchQuery, rootId) : null),
+    [state, searchQuery, rootId]
+  );
+
+  // In filter mode the tree only shows the matches and their ancestors
+  const isFiltering = filterMode && searchMatches !== null;
+  const visibleItems = useMemo(
+    () => (isFiltering && searchMatches ? visibleItemsForMatches(state, searchMatches, keepMatchSubtrees, rootId) : null),
+    [isFiltering, state, searchMatches, keepMatchSubtrees, rootId]
+  );
+
+  // The match the user is on, kept in range as the matches change
+  const matchCount = searchMatches?.matches.length ?? 0;
+  const currentMatch = matchCount > 0 ? Math.min(activeMatch, matchCount - 1) : -1;
+  const currentMatchId = currentMatch >= 0 ? searchMatches?.matches[currentMatch] : undefined;
+
+  // Say how many items match once typing pauses, rather than on every key
+  useEffect(() => {
+    if (!announce || !searchQuery) return;
+    const timer = setTimeout(() => announce(describeSearchResults(searchTerm, matchCount)), ANNOUNCE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [announce, searchQuery, searchTerm, matchCount]);
+
+  // Check if any item below this one matches the search
+  const hasMatchingChildren = useCallback((itemId: TreeItemIndex): boolean =>
+    searchMatches?.containsMatches.has(itemId) ?? false,
+  [searchMatches]);
+
+  // Put the expansion back the way it was before the search started
+  const restoreExpansion = useCallback(() => {
+    const expanded = expansionBeforeSearch.current;
+    expansionBeforeSearch.current = null;
+    const tree = treeRef.current;
+    if (!expanded || !tree) return;
+
+    const currentlyExpanded = tree.treeEnvironmentContext.viewState[treeId]?.expandedItems ?? [];
+    currentlyExpanded
+      .filter(id => !expanded.includes(id))
+      .forEach(id => tree.collapseItem(id));
+    expanded
+      .filter(id => state.items[id] && !currentlyExpanded.includes(id))
+      .forEach(id => tree.expandItem(id));
+  }, [state, treeRef, treeId]);
+
+  // Expand the path to a match, then focus it in the tree and scroll it into view
+  const revealMatch = useCallback((itemId: TreeItemIndex) => {
+    let parentId = state.parents[itemId];
+    while (parentId !== undefined) {
+      treeRef.current?.expandItem(parentId);
+      parentId = state.parents[parentId];
+    }
+
+    requestAnimationFrame(() => {
+      // Keep DOM focus in the search input so Enter moves on to the next match
+      treeRef.current?.focusItem(itemId, false);
+      const element = document.querySelector(`[data-rct-tree="${treeId}"] [data-rct-item-id="${itemId}"]`);
+      if (element) {
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      }
+    });
+  }, [state, treeRef, treeId]);
+
+  // Move through the matches in tree order, wrapping around at either end
+  const goToMatch = (offset: number) => {
+    const matches = searchMatches?.matches ?? [];
+    if (matches.length === 0) return;
+
+    const next = (currentMatch + offset + matches.length) % matches.length;
+    setActiveMatch(next);
+    revealMatch(matches[next]);
+    // Focus stays in the search input, so say which item was reached
+    announce?.(`${state.items[matches[next]]?.data.name}, match ${next + 1} of ${matches.length}.`);
+  };
+
+  // Enter jumps to the next match, Shift+Enter to the previous one
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      goToMatch(e.shiftKey ? -1 : 1);
+    }
+  };
+
+  const handleSearch = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setSearchTerm(value);
+
+    const tree = treeRef.current;
+    if (!tree) return;
+
+    const query = parseSearchQuery(value);
+    if (!query) {
+      // When search is cleared, restore the user's expanded state
+      restoreExpansion();
+      return;
+    }
+
+    // Remember how the user had the tree expanded before searching
+    if (!expansionBeforeSearch.current) {
+      expansionBeforeSearch.current = [...(tree.treeEnvironmentContext.viewState[treeId]?.expandedItems ?? [])];
+    }
+
+    // Automatically expand the folders that contain matches to reveal them
+    const { matches, containsMatches } = findMatches(state, query, rootId);
+    containsMatches.forEach(id => tree.expandItem(id));
+
+    // Start at the first match in tree order
+    setActiveMatch(0);
+    if (matches.length > 0) {
+      revealMatch(matches[0]);
+    }
+  }, [state, treeRef, treeId, rootId, restoreExpansion, revealMatch]);
+
+  const clearSearch = useCallback(() => {
+    setSearchTerm('');
+    restoreExpansion();
+
+    // Scroll back to the top of the tree
+    const treeElement = document.querySelector(`[data-rct-tree="${treeId}"]`)?.closest('.rct-tree-root');
+    if (treeElement) {
+      treeElement.scrollTop = 0;
+    }
+  }, [restoreExpansion, treeId]);
+
+  return {
+    searchTerm,
+    searchQuery,
+    searchMatches,
+    filterMode,
+    setFilterMode,
+    keepMatchSubtrees,
+    setKeepMatchSubtrees,
+    isFiltering,
+    visibleItems,
+    matchCount,
+    currentMatch,
+    currentMatchId,
+    hasMatchingChildren,
+    goToMatch,
+    handleSearch,
+    handleSearchKeyDown,
+    clearSearch
+  };
+}
+
+export type TreeSearch = ReturnType<typeof useTreeSearch>;
@@ -0,0 +1,82 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+import { TreeItemIndex, TreeRef } from 'react-complex-tree';
+import { OVERSCAN_ROWS, RowRange, VIRTUAL_ROW_HEIGHT, linearLayout } from './virtualRows';
+
+// The range only moves in steps of this many rows, so small scrolls don't re-render the tree
+const RANGE_STEP = 10;
+
+const snapRange = (start: number, end: number): RowRange => ({
+  start: Math.max(0, Math.floor(start / RANGE_STEP) * RANGE_STEP),
+  end: Math.ceil(end / RANGE_STEP) * RANGE_STEP
+});
+
+/**
+ * The rows of one tree that are near the viewport, following the window as
+ * it scrolls and resizes. Only tracked while `enabled`; the tree renders
+ * every row otherwise.
+ */
+export function useVirtualRows(treeRef: RefObject<TreeRef>, treeId: string, enabled: boolean) {
+  // Until the tree is measured, assume it starts at the top of the window
+  const [range, setRange] = useState<RowRange>(() =>
+    snapRange(0, window.innerHeight / VIRTUAL_ROW_HEIGHT + OVERSCAN_ROWS)
+  );
+
+  const treeElement = useCallback(
+    () => document.querySelector<HTMLElement>(`[data-rct-tree="${treeId}"]`),
+    [treeId]
+  );
+
+  // Work out the visible rows from where the tree is relative to the window
+  const measure = useCallback(() => {
+    const element = treeElement();
+    if (!element) return;
+    const top = element.getBoundingClientRect().top;
+    const next = snapRange(
+      Math.floor(-top / VIRTUAL_ROW_HEIGHT) - OVERSCAN_ROWS,
+      Math.ceil((window.innerHeight - top) / VIRTUAL_ROW_HEIGHT) + OVERSCAN_ROWS
+    );
+    setRange(current => (current.start === next.start && current.end === next.end ? current : next));
+  }, [treeElement]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    measure();
+    // Capture scrolls of any container the tree sits in, not just the window
+    window.addEventListener('scroll', measure, { capture: true, passive: true });
+    window.addEventListener('resize', measure);
+    return () => {
+      window.removeEventListener('scroll', measure, { capture: true });
+      window.removeEventListener('resize', measure);
+    };
+  }, [enabled, measure]);
+
+  /**
+   * Scrolls an item's row into view when it is outside the viewport, e.g.
+   * when the arrow keys or a search move focus past the rendered rows, and
+   * focuses it once it has been rendered if the tree had focus.
+   */
+  const revealItem = useCallback((itemId: TreeItemIndex) => {
+    const tree = treeRef.current;
+    const element = treeElement();
+    if (!enabled || !tree || !element) return;
+
+    const row = linearLayout(tree.treeEnvironmentContext.linearItems[treeId] ?? []).rowOf.get(String(itemId));
+    if (row === undefined) return;
+
+    const rowTop = element.getBoundingClientRect().top + row * VIRTUAL_ROW_HEIGHT;
+    if (rowTop < 0 || rowTop + VIRTUAL_ROW_HEIGHT > window.innerHeight) {
+      window.scrollBy({ top: rowTop - (window.innerHeight - VIRTUAL_ROW_HEIGHT) / 2 });
+      measure();
+    }
+
+    const hadFocus = element.contains(document.activeElement);
+    requestAnimationFrame(() => {
+      const rowElement = element.querySelector<HTMLElement>(`[data-rct-item-id="${itemId}"]`);
+      if (hadFocus && rowElement && document.activeElement !== rowElement) rowElement.focus();
+    });
+  }, [treeRef, treeId, enabled, treeElement, measure]);
+
+  return { range, revealItem };
+}
+
+export type VirtualRows = ReturnType<typeof useVirtualRows>;
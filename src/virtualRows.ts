@@ -0,0 +1,96 @@
+import { TreeItemIndex } from 'react-complex-tree';
+
+// Trees only render the rows near the viewport once the league has more items than this
+export const VIRTUALIZE_THRESHOLD = 1000;
+
+// Every row has this height (in pixels) while virtualized, so a row's
+// position follows from its index. Drag and drop assumes the same.
+export const VIRTUAL_ROW_HEIGHT = 60;
+
+// Rows rendered beyond each edge of the viewport, so scrolling and moving
+// through the tree with the arrow keys don't reach unrendered rows
+export const OVERSCAN_ROWS = 20;
+
+// The rows to render, from `start` up to but not including `end`
+export interface RowRange {
+  start: number;
+  end: number;
+}
+
+// A row of the tree as react-complex-tree lists them, parents before children
+export interface LinearItem {
+  item: TreeItemIndex;
+  depth: number;
+}
+
+export interface LinearLayout {
+  // The row of each item, keyed by the string form of its id
+  rowOf: Map<string, number>;
+  // The row after the last row of each item's subtree
+  subtreeEnd: number[];
+}
+
+// The tree builds a new list of rows whenever items or expansion change
+const layoutCache = new WeakMap<LinearItem[], LinearLayout>();
+
+// Where each item's row and subtree are, in one pass over the rows
+export const linearLayout = (linearItems: LinearItem[]): LinearLayout => {
+  const cached = layoutCache.get(linearItems);
+  if (cached) return cached;
+
+  const rowOf = new Map<string, number>();
+  const subtreeEnd = new Array<number>(linearItems.length).fill(linearItems.length);
+  // Rows whose subtree hasn't ended yet, deepest last
+  const open: number[] = [];
+  linearItems.forEach(({ item, depth }, row) => {
+    while (open.length > 0 && linearItems[open[open.length - 1]].depth >= depth) {
+      subtreeEnd[open.pop() as number] = row;
+    }
+    rowOf.set(String(item), row);
+    open.push(row);
+  });
+
+  const layout = { rowOf, subtreeEnd };
+  layoutCache.set(linearItems, layout);
+  return layout;
+};
+
+export interface ChildWindow {
+  // The children to render, from `start` up to but not including `end`
+  start: number;
+  end: number;
+  // Rows taken up by the children that are skipped before and after
+  rowsBefore: number;
+  rowsAfter: number;
+}
+
+/**
+ * Which of a container's children (with their subtrees) overlap the rows in
+ * `range`. Children the layout doesn't know yet are all rendered.
+ */
+export const windowChildren = (childIds: TreeItemIndex[], layout: LinearLayout, range: RowRange): ChildWindow => {
+  const rows = childIds.map(id => layout.rowOf.get(String(id)));
+  if (rows.length === 0 || rows.some(row => row === undefined)) {
+    return { start: 0, end: childIds.length, rowsBefore: 0, rowsAfter: 0 };
+  }
+
+  const starts = rows as number[];
+  const ends = starts.map(row => layout.subtreeEnd[row]);
+  const first = starts[0];
+  const last = ends[ends.length - 1];
+
+  let start = 0;
+  while (start < starts.length && ends[start] <= range.start) start++;
+  let end = start;
+  while (end < starts.length && starts[end] < range.end) end++;
+
+  if (start === end) {
+    return { start: 0, end: 0, rowsBefore: last - first, rowsAfter: 0 };
+  }
+  return {
+    start,
+    end,
+    rowsBefore: starts[start] - first,
+    rowsAfter: last - ends[end - 1]
+  };
+};
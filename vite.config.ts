@@ -7,4 +7,13 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  build: {
+    rollupOptions: {
+      // The benchmark page is built alongside the app
+      input: {
+        main: 'index.html',
+        benchmark: 'benchmark.html',
+      },
+    },
+  },
 });
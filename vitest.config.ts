@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests of the league logic. They run in Node, without a browser.
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts']
+  }
+});